@@ -0,0 +1,24 @@
+import {redirect} from "next/navigation"
+import {getCurrentUser} from "@/lib/auth/helpers"
+import {DashboardLayout} from "@/components/layout/DashboardLayout"
+import {WebhooksPageClient} from "@/components/admin/WebhooksPageClient"
+
+export default async function WebhooksPage() {
+  const user = await getCurrentUser()
+
+  if (!user || user.role !== "admin") {
+    redirect("/login")
+  }
+
+  return (
+    <DashboardLayout userRole={user.role} userName={user.name}>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Webhooks</h2>
+        </div>
+
+        <WebhooksPageClient />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,172 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {apiKeyService} from "@/lib/services/api-key.service"
+import {MAX_ROTATION_GRACE_HOURS} from "@/lib/api-key/lifecycle"
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const rotateApiKeySchema = z.object({
+  gracePeriodHours: z.number().int().min(0).max(MAX_ROTATION_GRACE_HOURS).optional(),
+  expiresAt: z
+    .string()
+    .datetime({offset: true})
+    .refine((value) => new Date(value).getTime() > Date.now(), "expiresAt must be in the future")
+    .optional()
+    .nullable()
+})
+
+export async function POST(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: `/api/v1/api-keys/${params.id}/rotate`
+    })
+
+    const user = await requireAdminApi(request)
+
+    // O body é opcional: sem parâmetros usa o período de carência padrão e a nova key não expira
+    const body = await request.json().catch(() => ({}))
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: `/api/v1/api-keys/${params.id}/rotate`,
+      payload: body,
+      userId: user.id,
+      userRole: user.role,
+      companyId: user.companyId ?? undefined
+    })
+
+    const validated = rotateApiKeySchema.parse(body)
+
+    // Super admin pode rotacionar qualquer API key, admin apenas da sua company
+    let targetCompanyId: string
+    if (user.role === "super_admin") {
+      // Super admin: buscar companyId da API key
+      const supabase = await createServiceClient()
+      const {data: apiKey, error: keyError} = await supabase
+        .from("api_keys")
+        .select(
+          `
+          id,
+          api_clients!inner (
+            company_id
+          )
+        `
+        )
+        .eq("id", params.id)
+        .single()
+
+      if (keyError || !apiKey) {
+        const response: ApiResponse = {
+          success: false,
+          error: "API key not found"
+        }
+        return NextResponse.json(response, {status: 404})
+      }
+
+      const apiClient = Array.isArray(apiKey.api_clients) 
+        ? apiKey.api_clients[0] 
+        : apiKey.api_clients
+
+      targetCompanyId = apiClient.company_id
+    } else {
+      // Admin: apenas da sua company
+      if (!user.companyId) {
+        const response: ApiResponse = {
+          success: false,
+          error: "User must be associated with a company"
+        }
+        return NextResponse.json(response, {status: 400})
+      }
+
+      targetCompanyId = user.companyId
+    }
+
+    const result = await apiKeyService.rotateApiKey({
+      apiKeyId: params.id,
+      companyId: targetCompanyId,
+      gracePeriodHours: validated.gracePeriodHours,
+      expiresAt: validated.expiresAt,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        id: result.id,
+        key: result.fullKey, // Mostrar apenas uma vez
+        label: result.label,
+        scopes: result.scopes,
+        expiresAt: result.expiresAt,
+        createdAt: result.createdAt,
+        previousKeyId: result.previousKeyId,
+        previousKeyExpiresAt: result.previousKeyExpiresAt
+      }
+    }
+
+    const logResponse = response.data 
+      ? {...response, data: {...response.data, key: "[REDACTED]"}}
+      : response
+
+    logger.response({
+      method: "POST",
+      path: `/api/v1/api-keys/${params.id}/rotate`,
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: logResponse,
+      userId: user.id,
+      companyId: targetCompanyId,
+      userRole: user.role
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error rotating API key",
+      method: "POST",
+      path: `/api/v1/api-keys/${params.id}/rotate`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    // Tratar erros de autenticação
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "API key not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "API key not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
@@ -1,12 +1,20 @@
 import {NextRequest, NextResponse} from "next/server"
 import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
 import {apiKeyService} from "@/lib/services/api-key.service"
+import {API_KEY_SCOPES} from "@/lib/api-key/scopes"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
 const createApiKeySchema = z.object({
   label: z.string().min(1),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).optional(), // Sem scopes, a key tem acesso total
+  expiresAt: z
+    .string()
+    .datetime({offset: true})
+    .refine((value) => new Date(value).getTime() > Date.now(), "expiresAt must be in the future")
+    .optional()
+    .nullable(),
   companyId: z.string().uuid().optional() // Super admin pode especificar companyId
 })
 
@@ -62,6 +70,8 @@ export async function POST(request: NextRequest) {
     const result = await apiKeyService.createApiKey({
       companyId: targetCompanyId,
       label: validated.label,
+      scopes: validated.scopes,
+      expiresAt: validated.expiresAt,
       userId: user.id
     })
 
@@ -71,6 +81,8 @@ export async function POST(request: NextRequest) {
         id: result.id,
         key: result.fullKey, // Mostrar apenas uma vez
         label: result.label,
+        scopes: result.scopes,
+        expiresAt: result.expiresAt,
         createdAt: result.createdAt
       }
     }
@@ -1,5 +1,7 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
 import {availabilityService} from "@/lib/services/availability.service"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
@@ -17,7 +19,7 @@ const updateAvailabilitySchema = z.object({
     .optional()
 })
 
-export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -42,6 +44,23 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/availabilities/${params.id}`,
+        scope: "availabilities:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const availability = await availabilityService.getAvailabilityById(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -83,9 +102,9 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function PUT(request: NextRequest, {params}: {params: {id: string}}) {
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -110,6 +129,23 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/availabilities/${params.id}`,
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -158,6 +194,14 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 400})
     }
 
+    if ((error as any)?.status === 400 || (error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: (error as any).status})
+    }
+
     if (error instanceof Error && error.message === "Availability not found") {
       const response: ApiResponse = {
         success: false,
@@ -172,9 +216,9 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
 
-export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -199,6 +243,23 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/availabilities/${params.id}`,
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     await availabilityService.deleteAvailability(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -242,4 +303,4 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
@@ -1,10 +1,21 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
-import {availabilityService} from "@/lib/services/availability.service"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {availabilityService, AVAILABILITY_SORT_OPTIONS} from "@/lib/services/availability.service"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
+const listAvailabilitiesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(AVAILABILITY_SORT_OPTIONS)).optional(),
+  professionalId: z.string().uuid().optional(),
+  dayOfWeek: z.coerce.number().int().min(0).max(6).optional()
+})
+
 const createAvailabilitySchema = z.object({
   professionalId: z.string().uuid(),
   dayOfWeek: z.number().int().min(0).max(6),
@@ -12,7 +23,7 @@ const createAvailabilitySchema = z.object({
   endTime: z.string().regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/)
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -37,14 +48,32 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/availabilities",
+        scope: "availabilities:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const {searchParams} = new URL(request.url)
-    const professionalId = searchParams.get("professionalId") || undefined
+    const query = listAvailabilitiesQuerySchema.parse(Object.fromEntries(searchParams))
 
-    const availabilities = await availabilityService.getAllAvailabilities(authResult.companyId, professionalId)
+    const page = await availabilityService.listAvailabilities(authResult.companyId, query)
 
     const response: ApiResponse = {
       success: true,
-      data: availabilities
+      data: page.data,
+      pagination: page.pagination
     }
 
     logger.response({
@@ -67,15 +96,32 @@ export async function GET(request: NextRequest) {
       duration: Date.now() - startTime
     })
 
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -100,6 +146,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/availabilities",
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -131,6 +194,7 @@ export async function POST(request: NextRequest) {
     }
 
     const availability = await availabilityService.createAvailability({
+      companyId: authResult.companyId,
       professionalId: validated.professionalId,
       dayOfWeek: validated.dayOfWeek,
       startTime: validated.startTime,
@@ -171,10 +235,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 400})
     }
 
+    if ((error as any)?.status === 400 || (error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: (error as any).status})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
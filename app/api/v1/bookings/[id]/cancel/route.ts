@@ -0,0 +1,138 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {bookingService} from "@/lib/services/booking.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const cancelBookingSchema = z.object({
+  reason: z.string().max(500).optional().nullable()
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: `/api/v1/bookings/${params.id}/cancel`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: `/api/v1/bookings/${params.id}/cancel`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: `/api/v1/bookings/${params.id}/cancel`,
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    // O body é opcional neste endpoint
+    const body = await request.json().catch(() => ({}))
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: `/api/v1/bookings/${params.id}/cancel`,
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = cancelBookingSchema.parse(body)
+
+    const booking = await bookingService.cancelBooking(params.id, authResult.companyId, {
+      reason: validated.reason || null,
+      actor: {type: "api_key", id: authResult.apiKeyId}
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: booking
+    }
+
+    logger.response({
+      method: "POST",
+      path: `/api/v1/bookings/${params.id}/cancel`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error cancelling booking",
+      method: "POST",
+      path: `/api/v1/bookings/${params.id}/cancel`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Booking not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Booking not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
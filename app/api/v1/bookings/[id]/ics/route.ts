@@ -0,0 +1,91 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {calendarFeedService} from "@/lib/services/calendar-feed.service"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/bookings/${params.id}/ics`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/bookings/${params.id}/ics`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/bookings/${params.id}/ics`,
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const calendar = await calendarFeedService.renderBooking(params.id, authResult.companyId)
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/bookings/${params.id}/ics`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="booking-${params.id}.ics"`
+      }
+    })
+  } catch (error) {
+    logger.error({
+      message: "Error rendering booking calendar",
+      method: "GET",
+      path: `/api/v1/bookings/${params.id}/ics`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Booking not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Booking not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
@@ -1,6 +1,9 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
 import {bookingService} from "@/lib/services/booking.service"
+import {BOOKING_STATUSES} from "@/lib/services/booking-status.util"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
@@ -9,10 +12,11 @@ const updateBookingSchema = z.object({
   customerName: z.string().min(1).optional(),
   customerEmail: z.string().email().optional().nullable(),
   customerPhone: z.string().optional().nullable(),
-  status: z.enum(["pending", "confirmed", "cancelled", "completed"]).optional()
+  status: z.enum(BOOKING_STATUSES).optional(),
+  reason: z.string().max(500).optional().nullable()
 })
 
-export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -37,6 +41,23 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/bookings/${params.id}`,
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const booking = await bookingService.getBookingById(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -78,9 +99,9 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function PUT(request: NextRequest, {params}: {params: {id: string}}) {
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -105,6 +126,23 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/bookings/${params.id}`,
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -117,7 +155,10 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
 
     const validated = updateBookingSchema.parse(body)
 
-    const booking = await bookingService.updateBooking(params.id, authResult.companyId, validated)
+    const booking = await bookingService.updateBooking(params.id, authResult.companyId, {
+      ...validated,
+      actor: {type: "api_key", id: authResult.apiKeyId}
+    })
 
     const response: ApiResponse = {
       success: true,
@@ -161,15 +202,31 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 404})
     }
 
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
 
-export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -194,13 +251,31 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
       return NextResponse.json(response, {status: 401})
     }
 
-    await bookingService.deleteBooking(params.id, authResult.companyId)
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/bookings/${params.id}`,
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    // DELETE não apaga o booking: cancela como POST /cancel, mantendo o histórico e liberando a faixa
+    const booking = await bookingService.cancelBooking(params.id, authResult.companyId, {
+      actor: {type: "api_key", id: authResult.apiKeyId}
+    })
 
     const response: ApiResponse = {
       success: true,
-      data: {
-        message: "Booking deleted successfully"
-      }
+      data: booking
     }
 
     logger.response({
@@ -216,7 +291,7 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
     return NextResponse.json(response, {status: 200})
   } catch (error) {
     logger.error({
-      message: "Error deleting booking",
+      message: "Error cancelling booking",
       method: "DELETE",
       path: `/api/v1/bookings/${params.id}`,
       error,
@@ -231,10 +306,26 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
       return NextResponse.json(response, {status: 404})
     }
 
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
@@ -0,0 +1,202 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {bookingService} from "@/lib/services/booking.service"
+import {
+  MAX_RECURRENCE_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+  parseRRule,
+  validateRecurrenceRule,
+  type RecurrenceRule
+} from "@/lib/services/recurrence.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+// RRULE (ex.: "FREQ=WEEKLY;INTERVAL=2;COUNT=6") ou o objeto equivalente
+const recurrenceSchema = z
+  .union([
+    z.string().min(1),
+    z.object({
+      frequency: z.enum(RECURRENCE_FREQUENCIES),
+      count: z.number().int().min(1).max(MAX_RECURRENCE_OCCURRENCES).optional(),
+      until: z.string().datetime({offset: true}).optional()
+    })
+  ])
+  .transform((value, ctx): RecurrenceRule => {
+    try {
+      const rule = typeof value === "string" ? parseRRule(value) : value
+      validateRecurrenceRule(rule)
+      return rule
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : "Invalid recurrence"
+      })
+      return z.NEVER
+    }
+  })
+
+const createBookingSeriesSchema = z
+  .object({
+    professionalId: z.string().uuid(),
+    serviceId: z.string().uuid(),
+    startTime: z.string().datetime({offset: true}),
+    recurrence: recurrenceSchema,
+    customerId: z.string().uuid().optional(),
+    customerName: z.string().min(1).optional(),
+    customerEmail: z.string().email().optional().nullable(),
+    customerPhone: z.string().optional().nullable()
+  })
+  .refine((data) => data.customerId || data.customerName, {
+    message: "customerName or customerId is required",
+    path: ["customerName"]
+  })
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/bookings/recurring"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: "/api/v1/bookings/recurring",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/bookings/recurring",
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/bookings/recurring",
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = createBookingSeriesSchema.parse(body)
+
+    const series = await bookingService.createBookingSeries({
+      companyId: authResult.companyId,
+      professionalId: validated.professionalId,
+      serviceId: validated.serviceId,
+      startTime: validated.startTime,
+      recurrence: validated.recurrence,
+      customerId: validated.customerId || null,
+      customerName: validated.customerName,
+      customerEmail: validated.customerEmail || null,
+      customerPhone: validated.customerPhone || null
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: series
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/bookings/recurring",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating booking series",
+      method: "POST",
+      path: "/api/v1/bookings/recurring",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Service not found" ||
+        error.message === "Professional not found" ||
+        error.message === "Customer not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    // Nenhuma ocorrência é criada; conflicts lista as que não podem ser reservadas e o motivo
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict",
+        conflicts: (error as any).conflicts
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
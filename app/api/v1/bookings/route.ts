@@ -1,20 +1,55 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
-import {bookingService} from "@/lib/services/booking.service"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {bookingService, BOOKING_SORT_OPTIONS} from "@/lib/services/booking.service"
+import {BOOKING_STATUSES} from "@/lib/services/booking-status.util"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
-const createBookingSchema = z.object({
-  professionalId: z.string().uuid(),
-  serviceId: z.string().uuid(),
-  slotId: z.string().uuid(),
-  customerName: z.string().min(1),
-  customerEmail: z.string().email().optional().nullable(),
-  customerPhone: z.string().optional().nullable()
+const listBookingsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(BOOKING_SORT_OPTIONS)).optional(),
+  professionalId: z.string().uuid().optional(),
+  serviceId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  seriesId: z.string().uuid().optional(),
+  // Conjunto de status separado por vírgula, ex.: status=pending,confirmed
+  status: z
+    .string()
+    .transform((value) => value.split(",").map((status) => status.trim()))
+    .pipe(z.array(z.enum(BOOKING_STATUSES)))
+    .optional(),
+  from: z.string().datetime({offset: true}).optional(),
+  to: z.string().datetime({offset: true}).optional()
 })
 
-export async function GET(request: NextRequest) {
+const createBookingSchema = z
+  .object({
+    professionalId: z.string().uuid(),
+    serviceId: z.string().uuid(),
+    slotId: z.string().uuid().optional(),
+    startTime: z.string().datetime({offset: true}).optional(),
+    // Hold criada em POST /holds: o booking ocupa a janela segurada
+    holdId: z.string().uuid().optional(),
+    customerId: z.string().uuid().optional(),
+    customerName: z.string().min(1).optional(),
+    customerEmail: z.string().email().optional().nullable(),
+    customerPhone: z.string().optional().nullable()
+  })
+  .refine((data) => data.slotId || data.startTime || data.holdId, {
+    message: "slotId, startTime or holdId is required",
+    path: ["startTime"]
+  })
+  .refine((data) => data.customerId || data.customerName, {
+    message: "customerName or customerId is required",
+    path: ["customerName"]
+  })
+
+export const GET = withRateLimit(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -39,18 +74,32 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/bookings",
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const {searchParams} = new URL(request.url)
-    const professionalId = searchParams.get("professionalId") || undefined
-    const status = searchParams.get("status") || undefined
+    const query = listBookingsQuerySchema.parse(Object.fromEntries(searchParams))
 
-    const bookings = await bookingService.getAllBookings(authResult.companyId, {
-      professionalId,
-      status
-    })
+    const page = await bookingService.listBookings(authResult.companyId, query)
 
     const response: ApiResponse = {
       success: true,
-      data: bookings
+      data: page.data,
+      pagination: page.pagination
     }
 
     logger.response({
@@ -73,15 +122,32 @@ export async function GET(request: NextRequest) {
       duration: Date.now() - startTime
     })
 
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -106,6 +172,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/bookings",
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -122,7 +205,10 @@ export async function POST(request: NextRequest) {
       companyId: authResult.companyId,
       professionalId: validated.professionalId,
       serviceId: validated.serviceId,
-      slotId: validated.slotId,
+      slotId: validated.slotId || null,
+      startTime: validated.startTime || null,
+      holdId: validated.holdId || null,
+      customerId: validated.customerId || null,
       customerName: validated.customerName,
       customerEmail: validated.customerEmail || null,
       customerPhone: validated.customerPhone || null
@@ -162,10 +248,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 400})
     }
 
+    if (
+      error instanceof Error &&
+      (error.message === "Service not found" ||
+        error.message === "Professional not found" ||
+        error.message === "Customer not found" ||
+        error.message === "Hold not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
@@ -0,0 +1,91 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {bookingService} from "@/lib/services/booking.service"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/bookings/series/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/bookings/series/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/bookings/series/${params.id}`,
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const series = await bookingService.getBookingSeries(params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: series
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/bookings/series/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting booking series",
+      method: "GET",
+      path: `/api/v1/bookings/series/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Booking series not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Booking series not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
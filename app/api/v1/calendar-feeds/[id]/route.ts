@@ -0,0 +1,139 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {calendarFeedService} from "@/lib/services/calendar-feed.service"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/calendar-feeds/${params.id}`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const feed = await calendarFeedService.getFeed(params.id, user.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: feed
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/calendar-feeds/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error getting calendar feed",
+      method: "GET",
+      path: `/api/v1/calendar-feeds/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof Error && error.message === "Calendar feed not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Calendar feed not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/calendar-feeds/${params.id}`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    await calendarFeedService.deleteFeed(params.id, user.companyId, user.id)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Calendar feed deleted successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/calendar-feeds/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error deleting calendar feed",
+      method: "DELETE",
+      path: `/api/v1/calendar-feeds/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof Error && error.message === "Calendar feed not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Calendar feed not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
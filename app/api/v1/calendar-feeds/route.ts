@@ -0,0 +1,162 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {calendarFeedService} from "@/lib/services/calendar-feed.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const createCalendarFeedSchema = z.object({
+  // Sem professionalId, o feed lista a agenda de toda a company
+  professionalId: z.string().uuid().optional().nullable(),
+  name: z.string().max(255).optional()
+})
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/calendar-feeds"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/calendar-feeds",
+      payload: body,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    const validated = createCalendarFeedSchema.parse(body)
+
+    const feed = await calendarFeedService.createFeed({
+      companyId: user.companyId,
+      professionalId: validated.professionalId,
+      name: validated.name,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: feed // token e url são exibidos apenas aqui
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/calendar-feeds",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: {...response, data: {...feed, token: "[REDACTED]", url: "[REDACTED]"}},
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating calendar feed",
+      method: "POST",
+      path: "/api/v1/calendar-feeds",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Professional not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Professional not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/calendar-feeds"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const feeds = await calendarFeedService.listFeeds(user.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: feeds
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/calendar-feeds",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error listing calendar feeds",
+      method: "GET",
+      path: "/api/v1/calendar-feeds",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
@@ -0,0 +1,66 @@
+import {NextRequest, NextResponse} from "next/server"
+import {calendarFeedService} from "@/lib/services/calendar-feed.service"
+import {parseCalendarFeedToken} from "@/lib/services/calendar-feed.util"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+/**
+ * Feed iCalendar público (somente leitura) assinado no Google/Apple Calendar.
+ * O token da URL é a credencial: não há API Key nem sessão, e um token inválido responde 404.
+ */
+export async function GET(request: NextRequest, {params}: {params: {token: string}}) {
+  const startTime = Date.now()
+
+  try {
+    // O token não vai para os logs
+    logger.request({
+      method: "GET",
+      path: "/api/v1/calendar/[token]"
+    })
+
+    const token = parseCalendarFeedToken(params.token)
+    if (!token) {
+      throw new Error("Calendar feed not found")
+    }
+
+    const calendar = await calendarFeedService.renderFeed(token)
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/calendar/[token]",
+      statusCode: 200,
+      duration: Date.now() - startTime
+    })
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="agenda.ics"',
+        "Cache-Control": "no-store"
+      }
+    })
+  } catch (error) {
+    logger.error({
+      message: "Error rendering calendar feed",
+      method: "GET",
+      path: "/api/v1/calendar/[token]",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Calendar feed not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Calendar feed not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
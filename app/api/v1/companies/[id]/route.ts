@@ -0,0 +1,93 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireSuperAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {companyService} from "@/lib/services/company.service"
+import {logger} from "@/lib/logger"
+import {isValidTimezone} from "@/lib/services/timezone.util"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const updateCompanySchema = z.object({
+  name: z.string().min(1).optional(),
+  timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone").optional()
+})
+
+export async function PATCH(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PATCH",
+      path: `/api/v1/companies/${params.id}`
+    })
+
+    const user = await requireSuperAdminApi(request)
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PATCH",
+      path: `/api/v1/companies/${params.id}`,
+      payload: body,
+      userId: user.id
+    })
+
+    const validated = updateCompanySchema.parse(body)
+
+    const company = await companyService.updateCompany(params.id, {
+      name: validated.name,
+      timezone: validated.timezone,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: company
+    }
+
+    logger.response({
+      method: "PATCH",
+      path: `/api/v1/companies/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error updating company",
+      method: "PATCH",
+      path: `/api/v1/companies/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Company not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Company not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
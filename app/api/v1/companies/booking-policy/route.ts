@@ -0,0 +1,153 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {companyService} from "@/lib/services/company.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+// maxAdvanceDays null remove o limite; serviços podem sobrescrever cada valor
+const updateBookingPolicySchema = z.object({
+  minNoticeMinutes: z.number().int().min(0).optional(),
+  maxAdvanceDays: z.number().int().positive().optional().nullable(),
+  cancellationCutoffMinutes: z.number().int().min(0).optional()
+})
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/companies/booking-policy"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const policy = await companyService.getBookingPolicy(user.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: policy
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/companies/booking-policy",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error getting booking policy",
+      method: "GET",
+      path: "/api/v1/companies/booking-policy",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PUT",
+      path: "/api/v1/companies/booking-policy"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PUT",
+      path: "/api/v1/companies/booking-policy",
+      payload: body,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    const validated = updateBookingPolicySchema.parse(body)
+
+    const policy = await companyService.updateBookingPolicy(user.companyId, {
+      ...validated,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: policy
+    }
+
+    logger.response({
+      method: "PUT",
+      path: "/api/v1/companies/booking-policy",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error updating booking policy",
+      method: "PUT",
+      path: "/api/v1/companies/booking-policy",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
@@ -2,6 +2,7 @@ import {NextRequest, NextResponse} from "next/server"
 import {requireSuperAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
 import {companyService} from "@/lib/services/company.service"
 import {logger} from "@/lib/logger"
+import {isValidTimezone} from "@/lib/services/timezone.util"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
@@ -10,7 +11,8 @@ const createCompanySchema = z.object({
   slug: z
     .string()
     .min(1)
-    .regex(/^[a-z0-9-]+$/)
+    .regex(/^[a-z0-9-]+$/),
+  timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone").optional()
 })
 
 export async function POST(request: NextRequest) {
@@ -38,6 +40,7 @@ export async function POST(request: NextRequest) {
     const company = await companyService.createCompany({
       name: validated.name,
       slug: validated.slug,
+      timezone: validated.timezone,
       userId: user.id
     })
 
@@ -0,0 +1,146 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {bookingService, BOOKING_SORT_OPTIONS} from "@/lib/services/booking.service"
+import {BOOKING_STATUSES} from "@/lib/services/booking-status.util"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const customerBookingsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(BOOKING_SORT_OPTIONS)).optional(),
+  status: z
+    .string()
+    .transform((value) => value.split(",").map((status) => status.trim()))
+    .pipe(z.array(z.enum(BOOKING_STATUSES)))
+    .optional(),
+  from: z.string().datetime({offset: true}).optional(),
+  to: z.string().datetime({offset: true}).optional()
+})
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/customers/${params.id}/bookings`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/customers/${params.id}/bookings`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    // O histórico expõe dados do cliente e dos bookings: exige os dois scopes de leitura
+    if (!hasApiKeyScope(authResult.scopes, "customers:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/customers/${params.id}/bookings`,
+        scope: "customers:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/customers/${params.id}/bookings`,
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = customerBookingsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await bookingService.getCustomerBookings(params.id, authResult.companyId, query)
+
+    const response: ApiResponse = {
+      success: true,
+      data: page.data,
+      pagination: page.pagination
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/customers/${params.id}/bookings`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting customer bookings",
+      method: "GET",
+      path: `/api/v1/customers/${params.id}/bookings`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Customer not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Customer not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
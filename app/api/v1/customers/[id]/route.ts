@@ -0,0 +1,301 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {customerService} from "@/lib/services/customer.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const updateCustomerSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional().nullable(),
+  phone: z.string().min(1).optional().nullable(),
+  notes: z.string().optional().nullable()
+})
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/customers/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/customers/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "customers:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/customers/${params.id}`,
+        scope: "customers:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const customer = await customerService.getCustomerById(params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: customer
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/customers/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting customer",
+      method: "GET",
+      path: `/api/v1/customers/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Customer not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Customer not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PUT",
+      path: `/api/v1/customers/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "PUT",
+        path: `/api/v1/customers/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "customers:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/customers/${params.id}`,
+        scope: "customers:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PUT",
+      path: `/api/v1/customers/${params.id}`,
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = updateCustomerSchema.parse(body)
+
+    const customer = await customerService.updateCustomer(params.id, authResult.companyId, validated)
+
+    const response: ApiResponse = {
+      success: true,
+      data: customer
+    }
+
+    logger.response({
+      method: "PUT",
+      path: `/api/v1/customers/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error updating customer",
+      method: "PUT",
+      path: `/api/v1/customers/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Customer not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Customer not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
+
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/customers/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "DELETE",
+        path: `/api/v1/customers/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "customers:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/customers/${params.id}`,
+        scope: "customers:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    await customerService.deleteCustomer(params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Customer deleted successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/customers/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error deleting customer",
+      method: "DELETE",
+      path: `/api/v1/customers/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Customer not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Customer not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
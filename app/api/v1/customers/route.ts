@@ -0,0 +1,235 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {customerService, CUSTOMER_SORT_OPTIONS} from "@/lib/services/customer.service"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const listCustomersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(CUSTOMER_SORT_OPTIONS)).optional(),
+  email: z.string().optional(),
+  phone: z.string().optional()
+})
+
+const createCustomerSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional().nullable(),
+  phone: z.string().min(1).optional().nullable(),
+  notes: z.string().optional().nullable()
+})
+
+export const GET = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/customers"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: "/api/v1/customers",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "customers:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/customers",
+        scope: "customers:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    // Filtros opcionais por contato (comparados já normalizados)
+    const {searchParams} = new URL(request.url)
+    const query = listCustomersQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await customerService.listCustomers(authResult.companyId, query)
+
+    const response: ApiResponse = {
+      success: true,
+      data: page.data,
+      pagination: page.pagination
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/customers",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting customers",
+      method: "GET",
+      path: "/api/v1/customers",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/customers"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: "/api/v1/customers",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "customers:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the customers:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/customers",
+        scope: "customers:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/customers",
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = createCustomerSchema.parse(body)
+
+    const customer = await customerService.createCustomer({
+      companyId: authResult.companyId,
+      name: validated.name,
+      email: validated.email || null,
+      phone: validated.phone || null,
+      notes: validated.notes || null
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: customer
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/customers",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating customer",
+      method: "POST",
+      path: "/api/v1/customers",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
@@ -0,0 +1,178 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {bookingService} from "@/lib/services/booking.service"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/holds/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/holds/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/holds/${params.id}`,
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const hold = await bookingService.getHold(params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: hold
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/holds/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting hold",
+      method: "GET",
+      path: `/api/v1/holds/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Hold not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Hold not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/holds/${params.id}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "DELETE",
+        path: `/api/v1/holds/${params.id}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/holds/${params.id}`,
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    await bookingService.releaseHold(params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Hold released successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/holds/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error releasing hold",
+      method: "DELETE",
+      path: `/api/v1/holds/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof Error && error.message === "Hold not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Hold not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
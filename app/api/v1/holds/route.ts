@@ -0,0 +1,157 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {bookingService} from "@/lib/services/booking.service"
+import {MAX_HOLD_TTL_MINUTES} from "@/lib/services/booking-hold.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const createHoldSchema = z.object({
+  professionalId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  startTime: z.string().datetime({offset: true}),
+  // Minutos até a hold vencer e a janela voltar para /slots
+  ttlMinutes: z.number().int().min(1).max(MAX_HOLD_TTL_MINUTES).optional()
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/holds"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: "/api/v1/holds",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/holds",
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/holds",
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = createHoldSchema.parse(body)
+
+    const hold = await bookingService.createHold({
+      companyId: authResult.companyId,
+      professionalId: validated.professionalId,
+      serviceId: validated.serviceId,
+      startTime: validated.startTime,
+      ttlMinutes: validated.ttlMinutes
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: hold
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/holds",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating hold",
+      method: "POST",
+      path: "/api/v1/holds",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Service not found" ||
+        error.message === "Professional not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 409) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Conflict"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
@@ -0,0 +1,325 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {availabilityExceptionService} from "@/lib/services/availability-exception.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const timeRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/
+
+const updateExceptionSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  type: z.enum(["available", "unavailable"]).optional(),
+  startTime: z.string().regex(timeRegex).optional().nullable(),
+  endTime: z.string().regex(timeRegex).optional().nullable(),
+  reason: z.string().max(500).optional().nullable()
+})
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string; exceptionId: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        scope: "availabilities:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const exception = await availabilityExceptionService.getExceptionById(
+      params.exceptionId,
+      params.id,
+      authResult.companyId
+    )
+
+    const response: ApiResponse = {
+      success: true,
+      data: exception
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting availability exception",
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (
+      error instanceof Error &&
+      (error.message === "Professional not found" || error.message === "Availability exception not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string; exceptionId: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "PUT",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = updateExceptionSchema.parse(body)
+
+    const exception = await availabilityExceptionService.updateException(
+      params.exceptionId,
+      params.id,
+      authResult.companyId,
+      validated
+    )
+
+    const response: ApiResponse = {
+      success: true,
+      data: exception
+    }
+
+    logger.response({
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error updating availability exception",
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Validation error"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Professional not found" || error.message === "Availability exception not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
+
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string; exceptionId: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "DELETE",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    await availabilityExceptionService.deleteException(params.exceptionId, params.id, authResult.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Availability exception deleted successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error deleting availability exception",
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/exceptions/${params.exceptionId}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (
+      error instanceof Error &&
+      (error.message === "Professional not found" || error.message === "Availability exception not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
@@ -0,0 +1,272 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {
+  availabilityExceptionService,
+  AVAILABILITY_EXCEPTION_SORT_OPTIONS
+} from "@/lib/services/availability-exception.service"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+const timeRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/
+
+const listExceptionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(AVAILABILITY_EXCEPTION_SORT_OPTIONS)).optional()
+})
+
+const createExceptionSchema = z.object({
+  date: z.string().regex(dateRegex),
+  type: z.enum(["available", "unavailable"]),
+  startTime: z.string().regex(timeRegex).optional().nullable(),
+  endTime: z.string().regex(timeRegex).optional().nullable(),
+  reason: z.string().max(500).optional().nullable()
+})
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/exceptions`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/exceptions`,
+        scope: "availabilities:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const from = searchParams.get("from") || undefined
+    const to = searchParams.get("to") || undefined
+
+    if ((from && !dateRegex.test(from)) || (to && !dateRegex.test(to))) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Query parameters 'from' and 'to' must be dates in YYYY-MM-DD format"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const query = listExceptionsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await availabilityExceptionService.listExceptions(authResult.companyId, params.id, {
+      ...query,
+      from,
+      to
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: page.data,
+      pagination: page.pagination
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting availability exceptions",
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/exceptions`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Professional not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Professional not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: `/api/v1/professionals/${params.id}/exceptions`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: `/api/v1/professionals/${params.id}/exceptions`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "availabilities:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the availabilities:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: `/api/v1/professionals/${params.id}/exceptions`,
+        scope: "availabilities:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: `/api/v1/professionals/${params.id}/exceptions`,
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = createExceptionSchema.parse(body)
+
+    const exception = await availabilityExceptionService.createException({
+      companyId: authResult.companyId,
+      professionalId: params.id,
+      date: validated.date,
+      type: validated.type,
+      startTime: validated.startTime,
+      endTime: validated.endTime,
+      reason: validated.reason
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: exception
+    }
+
+    logger.response({
+      method: "POST",
+      path: `/api/v1/professionals/${params.id}/exceptions`,
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating availability exception",
+      method: "POST",
+      path: `/api/v1/professionals/${params.id}/exceptions`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Validation error"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Professional not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Professional not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
@@ -0,0 +1,164 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {slotService} from "@/lib/services/slot.service"
+import {
+  DEFAULT_NEXT_AVAILABLE_COUNT,
+  DEFAULT_NEXT_AVAILABLE_HORIZON_DAYS,
+  MAX_NEXT_AVAILABLE_COUNT,
+  MAX_NEXT_AVAILABLE_HORIZON_DAYS
+} from "@/lib/services/slot-search.util"
+import {isValidTimezone} from "@/lib/services/timezone.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const nextAvailableQuerySchema = z.object({
+  serviceId: z.string().uuid(),
+  count: z.coerce.number().int().min(1).max(MAX_NEXT_AVAILABLE_COUNT).default(DEFAULT_NEXT_AVAILABLE_COUNT),
+  horizonDays: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_NEXT_AVAILABLE_HORIZON_DAYS)
+    .default(DEFAULT_NEXT_AVAILABLE_HORIZON_DAYS),
+  slotStep: z.coerce.number().int().min(5).max(240).optional(),
+  minLeadMinutes: z.coerce.number().int().min(0).optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, {message: "Use an IANA timezone such as America/Sao_Paulo"})
+    .optional()
+})
+
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/next-available`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/next-available`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "slots:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the slots:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/next-available`,
+        scope: "slots:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = nextAvailableQuerySchema.parse(Object.fromEntries(searchParams))
+
+    logger.debug({
+      message: "Request query params",
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/next-available`,
+      queryParams: query,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const result = await slotService.getNextAvailableWindows({
+      professionalId: params.id,
+      serviceId: query.serviceId,
+      companyId: authResult.companyId,
+      count: query.count,
+      horizonDays: query.horizonDays,
+      slotStepMinutes: query.slotStep,
+      minLeadMinutes: query.minLeadMinutes,
+      timezone: query.timezone
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        service: {
+          id: result.service.id,
+          name: result.service.name,
+          duration_minutes: result.service.duration_minutes,
+          price: result.service.price
+        },
+        timezone: result.timezone,
+        horizonDays: result.horizonDays,
+        windows: result.windows
+      }
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/next-available`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: {windowsCount: result.windows.length},
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error getting next available slots",
+      method: "GET",
+      path: `/api/v1/professionals/${params.id}/next-available`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
@@ -1,17 +1,21 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
 import {professionalService} from "@/lib/services/professional.service"
 import {logger} from "@/lib/logger"
+import {isValidTimezone} from "@/lib/services/timezone.util"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
 const updateProfessionalSchema = z.object({
   name: z.string().min(1).optional(),
   email: z.string().email().optional().nullable(),
-  phone: z.string().optional().nullable()
+  phone: z.string().optional().nullable(),
+  timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone").optional().nullable()
 })
 
-export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -36,6 +40,23 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "professionals:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}`,
+        scope: "professionals:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const professional = await professionalService.getProfessionalById(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -77,9 +98,9 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function PUT(request: NextRequest, {params}: {params: {id: string}}) {
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -104,6 +125,23 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "professionals:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/professionals/${params.id}`,
+        scope: "professionals:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -166,9 +204,9 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
 
-export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -193,6 +231,23 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "professionals:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/professionals/${params.id}`,
+        scope: "professionals:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     await professionalService.deleteProfessional(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -236,4 +291,4 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
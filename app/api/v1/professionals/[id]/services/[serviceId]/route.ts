@@ -0,0 +1,218 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {professionalServicesService} from "@/lib/services/professional-services.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+// null remove o override e volta a usar o valor do serviço
+const updateServiceAssignmentSchema = z.object({
+  durationMinutes: z.number().int().positive().optional().nullable(),
+  price: z.number().min(0).optional().nullable()
+})
+
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string; serviceId: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "PUT",
+        path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "professionals:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+        scope: "professionals:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = updateServiceAssignmentSchema.parse(body)
+
+    const assignment = await professionalServicesService.updateAssignment(
+      authResult.companyId,
+      params.id,
+      params.serviceId,
+      validated
+    )
+
+    const response: ApiResponse = {
+      success: true,
+      data: assignment
+    }
+
+    logger.response({
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error updating professional service",
+      method: "PUT",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Professional not found" || error.message === "Service not assigned to this professional")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
+
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string; serviceId: string}}) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "DELETE",
+        path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "professionals:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+        scope: "professionals:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    await professionalServicesService.removeAssignment(authResult.companyId, params.id, params.serviceId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Service removed from professional successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error removing service from professional",
+      method: "DELETE",
+      path: `/api/v1/professionals/${params.id}/services/${params.serviceId}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (
+      error instanceof Error &&
+      (error.message === "Professional not found" || error.message === "Service not assigned to this professional")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
@@ -1,11 +1,13 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
 import {slotService} from "@/lib/services/slot.service"
 import {logger} from "@/lib/logger"
+import {isValidTimezone} from "@/lib/services/timezone.util"
 import type {ApiResponse} from "@/types/api"
 import {DateTime} from "luxon"
 
-export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -30,6 +32,23 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "slots:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the slots:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/professionals/${params.id}/slots`,
+        scope: "slots:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const {searchParams} = new URL(request.url)
     const serviceId =
       searchParams.get("serviceId") || searchParams.get("service_id") || searchParams.get("service") || undefined
@@ -69,11 +88,20 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 400})
     }
 
+    const requestedTimezone = searchParams.get("timezone") || undefined
+    if (requestedTimezone && !isValidTimezone(requestedTimezone)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Invalid timezone '${requestedTimezone}'. Use an IANA timezone such as America/Sao_Paulo`
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
     logger.debug({
       message: "Request query params",
       method: "GET",
       path: `/api/v1/professionals/${params.id}/slots`,
-      queryParams: {serviceId, from, to},
+      queryParams: {serviceId, from, to, timezone: requestedTimezone},
       companyId: authResult.companyId,
       apiKeyId: authResult.apiKeyId
     })
@@ -83,8 +111,6 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
         const slotStep = parseInt(searchParams.get('slotStep') || searchParams.get('slotStepMinutes') || '15', 10)
         const minLeadMinutes = parseInt(searchParams.get('minLeadMinutes') || '0', 10)
         const closingTime = searchParams.get('closingTime') || undefined
-        const timezone = searchParams.get('timezone') || 'America/Sao_Paulo'
-
         const result = await slotService.getServiceWindows({
           professionalId: params.id,
           serviceId,
@@ -94,9 +120,12 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
           slotStepMinutes: slotStep,
           minLeadMinutes,
           closingTime,
-          timezone
+          timezone: requestedTimezone
         })
 
+        // Timezone efetivo: query param → profissional → company → America/Sao_Paulo
+        const timezone = result.timezone
+
         // Transformar slots no formato solicitado: agrupados por data
         // Os slots já vêm como janelas de serviço (ex: 60 minutos), então podemos usar diretamente
         const slotsByDate = new Map<string, Array<{
@@ -139,8 +168,8 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
           
           // Adicionar horário formatado com dados do slot
           const hourEntry = {
-            start: startDt.toFormat('HH:mm') + ' BRT',
-            end: endDt.toFormat('HH:mm') + ' BRT',
+            start: startDt.toFormat('HH:mm ZZZZ', {locale: 'pt-BR'}),
+            end: endDt.toFormat('HH:mm ZZZZ', {locale: 'pt-BR'}),
             id: slotId,
             professional_id: params.id
           }
@@ -179,6 +208,7 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
               duration_minutes: result.service.duration_minutes,
               price: result.service.price
             },
+            timezone,
             dates
           },
           meta: {
@@ -206,6 +236,10 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
           const response: ApiResponse = { success: false, error: 'Service not found' }
           return NextResponse.json(response, { status: 404 })
         }
+        if (msg.includes('does not offer this service')) {
+          const response: ApiResponse = { success: false, error: msg }
+          return NextResponse.json(response, { status: 422 })
+        }
         if (msg.includes('Service duration missing') || err?.status === 422) {
           const response: ApiResponse = { success: false, error: 'Service duration is required' }
           return NextResponse.json(response, { status: 422 })
@@ -221,7 +255,8 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       serviceId,
       from,
       to,
-      companyId: authResult.companyId
+      companyId: authResult.companyId,
+      timezone: requestedTimezone
     })
 
     const response: ApiResponse = {
@@ -258,4 +293,4 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
@@ -1,17 +1,28 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
-import {professionalService} from "@/lib/services/professional.service"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {professionalService, PROFESSIONAL_SORT_OPTIONS} from "@/lib/services/professional.service"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
 import {logger} from "@/lib/logger"
+import {isValidTimezone} from "@/lib/services/timezone.util"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
+const listProfessionalsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(PROFESSIONAL_SORT_OPTIONS)).optional()
+})
+
 const createProfessionalSchema = z.object({
   name: z.string().min(1),
   email: z.string().email().optional().nullable(),
-  phone: z.string().optional().nullable()
+  phone: z.string().optional().nullable(),
+  timezone: z.string().refine(isValidTimezone, "Invalid IANA timezone").optional().nullable()
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -36,11 +47,32 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
-    const professionals = await professionalService.getAllProfessionals(authResult.companyId)
+    if (!hasApiKeyScope(authResult.scopes, "professionals:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/professionals",
+        scope: "professionals:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = listProfessionalsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await professionalService.listProfessionals(authResult.companyId, query)
 
     const response: ApiResponse = {
       success: true,
-      data: professionals
+      data: page.data,
+      pagination: page.pagination
     }
 
     logger.response({
@@ -63,15 +95,32 @@ export async function GET(request: NextRequest) {
       duration: Date.now() - startTime
     })
 
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -96,6 +145,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "professionals:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the professionals:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/professionals",
+        scope: "professionals:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -112,7 +178,8 @@ export async function POST(request: NextRequest) {
       companyId: authResult.companyId,
       name: validated.name,
       email: validated.email || null,
-      phone: validated.phone || null
+      phone: validated.phone || null,
+      timezone: validated.timezone || null
     })
 
     const response: ApiResponse = {
@@ -155,4 +222,4 @@ export async function POST(request: NextRequest) {
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
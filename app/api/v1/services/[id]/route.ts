@@ -1,5 +1,7 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
 import {serviceService} from "@/lib/services/service.service"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
@@ -8,10 +10,18 @@ import type {ApiResponse} from "@/types/api"
 const updateServiceSchema = z.object({
   name: z.string().min(1).optional(),
   durationMinutes: z.number().int().positive().optional(),
-  price: z.number().positive().optional().nullable()
+  price: z.number().positive().optional().nullable(),
+  bufferBeforeMinutes: z.number().int().min(0).max(240).optional(),
+  bufferAfterMinutes: z.number().int().min(0).max(240).optional(),
+  // Vagas por sessão: maior que 1 transforma o serviço em aula em grupo
+  capacity: z.number().int().min(1).max(500).optional(),
+  // null usa a política da company
+  minNoticeMinutes: z.number().int().min(0).optional().nullable(),
+  maxAdvanceDays: z.number().int().positive().optional().nullable(),
+  cancellationCutoffMinutes: z.number().int().min(0).optional().nullable()
 })
 
-export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+export const GET = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -36,6 +46,23 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "services:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the services:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: `/api/v1/services/${params.id}`,
+        scope: "services:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const service = await serviceService.getServiceById(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -77,9 +104,9 @@ export async function GET(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function PUT(request: NextRequest, {params}: {params: {id: string}}) {
+export const PUT = withRateLimit(withIdempotency(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -104,6 +131,23 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "services:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the services:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "PUT",
+        path: `/api/v1/services/${params.id}`,
+        scope: "services:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -166,9 +210,9 @@ export async function PUT(request: NextRequest, {params}: {params: {id: string}}
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
 
-export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+export const DELETE = withRateLimit(async (request: NextRequest, {params}: {params: {id: string}}) => {
   const startTime = Date.now()
 
   try {
@@ -193,6 +237,23 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "services:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the services:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "DELETE",
+        path: `/api/v1/services/${params.id}`,
+        scope: "services:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     await serviceService.deleteService(params.id, authResult.companyId)
 
     const response: ApiResponse = {
@@ -236,4 +297,4 @@ export async function DELETE(request: NextRequest, {params}: {params: {id: strin
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
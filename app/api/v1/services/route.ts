@@ -1,17 +1,34 @@
 import {NextRequest, NextResponse} from "next/server"
-import {authenticateApiKey} from "@/lib/api-key/middleware"
-import {serviceService} from "@/lib/services/service.service"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {serviceService, SERVICE_SORT_OPTIONS} from "@/lib/services/service.service"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
 import {logger} from "@/lib/logger"
 import {z} from "zod"
 import type {ApiResponse} from "@/types/api"
 
+const listServicesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(SERVICE_SORT_OPTIONS)).optional()
+})
+
 const createServiceSchema = z.object({
   name: z.string().min(1),
   durationMinutes: z.number().int().positive(),
-  price: z.number().positive().optional().nullable()
+  price: z.number().positive().optional().nullable(),
+  bufferBeforeMinutes: z.number().int().min(0).max(240).optional(),
+  bufferAfterMinutes: z.number().int().min(0).max(240).optional(),
+  // Vagas por sessão: maior que 1 transforma o serviço em aula em grupo
+  capacity: z.number().int().min(1).max(500).optional(),
+  // null usa a política da company
+  minNoticeMinutes: z.number().int().min(0).optional().nullable(),
+  maxAdvanceDays: z.number().int().positive().optional().nullable(),
+  cancellationCutoffMinutes: z.number().int().min(0).optional().nullable()
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -36,11 +53,32 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
-    const services = await serviceService.getAllServices(authResult.companyId)
+    if (!hasApiKeyScope(authResult.scopes, "services:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the services:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/services",
+        scope: "services:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = listServicesQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await serviceService.listServices(authResult.companyId, query)
 
     const response: ApiResponse = {
       success: true,
-      data: services
+      data: page.data,
+      pagination: page.pagination
     }
 
     logger.response({
@@ -63,15 +101,32 @@ export async function GET(request: NextRequest) {
       duration: Date.now() - startTime
     })
 
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
     const response: ApiResponse = {
       success: false,
       error: error instanceof Error ? error.message : "Internal server error"
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
   const startTime = Date.now()
 
   try {
@@ -96,6 +151,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, {status: 401})
     }
 
+    if (!hasApiKeyScope(authResult.scopes, "services:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the services:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/services",
+        scope: "services:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
     const body = await request.json()
     logger.debug({
       message: "Request payload",
@@ -112,7 +184,13 @@ export async function POST(request: NextRequest) {
       companyId: authResult.companyId,
       name: validated.name,
       durationMinutes: validated.durationMinutes,
-      price: validated.price || null
+      price: validated.price || null,
+      bufferBeforeMinutes: validated.bufferBeforeMinutes,
+      bufferAfterMinutes: validated.bufferAfterMinutes,
+      capacity: validated.capacity,
+      minNoticeMinutes: validated.minNoticeMinutes,
+      maxAdvanceDays: validated.maxAdvanceDays,
+      cancellationCutoffMinutes: validated.cancellationCutoffMinutes
     })
 
     const response: ApiResponse = {
@@ -155,4 +233,4 @@ export async function POST(request: NextRequest) {
     }
     return NextResponse.json(response, {status: 500})
   }
-}
+}))
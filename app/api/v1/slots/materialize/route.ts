@@ -0,0 +1,135 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {
+  slotMaterializationService,
+  MAX_MATERIALIZATION_HORIZON_DAYS
+} from "@/lib/services/slot-materialization.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const materializeSlotsSchema = z.object({
+  professionalId: z.string().uuid().optional(),
+  horizonDays: z.number().int().min(1).max(MAX_MATERIALIZATION_HORIZON_DAYS).optional()
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/slots/materialize"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: "/api/v1/slots/materialize",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "slots:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the slots:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/slots/materialize",
+        scope: "slots:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    // O body é opcional: sem parâmetros materializa todos os profissionais da company com o horizonte padrão
+    const body = await request.json().catch(() => ({}))
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/slots/materialize",
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = materializeSlotsSchema.parse(body)
+
+    const result = await slotMaterializationService.materializeSlots({
+      companyId: authResult.companyId,
+      professionalId: validated.professionalId,
+      horizonDays: validated.horizonDays
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: result
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/slots/materialize",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: {created: result.created, removed: result.removed, horizonDays: result.horizonDays},
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error materializing slots",
+      method: "POST",
+      path: "/api/v1/slots/materialize",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Professional not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Professional not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
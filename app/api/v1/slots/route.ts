@@ -0,0 +1,179 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {slotService} from "@/lib/services/slot.service"
+import {
+  DEFAULT_SLOT_SEARCH_LIMIT,
+  MAX_SLOT_SEARCH_DAYS,
+  MAX_SLOT_SEARCH_LIMIT,
+  SLOT_SEARCH_MODES
+} from "@/lib/services/slot-search.util"
+import {isValidTimezone} from "@/lib/services/timezone.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "Must be a valid ISO date string"
+})
+
+const searchSlotsQuerySchema = z
+  .object({
+    serviceId: z.string().uuid(),
+    from: isoDate,
+    to: isoDate,
+    professionalId: z.string().uuid().optional(),
+    mode: z.enum(SLOT_SEARCH_MODES).default("any"),
+    limit: z.coerce.number().int().min(1).max(MAX_SLOT_SEARCH_LIMIT).default(DEFAULT_SLOT_SEARCH_LIMIT),
+    slotStep: z.coerce.number().int().min(5).max(240).optional(),
+    minLeadMinutes: z.coerce.number().int().min(0).optional(),
+    timezone: z
+      .string()
+      .refine(isValidTimezone, {message: "Use an IANA timezone such as America/Sao_Paulo"})
+      .optional()
+  })
+  .refine((query) => Date.parse(query.to) > Date.parse(query.from), {
+    message: "'to' must be after 'from'",
+    path: ["to"]
+  })
+  .refine((query) => Date.parse(query.to) - Date.parse(query.from) <= MAX_SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000, {
+    message: `The search range must be at most ${MAX_SLOT_SEARCH_DAYS} days`,
+    path: ["to"]
+  })
+
+export const GET = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/slots"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: "/api/v1/slots",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "slots:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the slots:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/slots",
+        scope: "slots:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = searchSlotsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    logger.debug({
+      message: "Request query params",
+      method: "GET",
+      path: "/api/v1/slots",
+      queryParams: query,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const result = await slotService.searchServiceWindows({
+      companyId: authResult.companyId,
+      serviceId: query.serviceId,
+      from: query.from,
+      to: query.to,
+      professionalId: query.professionalId,
+      mode: query.mode,
+      limit: query.limit,
+      slotStepMinutes: query.slotStep,
+      minLeadMinutes: query.minLeadMinutes,
+      timezone: query.timezone
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        service: {
+          id: result.service.id,
+          name: result.service.name,
+          duration_minutes: result.service.duration_minutes,
+          price: result.service.price
+        },
+        mode: result.mode,
+        windows: result.windows
+      }
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/slots",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: {
+        professionalsSearched: result.professionalsSearched,
+        windowsCount: result.windows.length
+      },
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error searching slots",
+      method: "GET",
+      path: "/api/v1/slots",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Service not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
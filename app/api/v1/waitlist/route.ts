@@ -0,0 +1,277 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey, withRateLimit} from "@/lib/api-key/middleware"
+import {hasApiKeyScope} from "@/lib/api-key/scopes"
+import {withIdempotency} from "@/lib/api-key/idempotency"
+import {waitlistService, WAITLIST_SORT_OPTIONS} from "@/lib/services/waitlist.service"
+import {WAITLIST_STATUSES} from "@/lib/services/waitlist.util"
+import {MAX_PAGE_LIMIT, sortParamValues} from "@/lib/services/pagination.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const listWaitlistQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(sortParamValues(WAITLIST_SORT_OPTIONS)).optional(),
+  serviceId: z.string().uuid().optional(),
+  professionalId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  status: z
+    .string()
+    .transform((value) => value.split(",").map((status) => status.trim()))
+    .pipe(z.array(z.enum(WAITLIST_STATUSES)))
+    .optional()
+})
+
+const joinWaitlistSchema = z
+  .object({
+    serviceId: z.string().uuid(),
+    // Sem professionalId, a entrada aceita horários de qualquer profissional que ofereça o serviço
+    professionalId: z.string().uuid().optional().nullable(),
+    from: z.string().datetime({offset: true}),
+    to: z.string().datetime({offset: true}),
+    customerId: z.string().uuid().optional(),
+    customerName: z.string().min(1).optional(),
+    customerEmail: z.string().email().optional().nullable(),
+    customerPhone: z.string().optional().nullable()
+  })
+  .refine((data) => data.customerId || data.customerName, {
+    message: "customerName or customerId is required",
+    path: ["customerName"]
+  })
+
+export const GET = withRateLimit(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/waitlist"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "GET",
+        path: "/api/v1/waitlist",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:read")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:read scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "GET",
+        path: "/api/v1/waitlist",
+        scope: "bookings:read",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    // Filtros opcionais; status aceita uma lista separada por vírgula
+    const {searchParams} = new URL(request.url)
+    const query = listWaitlistQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const page = await waitlistService.listWaitlist(authResult.companyId, query)
+
+    const response: ApiResponse = {
+      success: true,
+      data: page.data,
+      pagination: page.pagination
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/waitlist",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error getting waitlist entries",
+      method: "GET",
+      path: "/api/v1/waitlist",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+})
+
+export const POST = withRateLimit(withIdempotency(async (request: NextRequest) => {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/waitlist"
+    })
+
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Unauthorized: Invalid or missing API key"
+      }
+      logger.warn({
+        message: "Unauthorized request",
+        method: "POST",
+        path: "/api/v1/waitlist",
+        statusCode: 401,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 401})
+    }
+
+    if (!hasApiKeyScope(authResult.scopes, "bookings:write")) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Forbidden: API key is missing the bookings:write scope"
+      }
+      logger.warn({
+        message: "Insufficient API key scope",
+        method: "POST",
+        path: "/api/v1/waitlist",
+        scope: "bookings:write",
+        apiKeyId: authResult.apiKeyId,
+        statusCode: 403,
+        duration: Date.now() - startTime
+      })
+      return NextResponse.json(response, {status: 403})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/waitlist",
+      payload: body,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    const validated = joinWaitlistSchema.parse(body)
+
+    const entry = await waitlistService.joinWaitlist({
+      companyId: authResult.companyId,
+      serviceId: validated.serviceId,
+      professionalId: validated.professionalId || null,
+      from: validated.from,
+      to: validated.to,
+      customerId: validated.customerId || null,
+      customerName: validated.customerName,
+      customerEmail: validated.customerEmail || null,
+      customerPhone: validated.customerPhone || null
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: entry
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/waitlist",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      companyId: authResult.companyId,
+      apiKeyId: authResult.apiKeyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error joining waitlist",
+      method: "POST",
+      path: "/api/v1/waitlist",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Service not found" ||
+        error.message === "Professional not found" ||
+        error.message === "Customer not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 422) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Unprocessable entity"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}))
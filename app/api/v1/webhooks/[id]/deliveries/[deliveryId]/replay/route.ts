@@ -0,0 +1,75 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {webhookService} from "@/lib/services/webhook.service"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+export async function POST(request: NextRequest, {params}: {params: {id: string; deliveryId: string}}) {
+  const startTime = Date.now()
+  const path = `/api/v1/webhooks/${params.id}/deliveries/${params.deliveryId}/replay`
+
+  try {
+    logger.request({
+      method: "POST",
+      path
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const delivery = await webhookService.replayDelivery(params.deliveryId, params.id, user.companyId, user.id)
+
+    const response: ApiResponse = {
+      success: true,
+      data: delivery
+    }
+
+    logger.response({
+      method: "POST",
+      path,
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error replaying webhook delivery",
+      method: "POST",
+      path,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === "Webhook subscription not found" || error.message === "Webhook delivery not found")
+    ) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
@@ -0,0 +1,90 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {webhookService} from "@/lib/services/webhook.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const listDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional()
+})
+
+export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}/deliveries`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const {searchParams} = new URL(request.url)
+    const query = listDeliveriesQuerySchema.parse({
+      limit: searchParams.get("limit") || undefined
+    })
+
+    const deliveries = await webhookService.listDeliveries(params.id, user.companyId, query.limit)
+
+    const response: ApiResponse = {
+      success: true,
+      data: deliveries
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}/deliveries`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: {success: true, data: {count: deliveries.length}},
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error listing webhook deliveries",
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}/deliveries`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Webhook subscription not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Webhook subscription not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
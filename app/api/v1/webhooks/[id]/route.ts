@@ -0,0 +1,250 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {webhookService} from "@/lib/services/webhook.service"
+import {WEBHOOK_EVENTS, webhookUrlError} from "@/lib/services/webhook.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const updateWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => webhookUrlError(url) === null, "URL must use http or https and point to a public host")
+    .optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  description: z.string().max(255).optional().nullable(),
+  isActive: z.boolean().optional()
+})
+
+export async function GET(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const subscription = await webhookService.getSubscription(params.id, user.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: subscription
+    }
+
+    logger.response({
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error getting webhook subscription",
+      method: "GET",
+      path: `/api/v1/webhooks/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof Error && error.message === "Webhook subscription not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Webhook subscription not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function PATCH(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "PATCH",
+      path: `/api/v1/webhooks/${params.id}`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "PATCH",
+      path: `/api/v1/webhooks/${params.id}`,
+      payload: body,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    const validated = updateWebhookSchema.parse(body)
+
+    const subscription = await webhookService.updateSubscription(params.id, user.companyId, {
+      ...validated,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: subscription
+    }
+
+    logger.response({
+      method: "PATCH",
+      path: `/api/v1/webhooks/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error updating webhook subscription",
+      method: "PATCH",
+      path: `/api/v1/webhooks/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if (error instanceof Error && error.message === "Webhook subscription not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Webhook subscription not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function DELETE(request: NextRequest, {params}: {params: {id: string}}) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "DELETE",
+      path: `/api/v1/webhooks/${params.id}`
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    await webhookService.deleteSubscription(params.id, user.companyId, user.id)
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: "Webhook subscription deleted successfully"
+      }
+    }
+
+    logger.response({
+      method: "DELETE",
+      path: `/api/v1/webhooks/${params.id}`,
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error deleting webhook subscription",
+      method: "DELETE",
+      path: `/api/v1/webhooks/${params.id}`,
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof Error && error.message === "Webhook subscription not found") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Webhook subscription not found"
+      }
+      return NextResponse.json(response, {status: 404})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
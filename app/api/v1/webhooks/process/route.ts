@@ -0,0 +1,81 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireCronSecretApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {webhookService} from "@/lib/services/webhook.service"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const processDeliveriesSchema = z.object({
+  limit: z.number().int().min(1).max(200).optional()
+})
+
+/**
+ * Job da plataforma (cron a cada minuto, autenticado pelo CRON_SECRET): entrega os eventos enfileirados e os
+ * retries vencidos de todas as companies
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/webhooks/process"
+    })
+
+    requireCronSecretApi(request)
+
+    const body = await request.json().catch(() => ({}))
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/webhooks/process",
+      payload: body
+    })
+
+    const validated = processDeliveriesSchema.parse(body)
+
+    const result = await webhookService.processDueDeliveries({limit: validated.limit})
+
+    const response: ApiResponse = {
+      success: true,
+      data: result
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/webhooks/process",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response
+    })
+
+    return NextResponse.json(response, {status: 200})
+  } catch (error) {
+    logger.error({
+      message: "Error processing webhook deliveries",
+      method: "POST",
+      path: "/api/v1/webhooks/process",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
@@ -0,0 +1,167 @@
+import {NextRequest, NextResponse} from "next/server"
+import {requireAdminApi, ApiAuthError} from "@/lib/auth/api-helpers"
+import {webhookService} from "@/lib/services/webhook.service"
+import {WEBHOOK_EVENTS, webhookUrlError} from "@/lib/services/webhook.util"
+import {logger} from "@/lib/logger"
+import {z} from "zod"
+import type {ApiResponse} from "@/types/api"
+
+const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => webhookUrlError(url) === null, "URL must use http or https and point to a public host"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().max(255).optional()
+})
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "POST",
+      path: "/api/v1/webhooks"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const body = await request.json()
+    logger.debug({
+      message: "Request payload",
+      method: "POST",
+      path: "/api/v1/webhooks",
+      payload: body,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    const validated = createWebhookSchema.parse(body)
+
+    const subscription = await webhookService.createSubscription({
+      companyId: user.companyId,
+      url: validated.url,
+      events: validated.events,
+      description: validated.description,
+      userId: user.id
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: subscription // secret é exibido apenas aqui
+    }
+
+    logger.response({
+      method: "POST",
+      path: "/api/v1/webhooks",
+      statusCode: 201,
+      duration: Date.now() - startTime,
+      response: {...response, data: {...subscription, secret: "[REDACTED]"}},
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response, {status: 201})
+  } catch (error) {
+    logger.error({
+      message: "Error creating webhook subscription",
+      method: "POST",
+      path: "/api/v1/webhooks",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    if (error instanceof z.ZodError) {
+      const response: ApiResponse = {
+        success: false,
+        error: "Validation error",
+        errors: error.flatten().fieldErrors
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    if ((error as any)?.status === 400) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Bad request"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    logger.request({
+      method: "GET",
+      path: "/api/v1/webhooks"
+    })
+
+    const user = await requireAdminApi(request)
+
+    if (!user.companyId) {
+      const response: ApiResponse = {
+        success: false,
+        error: "User must be associated with a company"
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    const subscriptions = await webhookService.listSubscriptions(user.companyId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: subscriptions
+    }
+
+    logger.response({
+      method: "GET",
+      path: "/api/v1/webhooks",
+      statusCode: 200,
+      duration: Date.now() - startTime,
+      response: response,
+      userId: user.id,
+      companyId: user.companyId
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    logger.error({
+      message: "Error listing webhook subscriptions",
+      method: "GET",
+      path: "/api/v1/webhooks",
+      error,
+      duration: Date.now() - startTime
+    })
+
+    if (error instanceof ApiAuthError) {
+      return error.toResponse()
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error"
+    }
+    return NextResponse.json(response, {status: 500})
+  }
+}
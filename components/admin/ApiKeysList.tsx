@@ -8,7 +8,10 @@ import {Button} from "@/components/ui/button"
 import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
 import {ErrorAlert} from "@/components/layout/ErrorAlert"
 import {ConfirmModal} from "@/components/modals/ConfirmModal"
-import {Trash2} from "lucide-react"
+import {ApiKeyModal} from "@/components/modals/ApiKeyModal"
+import {RefreshCw, Trash2} from "lucide-react"
+import {API_KEY_SCOPES} from "@/lib/api-key/scopes"
+import {DEFAULT_ROTATION_GRACE_HOURS, STALE_API_KEY_DAYS, isApiKeyExpired} from "@/lib/api-key/lifecycle"
 
 interface ApiKey {
   id: string
@@ -16,10 +19,21 @@ interface ApiKey {
   label: string
   maskedKey: string
   revoked: boolean
+  scopes: string[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  replacedBy: string | null
   createdAt: string
   revokedAt: string | null
 }
 
+const STALE_MS = STALE_API_KEY_DAYS * 24 * 60 * 60 * 1000
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-BR", {dateStyle: "short", timeStyle: "short"})
+}
+
 export interface ApiKeysListRef {
   refresh: () => void
 }
@@ -32,6 +46,11 @@ export const ApiKeysList = forwardRef<ApiKeysListRef>((props, ref) => {
   const [revokingId, setRevokingId] = useState<string | null>(null)
   const [confirmModalOpen, setConfirmModalOpen] = useState(false)
   const [keyToRevoke, setKeyToRevoke] = useState<string | null>(null)
+  const [rotatingId, setRotatingId] = useState<string | null>(null)
+  const [rotateModalOpen, setRotateModalOpen] = useState(false)
+  const [keyToRotate, setKeyToRotate] = useState<string | null>(null)
+  const [rotatedKey, setRotatedKey] = useState<{key: string; label: string} | null>(null)
+  const [rotatedKeyModalOpen, setRotatedKeyModalOpen] = useState(false)
 
   const fetchKeys = async () => {
     try {
@@ -89,6 +108,39 @@ export const ApiKeysList = forwardRef<ApiKeysListRef>((props, ref) => {
     setConfirmModalOpen(true)
   }
 
+  const handleRotate = async (id: string) => {
+    setRotatingId(id)
+    try {
+      const response = await fetch(`/api/v1/api-keys/${id}/rotate`, {
+        method: "POST",
+        headers: {"Content-Type": "application/json"},
+        body: JSON.stringify({})
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erro ao rotacionar API key")
+        return
+      }
+
+      setRotatedKey({key: data.data.key, label: data.data.label})
+      setRotatedKeyModalOpen(true)
+      router.refresh()
+      fetchKeys()
+    } catch (err) {
+      setError("Erro ao rotacionar API key")
+    } finally {
+      setRotatingId(null)
+      setKeyToRotate(null)
+    }
+  }
+
+  const openRotateModal = (id: string) => {
+    setKeyToRotate(id)
+    setRotateModalOpen(true)
+  }
+
   if (loading) {
     return (
       <Card>
@@ -121,39 +173,89 @@ export const ApiKeysList = forwardRef<ApiKeysListRef>((props, ref) => {
                 <TableRow>
                   <TableHead>Label</TableHead>
                   <TableHead>Key (mascarada)</TableHead>
+                  <TableHead>Permissões</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Último uso</TableHead>
+                  <TableHead>Expira em</TableHead>
                   <TableHead>Criado em</TableHead>
                   <TableHead>Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {keys.map((key) => (
-                  <TableRow key={key.id}>
-                    <TableCell className="font-medium">{key.label}</TableCell>
-                    <TableCell className="font-mono text-sm">{key.maskedKey}</TableCell>
-                    <TableCell>
-                      {key.revoked ? (
-                        <span className="text-destructive">Revogada</span>
-                      ) : (
-                        <span className="text-green-600">Ativa</span>
-                      )}
-                    </TableCell>
-                    <TableCell>{new Date(key.createdAt).toLocaleDateString("pt-BR")}</TableCell>
-                    <TableCell>
-                      {!key.revoked && (
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => openRevokeModal(key.id)}
-                          disabled={revokingId === key.id}
-                        >
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          {revokingId === key.id ? "Revogando..." : "Revogar"}
-                        </Button>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {keys.map((key) => {
+                  const expired = isApiKeyExpired(key.expiresAt)
+                  const active = !key.revoked && !expired
+                  const stale = !key.lastUsedAt || Date.now() - new Date(key.lastUsedAt).getTime() > STALE_MS
+
+                  return (
+                    <TableRow key={key.id}>
+                      <TableCell className="font-medium">{key.label}</TableCell>
+                      <TableCell className="font-mono text-sm">{key.maskedKey}</TableCell>
+                      <TableCell>
+                        {API_KEY_SCOPES.every((scope) => key.scopes.includes(scope)) ? (
+                          <span>Acesso total</span>
+                        ) : (
+                          <div className="flex max-w-xs flex-wrap gap-1">
+                            {key.scopes.map((scope) => (
+                              <span key={scope} className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">
+                                {scope}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {key.revoked ? (
+                          <span className="text-destructive">Revogada</span>
+                        ) : expired ? (
+                          <span className="text-destructive">Expirada</span>
+                        ) : key.replacedBy ? (
+                          <span className="text-amber-600">Substituída (em carência)</span>
+                        ) : (
+                          <span className="text-green-600">Ativa</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={active && stale ? "text-amber-600" : undefined}>
+                        {key.lastUsedAt ? (
+                          <>
+                            <div>{formatDateTime(key.lastUsedAt)}</div>
+                            {key.lastUsedIp && (
+                              <div className="font-mono text-xs text-muted-foreground">{key.lastUsedIp}</div>
+                            )}
+                          </>
+                        ) : (
+                          "Nunca usada"
+                        )}
+                      </TableCell>
+                      <TableCell>{key.expiresAt ? formatDateTime(key.expiresAt) : "Não expira"}</TableCell>
+                      <TableCell>{new Date(key.createdAt).toLocaleDateString("pt-BR")}</TableCell>
+                      <TableCell className="space-x-2 whitespace-nowrap">
+                        {active && !key.replacedBy && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openRotateModal(key.id)}
+                            disabled={rotatingId === key.id}
+                          >
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            {rotatingId === key.id ? "Rotacionando..." : "Rotacionar"}
+                          </Button>
+                        )}
+                        {!key.revoked && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => openRevokeModal(key.id)}
+                            disabled={revokingId === key.id}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            {revokingId === key.id ? "Revogando..." : "Revogar"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
               </TableBody>
             </Table>
           )}
@@ -174,6 +276,29 @@ export const ApiKeysList = forwardRef<ApiKeysListRef>((props, ref) => {
           }
         }}
       />
+
+      <ConfirmModal
+        open={rotateModalOpen}
+        onOpenChange={setRotateModalOpen}
+        title="Rotacionar API Key"
+        description={`Uma nova key será gerada com as mesmas permissões. A key atual continuará funcionando por ${DEFAULT_ROTATION_GRACE_HOURS} horas.`}
+        confirmText="Rotacionar"
+        cancelText="Cancelar"
+        onConfirm={() => {
+          if (keyToRotate) {
+            handleRotate(keyToRotate)
+          }
+        }}
+      />
+
+      {rotatedKey && (
+        <ApiKeyModal
+          open={rotatedKeyModalOpen}
+          onOpenChange={setRotatedKeyModalOpen}
+          apiKey={rotatedKey.key}
+          label={rotatedKey.label}
+        />
+      )}
     </>
   )
 })
@@ -8,6 +8,17 @@ import {Label} from "@/components/ui/label"
 import {ErrorAlert} from "@/components/layout/ErrorAlert"
 import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
 import {ApiKeyModal} from "@/components/modals/ApiKeyModal"
+import {API_KEY_SCOPES, WIDGET_API_KEY_SCOPES, type ApiKeyScope} from "@/lib/api-key/scopes"
+
+// Recursos exibidos no formulário, com os scopes de leitura e escrita de cada um
+const SCOPE_GROUPS: {label: string; read?: ApiKeyScope; write?: ApiKeyScope}[] = [
+  {label: "Profissionais", read: "professionals:read", write: "professionals:write"},
+  {label: "Serviços", read: "services:read", write: "services:write"},
+  {label: "Disponibilidades e exceções", read: "availabilities:read", write: "availabilities:write"},
+  {label: "Slots", read: "slots:read", write: "slots:write"},
+  {label: "Agendamentos", read: "bookings:read", write: "bookings:write"},
+  {label: "Clientes", read: "customers:read", write: "customers:write"}
+]
 
 interface CreateApiKeyFormProps {
   onApiKeyCreated?: () => void
@@ -15,21 +26,38 @@ interface CreateApiKeyFormProps {
 
 export function CreateApiKeyForm({onApiKeyCreated}: CreateApiKeyFormProps) {
   const [label, setLabel] = useState("")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES])
+  const [expiresOn, setExpiresOn] = useState("")
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [generatedKey, setGeneratedKey] = useState<{key: string; label: string} | null>(null)
   const [modalOpen, setModalOpen] = useState(false)
 
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
+
+    if (scopes.length === 0) {
+      setError("Selecione pelo menos uma permissão")
+      return
+    }
+
     setLoading(true)
 
     try {
       const response = await fetch("/api/v1/api-keys", {
         method: "POST",
         headers: {"Content-Type": "application/json"},
-        body: JSON.stringify({label})
+        body: JSON.stringify({
+          label,
+          scopes,
+          // A key expira ao fim do dia escolhido (horário local)
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined
+        })
       })
 
       const data = await response.json()
@@ -43,6 +71,8 @@ export function CreateApiKeyForm({onApiKeyCreated}: CreateApiKeyFormProps) {
       setGeneratedKey({key: data.data.key, label: data.data.label})
       setModalOpen(true)
       setLabel("")
+      setScopes([...API_KEY_SCOPES])
+      setExpiresOn("")
 
       // Notificar o componente pai para atualizar a lista
       if (onApiKeyCreated) {
@@ -78,6 +108,70 @@ export function CreateApiKeyForm({onApiKeyCreated}: CreateApiKeyFormProps) {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="expiresOn">Expira em (opcional)</Label>
+              <Input
+                id="expiresOn"
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                min={new Date().toISOString().slice(0, 10)}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Permissões</Label>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setScopes([...API_KEY_SCOPES])}
+                    disabled={loading}
+                  >
+                    Acesso total
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setScopes([...WIDGET_API_KEY_SCOPES])}
+                    disabled={loading}
+                  >
+                    Widget público
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2 rounded-md border p-3">
+                {SCOPE_GROUPS.map((group) => (
+                  <div key={group.label} className="grid grid-cols-[1fr_auto_auto] items-center gap-4 text-sm">
+                    <span>{group.label}</span>
+                    {[group.read, group.write].map((scope, index) =>
+                      scope ? (
+                        <label key={scope} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={scopes.includes(scope)}
+                            onChange={() => toggleScope(scope)}
+                            disabled={loading}
+                          />
+                          <span>{index === 0 ? "Leitura" : "Escrita"}</span>
+                        </label>
+                      ) : (
+                        <span key={index} />
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Escrita não inclui leitura. O botão Widget público marca só a leitura do catálogo (profissionais,
+                serviços, availabilities e slots); para o widget agendar, inclua escrita de agendamentos.
+              </p>
+            </div>
+
             <Button type="submit" disabled={loading} className="w-full">
               {loading ? (
                 <>
@@ -0,0 +1,161 @@
+"use client"
+
+import {useState} from "react"
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/components/ui/card"
+import {Button} from "@/components/ui/button"
+import {Input} from "@/components/ui/input"
+import {Label} from "@/components/ui/label"
+import {ErrorAlert} from "@/components/layout/ErrorAlert"
+import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
+import {WebhookSecretModal} from "@/components/modals/WebhookSecretModal"
+
+// Mesma lista de WEBHOOK_EVENTS (lib/services/webhook.util), com os rótulos exibidos no painel
+export const WEBHOOK_EVENT_LABELS: Record<string, string> = {
+  "booking.created": "Agendamento criado",
+  "booking.updated": "Agendamento atualizado",
+  "booking.status_changed": "Status do agendamento alterado",
+  "booking.cancelled": "Agendamento cancelado",
+  "booking.rescheduled": "Agendamento remarcado",
+  "professional.created": "Profissional criado",
+  "professional.updated": "Profissional atualizado",
+  "professional.deleted": "Profissional removido",
+  "service.created": "Serviço criado",
+  "service.updated": "Serviço atualizado",
+  "service.deleted": "Serviço removido",
+  "availability.created": "Disponibilidade criada",
+  "availability.updated": "Disponibilidade atualizada",
+  "availability.deleted": "Disponibilidade removida"
+}
+
+interface CreateWebhookFormProps {
+  onWebhookCreated?: () => void
+}
+
+export function CreateWebhookForm({onWebhookCreated}: CreateWebhookFormProps) {
+  const [url, setUrl] = useState("")
+  const [description, setDescription] = useState("")
+  const [events, setEvents] = useState<string[]>(["booking.created", "booking.cancelled"])
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [created, setCreated] = useState<{secret: string; url: string} | null>(null)
+  const [modalOpen, setModalOpen] = useState(false)
+
+  const toggleEvent = (event: string) => {
+    setEvents((current) => (current.includes(event) ? current.filter((e) => e !== event) : [...current, event]))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (events.length === 0) {
+      setError("Selecione pelo menos um evento")
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch("/api/v1/webhooks", {
+        method: "POST",
+        headers: {"Content-Type": "application/json"},
+        body: JSON.stringify({url, events, description: description || undefined})
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erro ao criar webhook")
+        setLoading(false)
+        return
+      }
+
+      setCreated({secret: data.data.secret, url: data.data.url})
+      setModalOpen(true)
+      setUrl("")
+      setDescription("")
+
+      // Notificar o componente pai para atualizar a lista
+      if (onWebhookCreated) {
+        onWebhookCreated()
+      }
+    } catch (err) {
+      setError("Erro ao criar webhook. Tente novamente.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo Webhook</CardTitle>
+          <CardDescription>Receba eventos da sua company em uma URL via POST assinado (HMAC-SHA256)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && <ErrorAlert message={error} />}
+
+            <div className="space-y-2">
+              <Label htmlFor="url">URL</Label>
+              <Input
+                id="url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://exemplo.com/webhooks/agendamento"
+                required
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Descrição</Label>
+              <Input
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="ex: Integração com CRM"
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Eventos</Label>
+              <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {Object.entries(WEBHOOK_EVENT_LABELS).map(([event, label]) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                      disabled={loading}
+                    />
+                    <span>{label}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" disabled={loading} className="w-full">
+              {loading ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Criando...
+                </>
+              ) : (
+                "Criar Webhook"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {created && (
+        <WebhookSecretModal open={modalOpen} onOpenChange={setModalOpen} secret={created.secret} url={created.url} />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import {useEffect, useState} from "react"
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/components/ui/card"
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table"
+import {Button} from "@/components/ui/button"
+import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
+import {ErrorAlert} from "@/components/layout/ErrorAlert"
+import {RefreshCw, RotateCcw} from "lucide-react"
+import type {WebhookSubscription} from "./WebhooksList"
+
+interface WebhookDelivery {
+  id: string
+  event: string
+  status: "pending" | "delivering" | "succeeded" | "failed"
+  attempts: number
+  nextAttemptAt: string | null
+  lastAttemptAt: string | null
+  responseStatus: number | null
+  lastError: string | null
+  createdAt: string
+}
+
+interface WebhookDeliveriesListProps {
+  subscription: WebhookSubscription
+}
+
+const STATUS_LABELS: Record<WebhookDelivery["status"], {label: string; className: string}> = {
+  pending: {label: "Aguardando retry", className: "text-yellow-600"},
+  delivering: {label: "Enviando", className: "text-muted-foreground"},
+  succeeded: {label: "Entregue", className: "text-green-600"},
+  failed: {label: "Falhou", className: "text-destructive"}
+}
+
+export function WebhookDeliveriesList({subscription}: WebhookDeliveriesListProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  const fetchDeliveries = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/v1/webhooks/${subscription.id}/deliveries`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erro ao carregar entregas")
+        return
+      }
+
+      setDeliveries(data.data || [])
+      setError(null)
+    } catch (err) {
+      setError("Erro ao carregar entregas")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [subscription.id])
+
+  const handleReplay = async (deliveryId: string) => {
+    setReplayingId(deliveryId)
+    try {
+      const response = await fetch(`/api/v1/webhooks/${subscription.id}/deliveries/${deliveryId}/replay`, {
+        method: "POST"
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Erro ao reenviar entrega")
+        return
+      }
+
+      fetchDeliveries()
+    } catch (err) {
+      setError("Erro ao reenviar entrega")
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Entregas</CardTitle>
+          <CardDescription className="font-mono break-all">{subscription.url}</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Atualizar
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && <ErrorAlert message={error} className="mb-4" />}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">Nenhuma entrega registrada</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Evento</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Tentativas</TableHead>
+                <TableHead>Resposta</TableHead>
+                <TableHead>Criado em</TableHead>
+                <TableHead>Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-sm">{delivery.event}</TableCell>
+                  <TableCell>
+                    <span className={STATUS_LABELS[delivery.status].className}>
+                      {STATUS_LABELS[delivery.status].label}
+                    </span>
+                    {delivery.nextAttemptAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Próxima: {new Date(delivery.nextAttemptAt).toLocaleString("pt-BR")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell>
+                    {delivery.responseStatus !== null && <span className="font-mono">{delivery.responseStatus}</span>}
+                    {delivery.lastError && <p className="text-xs text-muted-foreground">{delivery.lastError}</p>}
+                  </TableCell>
+                  <TableCell>{new Date(delivery.createdAt).toLocaleString("pt-BR")}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReplay(delivery.id)}
+                      disabled={replayingId === delivery.id}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {replayingId === delivery.id ? "Reenviando..." : "Reenviar"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import {useEffect, useState, forwardRef, useImperativeHandle} from "react"
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/components/ui/card"
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table"
+import {Button} from "@/components/ui/button"
+import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
+import {ErrorAlert} from "@/components/layout/ErrorAlert"
+import {ConfirmModal} from "@/components/modals/ConfirmModal"
+import {History, Power, Trash2} from "lucide-react"
+
+export interface WebhookSubscription {
+  id: string
+  url: string
+  description: string | null
+  events: string[]
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WebhooksListRef {
+  refresh: () => void
+}
+
+interface WebhooksListProps {
+  selectedId: string | null
+  onSelect: (subscription: WebhookSubscription) => void
+  onDeleted: (id: string) => void
+}
+
+export const WebhooksList = forwardRef<WebhooksListRef, WebhooksListProps>(({selectedId, onSelect, onDeleted}, ref) => {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [confirmModalOpen, setConfirmModalOpen] = useState(false)
+  const [webhookToDelete, setWebhookToDelete] = useState<string | null>(null)
+
+  const fetchWebhooks = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch("/api/v1/webhooks")
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Erro ao carregar webhooks")
+        return
+      }
+
+      setWebhooks(data.data || [])
+      setError(null)
+    } catch (err) {
+      setError("Erro ao carregar webhooks")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useImperativeHandle(ref, () => ({
+    refresh: fetchWebhooks
+  }))
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [])
+
+  const handleToggle = async (webhook: WebhookSubscription) => {
+    setBusyId(webhook.id)
+    try {
+      const response = await fetch(`/api/v1/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: {"Content-Type": "application/json"},
+        body: JSON.stringify({isActive: !webhook.isActive})
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Erro ao atualizar webhook")
+        return
+      }
+
+      fetchWebhooks()
+    } catch (err) {
+      setError("Erro ao atualizar webhook")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(`/api/v1/webhooks/${id}`, {
+        method: "DELETE"
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Erro ao remover webhook")
+        return
+      }
+
+      onDeleted(id)
+      fetchWebhooks()
+    } catch (err) {
+      setError("Erro ao remover webhook")
+    } finally {
+      setBusyId(null)
+      setWebhookToDelete(null)
+    }
+  }
+
+  const openDeleteModal = (id: string) => {
+    setWebhookToDelete(id)
+    setConfirmModalOpen(true)
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>URLs que recebem os eventos da sua company</CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center py-8">
+          <LoadingSpinner />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>URLs que recebem os eventos da sua company</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <ErrorAlert message={error} className="mb-4" />}
+
+          {webhooks.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">Nenhum webhook cadastrado</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Eventos</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Criado em</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id} className={selectedId === webhook.id ? "bg-muted/50" : undefined}>
+                    <TableCell>
+                      <p className="font-mono text-sm break-all">{webhook.url}</p>
+                      {webhook.description && (
+                        <p className="text-sm text-muted-foreground">{webhook.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{webhook.events.join(", ")}</TableCell>
+                    <TableCell>
+                      {webhook.isActive ? (
+                        <span className="text-green-600">Ativo</span>
+                      ) : (
+                        <span className="text-muted-foreground">Pausado</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(webhook.createdAt).toLocaleDateString("pt-BR")}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => onSelect(webhook)}>
+                          <History className="h-4 w-4 mr-1" />
+                          Entregas
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggle(webhook)}
+                          disabled={busyId === webhook.id}
+                        >
+                          <Power className="h-4 w-4 mr-1" />
+                          {webhook.isActive ? "Pausar" : "Ativar"}
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => openDeleteModal(webhook.id)}
+                          disabled={busyId === webhook.id}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Remover
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmModal
+        open={confirmModalOpen}
+        onOpenChange={setConfirmModalOpen}
+        title="Remover Webhook"
+        description="Deseja remover este webhook? O histórico de entregas também será apagado."
+        confirmText="Remover"
+        cancelText="Cancelar"
+        variant="destructive"
+        onConfirm={() => {
+          if (webhookToDelete) {
+            handleDelete(webhookToDelete)
+          }
+        }}
+      />
+    </>
+  )
+})
+
+WebhooksList.displayName = "WebhooksList"
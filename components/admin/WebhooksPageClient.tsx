@@ -0,0 +1,34 @@
+"use client"
+
+import {useRef, useState} from "react"
+import {CreateWebhookForm} from "./CreateWebhookForm"
+import {WebhooksList, WebhooksListRef, WebhookSubscription} from "./WebhooksList"
+import {WebhookDeliveriesList} from "./WebhookDeliveriesList"
+
+export function WebhooksPageClient() {
+  const webhooksListRef = useRef<WebhooksListRef>(null)
+  const [selected, setSelected] = useState<WebhookSubscription | null>(null)
+
+  const handleWebhookCreated = () => {
+    webhooksListRef.current?.refresh()
+  }
+
+  const handleWebhookDeleted = (id: string) => {
+    if (selected?.id === id) {
+      setSelected(null)
+    }
+  }
+
+  return (
+    <div className="grid gap-6">
+      <CreateWebhookForm onWebhookCreated={handleWebhookCreated} />
+      <WebhooksList
+        ref={webhooksListRef}
+        selectedId={selected?.id ?? null}
+        onSelect={setSelected}
+        onDeleted={handleWebhookDeleted}
+      />
+      {selected && <WebhookDeliveriesList key={selected.id} subscription={selected} />}
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import Link from "next/link"
 import {usePathname} from "next/navigation"
 import {cn} from "@/lib/utils"
-import {Building2, Users, Key} from "lucide-react"
+import {Building2, Users, Key, Webhook} from "lucide-react"
 
 interface SidebarProps {
   userRole: "super_admin" | "admin"
@@ -30,6 +30,11 @@ export function Sidebar({userRole}: SidebarProps) {
       title: "API Keys",
       href: "/admin/api-keys",
       icon: Key
+    },
+    {
+      title: "Webhooks",
+      href: "/admin/webhooks",
+      icon: Webhook
     }
   ]
 
@@ -0,0 +1,105 @@
+"use client"
+
+import {useEffect, useState} from "react"
+import {Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter} from "@/components/ui/dialog"
+import {Button} from "@/components/ui/button"
+import {FormField} from "@/components/forms/FormField"
+import {ErrorAlert} from "@/components/layout/ErrorAlert"
+import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
+import {DEFAULT_TIMEZONE} from "@/lib/services/timezone.util"
+
+interface EditCompanyModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  company: {id: string; name: string; timezone: string} | null
+  onSaved: () => void
+}
+
+export function EditCompanyModal({open, onOpenChange, company, onSaved}: EditCompanyModalProps) {
+  const [name, setName] = useState("")
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (company) {
+      setName(company.name)
+      setTimezone(company.timezone)
+      setError(null)
+    }
+  }, [company])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!company) return
+
+    setError(null)
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/v1/companies/${company.id}`, {
+        method: "PATCH",
+        headers: {"Content-Type": "application/json"},
+        body: JSON.stringify({name, timezone})
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.errors?.timezone?.[0] || data.error || "Erro ao atualizar company")
+        return
+      }
+
+      onSaved()
+      onOpenChange(false)
+    } catch (err) {
+      setError("Erro ao atualizar company. Tente novamente.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Editar Company</DialogTitle>
+          <DialogDescription>
+            O timezone (IANA, ex.: America/Manaus) vale para os profissionais sem timezone próprio; a grade de
+            slots já materializada é refeita no novo fuso.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <ErrorAlert message={error} />}
+
+          <FormField label="Nome" name="name" value={name} onChange={(e) => setName(e.target.value)} required />
+
+          <FormField
+            label="Timezone"
+            name="timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value.trim())}
+            placeholder={DEFAULT_TIMEZONE}
+            required
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Salvando...
+                </>
+              ) : (
+                "Salvar"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import {Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter} from "@/components/ui/dialog"
+import {Button} from "@/components/ui/button"
+import {useState} from "react"
+import {Copy, Check} from "lucide-react"
+
+interface WebhookSecretModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  secret: string
+  url: string
+}
+
+export function WebhookSecretModal({open, onOpenChange, secret, url}: WebhookSecretModalProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(secret)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Webhook Criado</DialogTitle>
+          <DialogDescription>
+            Use este secret para validar o header X-Webhook-Signature das entregas. Ele será exibido apenas uma vez.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">URL</label>
+            <p className="text-sm font-mono bg-muted p-2 rounded mt-1 break-all">{url}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Secret</label>
+            <div className="flex items-center gap-2 mt-1">
+              <p className="text-sm font-mono bg-muted p-2 rounded flex-1 break-all">{secret}</p>
+              <Button type="button" variant="outline" size="icon" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded p-3">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              ⚠️ Atenção: Este secret não poderá ser visualizado novamente após fechar este modal.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,11 +5,15 @@ import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/compo
 import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table"
 import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
 import {ErrorAlert} from "@/components/layout/ErrorAlert"
+import {Button} from "@/components/ui/button"
+import {EditCompanyModal} from "@/components/modals/EditCompanyModal"
+import {Pencil} from "lucide-react"
 
 interface Company {
   id: string
   name: string
   slug: string
+  timezone: string
   created_at: string
 }
 
@@ -21,6 +25,7 @@ export const CompaniesList = forwardRef<CompaniesListRef>((props, ref) => {
   const [companies, setCompanies] = useState<Company[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [companyToEdit, setCompanyToEdit] = useState<Company | null>(null)
 
   const fetchCompanies = async () => {
     setLoading(true)
@@ -65,38 +70,58 @@ export const CompaniesList = forwardRef<CompaniesListRef>((props, ref) => {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Companies</CardTitle>
-        <CardDescription>Lista de todas as companies</CardDescription>
-      </CardHeader>
-      <CardContent>
-        {error ? (
-          <ErrorAlert message={error} />
-        ) : companies.length === 0 ? (
-          <p className="text-muted-foreground text-center py-4">Nenhuma company cadastrada</p>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Nome</TableHead>
-                <TableHead>Slug</TableHead>
-                <TableHead>Criado em</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {companies.map((company) => (
-                <TableRow key={company.id}>
-                  <TableCell className="font-medium">{company.name}</TableCell>
-                  <TableCell>{company.slug}</TableCell>
-                  <TableCell>{new Date(company.created_at).toLocaleDateString("pt-BR")}</TableCell>
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Companies</CardTitle>
+          <CardDescription>Lista de todas as companies</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <ErrorAlert message={error} />
+          ) : companies.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">Nenhuma company cadastrada</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Timezone</TableHead>
+                  <TableHead>Criado em</TableHead>
+                  <TableHead>Ações</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        )}
-      </CardContent>
-    </Card>
+              </TableHeader>
+              <TableBody>
+                {companies.map((company) => (
+                  <TableRow key={company.id}>
+                    <TableCell className="font-medium">{company.name}</TableCell>
+                    <TableCell>{company.slug}</TableCell>
+                    <TableCell className="font-mono text-sm">{company.timezone}</TableCell>
+                    <TableCell>{new Date(company.created_at).toLocaleDateString("pt-BR")}</TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => setCompanyToEdit(company)}>
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Editar
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <EditCompanyModal
+        open={companyToEdit !== null}
+        onOpenChange={(open) => {
+          if (!open) setCompanyToEdit(null)
+        }}
+        company={companyToEdit}
+        onSaved={fetchCompanies}
+      />
+    </>
   )
 })
 
@@ -6,6 +6,7 @@ import {Button} from "@/components/ui/button"
 import {FormField} from "@/components/forms/FormField"
 import {ErrorAlert} from "@/components/layout/ErrorAlert"
 import {LoadingSpinner} from "@/components/layout/LoadingSpinner"
+import {DEFAULT_TIMEZONE} from "@/lib/services/timezone.util"
 import type {CompaniesListRef} from "./CompaniesList"
 
 interface CreateCompanyFormProps {
@@ -15,6 +16,7 @@ interface CreateCompanyFormProps {
 export function CreateCompanyForm({onCompanyCreated}: CreateCompanyFormProps) {
   const [name, setName] = useState("")
   const [slug, setSlug] = useState("")
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
 
@@ -27,7 +29,7 @@ export function CreateCompanyForm({onCompanyCreated}: CreateCompanyFormProps) {
       const response = await fetch("/api/v1/companies", {
         method: "POST",
         headers: {"Content-Type": "application/json"},
-        body: JSON.stringify({name, slug})
+        body: JSON.stringify({name, slug, timezone})
       })
 
       const data = await response.json()
@@ -40,6 +42,7 @@ export function CreateCompanyForm({onCompanyCreated}: CreateCompanyFormProps) {
 
       setName("")
       setSlug("")
+      setTimezone(DEFAULT_TIMEZONE)
 
       // Notificar o componente pai para atualizar a lista
       if (onCompanyCreated) {
@@ -73,6 +76,15 @@ export function CreateCompanyForm({onCompanyCreated}: CreateCompanyFormProps) {
             required
           />
 
+          <FormField
+            label="Timezone"
+            name="timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value.trim())}
+            placeholder={DEFAULT_TIMEZONE}
+            required
+          />
+
           <Button type="submit" disabled={loading} className="w-full">
             {loading ? (
               <>
@@ -2,45 +2,58 @@ import crypto from "crypto"
 
 const PREFIX = process.env.API_KEY_PREFIX || "sk_"
 const RANDOM_LENGTH = parseInt(process.env.API_KEY_RANDOM_LENGTH || "32", 10)
+const KEY_IDENTIFIER_BYTES = 8
 
 export interface GeneratedApiKey {
   fullKey: string
   prefix: string
   apiClientId: string
+  keyIdentifier: string
   randomPart: string
 }
 
+export interface ParsedApiKey {
+  apiClientId: string
+  keyIdentifier: string | null // null em keys legadas (sk_<apiClientId>_<random>)
+}
+
 /**
- * Gera uma API Key no formato: sk_<apiClientId>_<random>
+ * Gera uma API Key no formato: sk_<apiClientId>_<keyIdentifier>_<random>
+ * O keyIdentifier é público e indexado em api_keys, para que apenas um hash seja verificado
  */
 export function generateApiKey(apiClientId: string): GeneratedApiKey {
+  const keyIdentifier = crypto.randomBytes(KEY_IDENTIFIER_BYTES).toString("hex")
   const randomPart = crypto.randomBytes(RANDOM_LENGTH).toString("hex")
   const prefix = PREFIX
-  const fullKey = `${prefix}${apiClientId}_${randomPart}`
+  const fullKey = `${prefix}${apiClientId}_${keyIdentifier}_${randomPart}`
 
   return {
     fullKey,
     prefix,
     apiClientId,
+    keyIdentifier,
     randomPart
   }
 }
 
 /**
- * Extrai o apiClientId de uma API Key
+ * Extrai apiClientId e keyIdentifier de uma API Key (aceita também o formato legado)
  */
-export function extractApiClientId(apiKey: string): string | null {
+export function parseApiKey(apiKey: string): ParsedApiKey | null {
   const prefix = PREFIX
   if (!apiKey.startsWith(prefix)) {
     return null
   }
 
-  const withoutPrefix = apiKey.slice(prefix.length)
-  const parts = withoutPrefix.split("_")
+  const parts = apiKey.slice(prefix.length).split("_")
 
-  if (parts.length < 2) {
-    return null
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    return {apiClientId: parts[0], keyIdentifier: null}
+  }
+
+  if (parts.length === 3 && parts.every(Boolean)) {
+    return {apiClientId: parts[0], keyIdentifier: parts[1]}
   }
 
-  return parts[0]
+  return null
 }
@@ -0,0 +1,114 @@
+import {NextRequest, NextResponse} from "next/server"
+import {authenticateApiKey} from "./middleware"
+import {idempotencyService} from "@/lib/services/idempotency.service"
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  hashIdempotentRequest,
+  isStorableIdempotentStatus,
+  isValidIdempotencyKey
+} from "@/lib/services/idempotency.util"
+import {logger} from "@/lib/logger"
+import type {ApiResponse} from "@/types/api"
+
+/**
+ * Wrapper para handlers de escrita autenticados por API Key que honra o header Idempotency-Key.
+ * Sem o header, o handler roda normalmente. Com o header, a primeira resposta (não-5xx) é guardada
+ * por api_client e devolvida nas repetições com o mesmo corpo; corpo diferente retorna 422.
+ */
+export function withIdempotency<A extends unknown[]>(
+  handler: (request: NextRequest, ...args: A) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: A): Promise<NextResponse> => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+
+    if (key === null) {
+      return handler(request, ...args)
+    }
+
+    if (!isValidIdempotencyKey(key)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Idempotency-Key must have 1 to ${IDEMPOTENCY_KEY_MAX_LENGTH} printable characters`
+      }
+      return NextResponse.json(response, {status: 400})
+    }
+
+    // Requisição não autenticada segue para o handler, que responde 401
+    const authResult = await authenticateApiKey(request)
+    if (!authResult) {
+      return handler(request, ...args)
+    }
+
+    const path = request.nextUrl.pathname
+    const rawBody = await request.clone().text()
+
+    let state
+    try {
+      state = await idempotencyService.begin({
+        apiClientId: authResult.apiClientId,
+        companyId: authResult.companyId,
+        key,
+        method: request.method,
+        path,
+        requestHash: hashIdempotentRequest(request.method, path, rawBody)
+      })
+    } catch (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error"
+      }
+      return NextResponse.json(response, {status: 500})
+    }
+
+    if (state.state === "replay") {
+      logger.info({
+        message: "Idempotent request replayed",
+        method: request.method,
+        path,
+        companyId: authResult.companyId,
+        apiClientId: authResult.apiClientId,
+        idempotencyKey: key,
+        statusCode: state.status
+      })
+      return NextResponse.json(state.body, {status: state.status, headers: {"Idempotent-Replayed": "true"}})
+    }
+
+    if (state.state === "mismatch") {
+      const response: ApiResponse = {
+        success: false,
+        error: "Idempotency-Key was already used with a different request"
+      }
+      return NextResponse.json(response, {status: 422})
+    }
+
+    if (state.state === "in_progress") {
+      const response: ApiResponse = {
+        success: false,
+        error: "A request with this Idempotency-Key is still being processed"
+      }
+      return NextResponse.json(response, {status: 409})
+    }
+
+    let response: NextResponse
+    try {
+      response = await handler(request, ...args)
+    } catch (error) {
+      await idempotencyService.release(authResult.apiClientId, key)
+      throw error
+    }
+
+    if (!isStorableIdempotentStatus(response.status)) {
+      await idempotencyService.release(authResult.apiClientId, key)
+      return response
+    }
+
+    const body = await response
+      .clone()
+      .json()
+      .catch(() => null)
+    await idempotencyService.complete(authResult.apiClientId, key, response.status, body)
+
+    return response
+  }
+}
@@ -0,0 +1,60 @@
+const HOUR_MS = 60 * 60 * 1000
+
+// Período em que a key antiga continua válida após a rotação
+export const DEFAULT_ROTATION_GRACE_HOURS = 24
+export const MAX_ROTATION_GRACE_HOURS = 720
+
+// Intervalo mínimo entre atualizações de last_used_at, para não gravar a cada requisição
+export const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+// Keys sem uso há mais tempo que isso são destacadas no painel
+export const STALE_API_KEY_DAYS = 30
+
+export function isApiKeyExpired(expiresAt: string | null, now: number = Date.now()): boolean {
+  return expiresAt !== null && new Date(expiresAt).getTime() <= now
+}
+
+/**
+ * Nova expiração da key substituída: fim do período de carência, sem estender uma expiração anterior
+ */
+export function rotationGraceExpiry(
+  currentExpiresAt: string | null,
+  graceHours: number,
+  now: number = Date.now()
+): string {
+  const graceEnd = now + graceHours * HOUR_MS
+
+  if (currentExpiresAt !== null && new Date(currentExpiresAt).getTime() < graceEnd) {
+    return new Date(currentExpiresAt).toISOString()
+  }
+
+  return new Date(graceEnd).toISOString()
+}
+
+export function shouldRecordApiKeyUse(lastUsedAt: string | null, now: number = Date.now()): boolean {
+  return lastUsedAt === null || now - new Date(lastUsedAt).getTime() >= LAST_USED_UPDATE_INTERVAL_MS
+}
+
+/**
+ * IP do cliente visto pelo nosso proxy. Com CLIENT_IP_HEADER (ex.: x-real-ip definido pela plataforma), só
+ * esse header vale; senão, o último endereço de X-Forwarded-For, o único acrescentado pelo proxy (os
+ * anteriores vêm do próprio cliente e podem ser forjados)
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedHeader: string | undefined = process.env.CLIENT_IP_HEADER
+): string | null {
+  if (trustedHeader) {
+    return headers.get(trustedHeader)?.trim() || null
+  }
+
+  const forwardedFor = headers.get("x-forwarded-for")
+  if (forwardedFor) {
+    const last = forwardedFor.split(",").pop()?.trim()
+    if (last) {
+      return last
+    }
+  }
+
+  return headers.get("x-real-ip")?.trim() || null
+}
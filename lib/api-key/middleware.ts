@@ -1,19 +1,81 @@
-import {NextRequest} from "next/server"
+import {NextRequest, NextResponse} from "next/server"
 import {createServiceClient} from "@/lib/supabase/server"
-import {extractApiClientId} from "./generator"
+import {parseApiKey} from "./generator"
 import {verifyApiKey} from "./hash"
+import {apiKeyVerificationCache} from "./verification-cache"
+import {getClientIp, isApiKeyExpired, shouldRecordApiKeyUse} from "./lifecycle"
+import {
+  RateLimitError,
+  RateLimitResult,
+  buildAuthFailureRules,
+  buildRateLimitRules,
+  consumeRateLimit,
+  defaultAuthFailureLimit,
+  defaultRateLimitConfig,
+  peekRateLimit,
+  rateLimitHeaders
+} from "./rate-limit"
+import {normalizeApiKeyScopes, type ApiKeyScope} from "./scopes"
+import {apiKeyService} from "@/lib/services/api-key.service"
 import {logger} from "@/lib/logger"
 
 export interface ApiKeyAuthResult {
   companyId: string
   apiKeyId: string
   apiClientId: string
+  scopes: ApiKeyScope[]
+}
+
+// Uma mesma requisição pode ser autenticada mais de uma vez (ex.: withIdempotency e depois o handler);
+// o resultado é reaproveitado para não repetir a verificação argon2
+const authenticatedRequests = new WeakMap<NextRequest, Promise<ApiKeyAuthResult | null>>()
+// Resultado do rate limit de cada requisição, para os headers RateLimit-* da resposta
+const rateLimitResults = new WeakMap<NextRequest, RateLimitResult>()
+
+interface RateLimitSettings {
+  rate_limit_per_minute: number | null
+  daily_quota: number | null
+}
+
+type ApiClientRateLimits = RateLimitSettings & {
+  id: string
+  company_id: string
+  companies: RateLimitSettings | RateLimitSettings[] | null
 }
 
 /**
  * Middleware para autenticar requisições via API Key
+ * Lança RateLimitError quando o api_client ou a company excedeu seus limites, ou quando o IP
+ * acumulou falhas de autenticação demais
  */
-export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAuthResult | null> {
+export function authenticateApiKey(request: NextRequest): Promise<ApiKeyAuthResult | null> {
+  let result = authenticatedRequests.get(request)
+
+  if (!result) {
+    result = verifyRequestApiKey(request)
+    authenticatedRequests.set(request, result)
+  }
+
+  return result
+}
+
+async function verifyRequestApiKey(request: NextRequest): Promise<ApiKeyAuthResult | null> {
+  const verified = await findRequestApiKey(request)
+
+  if (!verified) {
+    await recordAuthFailure(request)
+    return null
+  }
+
+  // Só requisições autenticadas consomem a cota: um token forjado com o id de outro api_client não a gasta
+  await enforceRateLimit(request, verified.apiClient)
+
+  return verified.auth
+}
+
+async function findRequestApiKey(
+  request: NextRequest
+): Promise<{auth: ApiKeyAuthResult; apiClient: ApiClientRateLimits} | null> {
   const authHeader = request.headers.get("authorization")
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -27,9 +89,9 @@ export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAu
 
   const apiKey = authHeader.slice(7) // Remove "Bearer "
 
-  // Extrair apiClientId do prefixo
-  const apiClientId = extractApiClientId(apiKey)
-  if (!apiClientId) {
+  // Extrair apiClientId e keyIdentifier do token
+  const parsedKey = parseApiKey(apiKey)
+  if (!parsedKey) {
     logger.warn({
       message: "Invalid API key format",
       method: request.method,
@@ -43,8 +105,8 @@ export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAu
   // Buscar api_client e api_key
   const {data: apiClient, error: clientError} = await supabase
     .from("api_clients")
-    .select("id, company_id")
-    .eq("id", apiClientId)
+    .select("id, company_id, rate_limit_per_minute, daily_quota, companies (rate_limit_per_minute, daily_quota)")
+    .eq("id", parsedKey.apiClientId)
     .single()
 
   if (clientError || !apiClient) {
@@ -52,18 +114,24 @@ export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAu
       message: "API client not found",
       method: request.method,
       path: request.nextUrl.pathname,
-      apiClientId
+      apiClientId: parsedKey.apiClientId
     })
     return null
   }
 
-  // Buscar todas as keys não revogadas deste client
-  const {data: apiKeys, error: keysError} = await supabase
+  // Com keyIdentifier, o índice retorna no máximo uma key; keys legadas (sem identificador) são verificadas uma a uma
+  let keysQuery = supabase
     .from("api_keys")
-    .select("id, key_hash")
+    .select("id, key_hash, scopes, expires_at, last_used_at")
     .eq("api_client_id", apiClient.id)
     .eq("revoked", false)
 
+  keysQuery = parsedKey.keyIdentifier
+    ? keysQuery.eq("key_identifier", parsedKey.keyIdentifier)
+    : keysQuery.is("key_identifier", null)
+
+  const {data: apiKeys, error: keysError} = await keysQuery
+
   if (keysError || !apiKeys || apiKeys.length === 0) {
     logger.warn({
       message: "No valid API keys found for client",
@@ -74,24 +142,57 @@ export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAu
     return null
   }
 
-  // Verificar hash de cada key
-  for (const keyRecord of apiKeys) {
-    const isValid = await verifyApiKey(apiKey, keyRecord.key_hash)
+  // Keys expiradas (inclusive as substituídas após o período de carência) são descartadas antes do argon2
+  const activeKeys = apiKeys.filter((keyRecord) => !isApiKeyExpired(keyRecord.expires_at))
+
+  if (activeKeys.length === 0) {
+    logger.warn({
+      message: "API key expired",
+      method: request.method,
+      path: request.nextUrl.pathname,
+      apiClientId: apiClient.id
+    })
+    return null
+  }
+
+  // O argon2 só roda para IPs abaixo do limite de falhas; keys já verificadas (em cache) não dependem dele
+  if (!activeKeys.some((keyRecord) => apiKeyVerificationCache.has(apiKey, keyRecord.key_hash))) {
+    await assertAuthFailureLimit(request)
+  }
+
+  // Verificar hash de cada key (verificações recentes vêm do cache, sem recalcular o argon2)
+  for (const keyRecord of activeKeys) {
+    const cached = apiKeyVerificationCache.has(apiKey, keyRecord.key_hash)
+    const isValid = cached || (await verifyApiKey(apiKey, keyRecord.key_hash))
 
     if (isValid) {
+      if (!cached) {
+        apiKeyVerificationCache.set(apiKey, keyRecord.key_hash)
+      }
+
+      // Sem await: o registro de uso não deve atrasar a requisição
+      if (shouldRecordApiKeyUse(keyRecord.last_used_at)) {
+        apiKeyService.recordApiKeyUsage(keyRecord.id, getClientIp(request.headers))
+      }
+
       logger.info({
         message: "API key authenticated successfully",
         method: request.method,
         path: request.nextUrl.pathname,
         companyId: apiClient.company_id,
         apiKeyId: keyRecord.id,
-        apiClientId: apiClient.id
+        apiClientId: apiClient.id,
+        cached
       })
 
       return {
-        companyId: apiClient.company_id,
-        apiKeyId: keyRecord.id,
-        apiClientId: apiClient.id
+        auth: {
+          companyId: apiClient.company_id,
+          apiKeyId: keyRecord.id,
+          apiClientId: apiClient.id,
+          scopes: normalizeApiKeyScopes(keyRecord.scopes || [])
+        },
+        apiClient
       }
     }
   }
@@ -105,3 +206,109 @@ export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAu
 
   return null
 }
+
+async function enforceRateLimit(request: NextRequest, apiClient: ApiClientRateLimits) {
+  // companies pode ser array ou objeto único dependendo do relacionamento
+  const company = Array.isArray(apiClient.companies) ? apiClient.companies[0] : apiClient.companies
+  const defaults = defaultRateLimitConfig()
+
+  const result = await consumeRateLimit(
+    buildRateLimitRules(apiClient.id, apiClient.company_id, {
+      clientPerMinute: apiClient.rate_limit_per_minute ?? defaults.clientPerMinute,
+      clientPerDay: apiClient.daily_quota ?? defaults.clientPerDay,
+      companyPerMinute: company?.rate_limit_per_minute ?? defaults.companyPerMinute,
+      companyPerDay: company?.daily_quota ?? defaults.companyPerDay
+    })
+  )
+
+  if (!result) {
+    return
+  }
+
+  rateLimitResults.set(request, result)
+
+  if (!result.allowed) {
+    logger.warn({
+      message: "API rate limit exceeded",
+      method: request.method,
+      path: request.nextUrl.pathname,
+      apiClientId: apiClient.id,
+      companyId: apiClient.company_id,
+      rule: result.rule,
+      retryAfter: result.retryAfterSeconds
+    })
+    throw new RateLimitError(result)
+  }
+}
+
+/**
+ * Conta uma falha de autenticação no contador do IP; ao exceder o limite a resposta passa a ser 429.
+ * Sem IP identificável (ex.: sem proxy na frente) não há como separar os clientes e a falha não é contada.
+ */
+async function recordAuthFailure(request: NextRequest) {
+  const ip = getClientIp(request.headers)
+  if (!ip) {
+    return
+  }
+
+  const result = await consumeRateLimit(buildAuthFailureRules(ip, defaultAuthFailureLimit()))
+  if (result && !result.allowed) {
+    logAuthFailureLimit(request, ip, result)
+    throw new RateLimitError(result)
+  }
+}
+
+/**
+ * Recusa a requisição antes do argon2 quando o IP já atingiu o limite de falhas de autenticação
+ */
+async function assertAuthFailureLimit(request: NextRequest) {
+  const ip = getClientIp(request.headers)
+  if (!ip) {
+    return
+  }
+
+  const result = await peekRateLimit(buildAuthFailureRules(ip, defaultAuthFailureLimit()))
+  if (result && !result.allowed) {
+    logAuthFailureLimit(request, ip, result)
+    throw new RateLimitError(result)
+  }
+}
+
+function logAuthFailureLimit(request: NextRequest, ip: string, result: RateLimitResult) {
+  logger.warn({
+    message: "API authentication failure limit exceeded",
+    method: request.method,
+    path: request.nextUrl.pathname,
+    ip,
+    rule: result.rule,
+    retryAfter: result.retryAfterSeconds
+  })
+}
+
+/**
+ * Wrapper para handlers autenticados por API Key: responde 429 quando o limite foi excedido
+ * e adiciona os headers RateLimit-* às respostas
+ */
+export function withRateLimit<A extends unknown[]>(
+  handler: (request: NextRequest, ...args: A) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: A): Promise<NextResponse> => {
+    try {
+      await authenticateApiKey(request)
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        return error.toResponse()
+      }
+      throw error
+    }
+
+    const response = await handler(request, ...args)
+
+    const result = rateLimitResults.get(request)
+    if (result) {
+      Object.entries(rateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value))
+    }
+
+    return response
+  }
+}
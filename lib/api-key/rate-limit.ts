@@ -0,0 +1,254 @@
+import {NextResponse} from "next/server"
+import type {ApiResponse} from "@/types/api"
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export interface RateLimitRule {
+  name: string // ex.: "client:minute"
+  key: string // identificador do contador no store
+  limit: number // 0 desativa a regra
+  windowMs: number
+}
+
+export interface RateLimitCounter {
+  count: number
+  resetAt: number // epoch ms do fim da janela
+}
+
+/**
+ * Store dos contadores. A implementação em memória vale por instância; com várias instâncias
+ * troque por um store compartilhado (ex.: Redis INCR + PEXPIREAT) via setRateLimitStore.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number, now: number): Promise<RateLimitCounter>
+  get(key: string, windowMs: number, now: number): Promise<RateLimitCounter> // contador atual, sem incrementar
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetSeconds: number
+  retryAfterSeconds: number | null
+  rule: string | null // regra que determinou o resultado (a excedida ou a mais restritiva)
+}
+
+export interface RateLimitConfig {
+  clientPerMinute: number
+  clientPerDay: number
+  companyPerMinute: number
+  companyPerDay: number
+}
+
+/**
+ * Janelas fixas alinhadas ao relógio (minuto cheio, dia UTC)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>()
+  private lastSweep = 0
+
+  async increment(key: string, windowMs: number, now: number): Promise<RateLimitCounter> {
+    this.sweep(now)
+
+    const resetAt = (Math.floor(now / windowMs) + 1) * windowMs
+    const storeKey = `${key}:${resetAt}`
+    const counter = this.counters.get(storeKey) || {count: 0, resetAt}
+
+    counter.count++
+    this.counters.set(storeKey, counter)
+
+    return {...counter}
+  }
+
+  async get(key: string, windowMs: number, now: number): Promise<RateLimitCounter> {
+    const resetAt = (Math.floor(now / windowMs) + 1) * windowMs
+    const counter = this.counters.get(`${key}:${resetAt}`) || {count: 0, resetAt}
+
+    return {...counter}
+  }
+
+  // Remove janelas encerradas no máximo uma vez por minuto
+  private sweep(now: number) {
+    if (now - this.lastSweep < MINUTE_MS) {
+      return
+    }
+
+    this.lastSweep = now
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key)
+      }
+    })
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+
+export function setRateLimitStore(newStore: RateLimitStore) {
+  store = newStore
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store
+}
+
+function envLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10)
+  return Number.isNaN(value) ? fallback : value
+}
+
+/**
+ * Limites padrão (variáveis de ambiente), usados quando o api_client/company não define os seus
+ */
+export function defaultRateLimitConfig(): RateLimitConfig {
+  return {
+    clientPerMinute: envLimit("API_RATE_LIMIT_PER_MINUTE", 120),
+    clientPerDay: envLimit("API_DAILY_QUOTA", 10000),
+    companyPerMinute: envLimit("API_COMPANY_RATE_LIMIT_PER_MINUTE", 600),
+    companyPerDay: envLimit("API_COMPANY_DAILY_QUOTA", 50000)
+  }
+}
+
+/**
+ * Limite de falhas de autenticação por minuto de um mesmo IP (variável de ambiente)
+ */
+export function defaultAuthFailureLimit(): number {
+  return envLimit("API_AUTH_FAILURE_LIMIT_PER_MINUTE", 30)
+}
+
+/**
+ * Regras das requisições autenticadas: os limites valem por api_client (todas as suas keys) e por company
+ */
+export function buildRateLimitRules(apiClientId: string, companyId: string, config: RateLimitConfig): RateLimitRule[] {
+  return [
+    {name: "client:minute", key: `client:${apiClientId}:minute`, limit: config.clientPerMinute, windowMs: MINUTE_MS},
+    {name: "client:day", key: `client:${apiClientId}:day`, limit: config.clientPerDay, windowMs: DAY_MS},
+    {name: "company:minute", key: `company:${companyId}:minute`, limit: config.companyPerMinute, windowMs: MINUTE_MS},
+    {name: "company:day", key: `company:${companyId}:day`, limit: config.companyPerDay, windowMs: DAY_MS}
+  ].filter((rule) => rule.limit > 0)
+}
+
+/**
+ * Regra das falhas de autenticação, em um contador por IP separado das cotas dos api_clients
+ */
+export function buildAuthFailureRules(ip: string, limitPerMinute: number): RateLimitRule[] {
+  return [{name: "ip:minute", key: `auth-failure:${ip}:minute`, limit: limitPerMinute, windowMs: MINUTE_MS}].filter(
+    (rule) => rule.limit > 0
+  )
+}
+
+/**
+ * Conta a requisição em todas as regras e decide se ela passa.
+ * Sem regras ativas, a requisição sempre passa e não há headers a informar.
+ */
+export async function consumeRateLimit(
+  rules: RateLimitRule[],
+  now: number = Date.now(),
+  rateLimitStore: RateLimitStore = store
+): Promise<RateLimitResult | null> {
+  return evaluateRateLimit(rules, now, (rule) => rateLimitStore.increment(rule.key, rule.windowMs, now))
+}
+
+/**
+ * Decide se a próxima requisição passaria, sem contá-la
+ */
+export async function peekRateLimit(
+  rules: RateLimitRule[],
+  now: number = Date.now(),
+  rateLimitStore: RateLimitStore = store
+): Promise<RateLimitResult | null> {
+  return evaluateRateLimit(rules, now, async (rule) => {
+    const counter = await rateLimitStore.get(rule.key, rule.windowMs, now)
+    return {...counter, count: counter.count + 1}
+  })
+}
+
+async function evaluateRateLimit(
+  rules: RateLimitRule[],
+  now: number,
+  count: (rule: RateLimitRule) => Promise<RateLimitCounter>
+): Promise<RateLimitResult | null> {
+  if (rules.length === 0) {
+    return null
+  }
+
+  const states = await Promise.all(
+    rules.map(async (rule) => {
+      const counter = await count(rule)
+      return {
+        rule,
+        remaining: Math.max(0, rule.limit - counter.count),
+        exceeded: counter.count > rule.limit,
+        resetSeconds: Math.max(1, Math.ceil((counter.resetAt - now) / 1000))
+      }
+    })
+  )
+
+  const exceeded = states.filter((state) => state.exceeded)
+
+  if (exceeded.length > 0) {
+    // Só volta a passar quando todas as regras excedidas reiniciarem
+    const binding = exceeded.reduce((a, b) => (b.resetSeconds > a.resetSeconds ? b : a))
+    return {
+      allowed: false,
+      limit: binding.rule.limit,
+      remaining: 0,
+      resetSeconds: binding.resetSeconds,
+      retryAfterSeconds: binding.resetSeconds,
+      rule: binding.rule.name
+    }
+  }
+
+  const binding = states.reduce((a, b) => (b.remaining < a.remaining ? b : a))
+  return {
+    allowed: true,
+    limit: binding.rule.limit,
+    remaining: binding.remaining,
+    resetSeconds: binding.resetSeconds,
+    retryAfterSeconds: null,
+    rule: binding.rule.name
+  }
+}
+
+/**
+ * Headers RateLimit-* (draft IETF) e Retry-After
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds)
+  }
+
+  if (result.retryAfterSeconds !== null) {
+    headers["Retry-After"] = String(result.retryAfterSeconds)
+  }
+
+  return headers
+}
+
+/**
+ * Erro lançado pela autenticação por API Key quando um limite é excedido
+ * Sempre retorna JSON 429 no formato ApiResponse
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly result: RateLimitResult) {
+    super(
+      result.rule?.endsWith(":day")
+        ? "Daily request quota exceeded"
+        : "Rate limit exceeded. Try again later"
+    )
+    this.name = "RateLimitError"
+  }
+
+  toResponse(): NextResponse<ApiResponse> {
+    return NextResponse.json(
+      {
+        success: false,
+        error: this.message
+      } as ApiResponse,
+      {status: 429, headers: rateLimitHeaders(this.result)}
+    )
+  }
+}
@@ -0,0 +1,46 @@
+// Permissões de uma API Key no formato <recurso>:<read|write>
+export const API_KEY_SCOPES = [
+  "professionals:read",
+  "professionals:write",
+  "services:read",
+  "services:write",
+  "availabilities:read",
+  "availabilities:write",
+  "slots:read",
+  "slots:write",
+  "bookings:read",
+  "bookings:write",
+  "customers:read",
+  "customers:write"
+] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+/**
+ * Scopes de leitura de uma key embutida em página pública (widget de agendamento).
+ * Lista explícita: bookings:read e customers:read expõem nome, email e telefone dos clientes
+ */
+export const WIDGET_API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  "professionals:read",
+  "services:read",
+  "availabilities:read",
+  "slots:read"
+]
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * Remove duplicados e scopes desconhecidos, mantendo a ordem de API_KEY_SCOPES
+ */
+export function normalizeApiKeyScopes(scopes: readonly string[]): ApiKeyScope[] {
+  return API_KEY_SCOPES.filter((scope) => scopes.includes(scope))
+}
+
+/**
+ * write não implica read: uma key que só cria bookings (widget) não pode listar os bookings da company
+ */
+export function hasApiKeyScope(granted: readonly string[], required: ApiKeyScope): boolean {
+  return granted.includes(required)
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto"
+
+const DEFAULT_MAX_ENTRIES = 10000
+
+interface CachedVerification {
+  keyHash: string
+  expiresAt: number
+}
+
+/**
+ * Cache em memória das verificações argon2 bem-sucedidas, indexado pelo SHA-256 do token
+ * (o token em si não fica em memória). A entrada só vale para o mesmo key_hash, e a key continua
+ * sendo buscada no banco a cada requisição, então revogar a key tem efeito imediato.
+ */
+export class ApiKeyVerificationCache {
+  private entries = new Map<string, CachedVerification>()
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  has(apiKey: string, keyHash: string, now: number = Date.now()): boolean {
+    const fingerprint = fingerprintApiKey(apiKey)
+    const entry = this.entries.get(fingerprint)
+
+    if (!entry) {
+      return false
+    }
+
+    if (entry.expiresAt <= now || entry.keyHash !== keyHash) {
+      this.entries.delete(fingerprint)
+      return false
+    }
+
+    return true
+  }
+
+  set(apiKey: string, keyHash: string, now: number = Date.now()) {
+    if (this.ttlMs <= 0) {
+      return
+    }
+
+    const fingerprint = fingerprintApiKey(apiKey)
+    this.entries.delete(fingerprint)
+
+    // Map mantém a ordem de inserção: a primeira entrada é a mais antiga
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) {
+        this.entries.delete(oldest)
+      }
+    }
+
+    this.entries.set(fingerprint, {keyHash, expiresAt: now + this.ttlMs})
+  }
+
+  clear() {
+    this.entries.clear()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+function fingerprintApiKey(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex")
+}
+
+function cacheTtlMs(): number {
+  const seconds = parseInt(process.env.API_KEY_CACHE_TTL_SECONDS || "", 10)
+  return (Number.isNaN(seconds) ? 300 : seconds) * 1000
+}
+
+export const apiKeyVerificationCache = new ApiKeyVerificationCache(cacheTtlMs())
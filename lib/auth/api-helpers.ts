@@ -1,3 +1,4 @@
+import crypto from "crypto"
 import {NextRequest, NextResponse} from "next/server"
 import {createClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
@@ -211,6 +212,33 @@ export async function requireSuperAdminApi(request: NextRequest): Promise<AuthUs
   return requireRoleApi(request, "super_admin")
 }
 
+/**
+ * Requer o CRON_SECRET do servidor no Bearer. Usado pelos jobs da plataforma (cron único que processa todas as
+ * companies); sem CRON_SECRET configurado, o endpoint fica fechado.
+ */
+export function requireCronSecretApi(request: NextRequest): void {
+  const secret = process.env.CRON_SECRET
+  const token = getBearerToken(request)
+
+  // Compara os hashes para o tempo não depender do tamanho nem do conteúdo do token
+  const matches =
+    !!secret &&
+    !!token &&
+    crypto.timingSafeEqual(
+      crypto.createHash("sha256").update(token).digest(),
+      crypto.createHash("sha256").update(secret).digest()
+    )
+
+  if (!matches) {
+    logger.warn({
+      message: secret ? "API auth: CRON_SECRET inválido ou ausente" : "API auth: CRON_SECRET não configurado",
+      path: request.nextUrl.pathname,
+      method: request.method
+    })
+    throw new ApiAuthError("UNAUTHORIZED", "Invalid or missing cron secret")
+  }
+}
+
 /**
  * Erro customizado para autenticação de API
  * Sempre retorna JSON, nunca redirect
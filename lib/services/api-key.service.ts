@@ -1,12 +1,24 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {generateApiKey} from "@/lib/api-key/generator"
 import {hashApiKey} from "@/lib/api-key/hash"
+import {API_KEY_SCOPES, normalizeApiKeyScopes, type ApiKeyScope} from "@/lib/api-key/scopes"
+import {DEFAULT_ROTATION_GRACE_HOURS, isApiKeyExpired, rotationGraceExpiry} from "@/lib/api-key/lifecycle"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
 
 export interface CreateApiKeyParams {
   companyId: string
   label: string
+  scopes?: ApiKeyScope[] // padrão: todos os scopes
+  expiresAt?: string | null // padrão: sem expiração
+  userId?: string
+}
+
+export interface RotateApiKeyParams {
+  apiKeyId: string
+  companyId: string
+  gracePeriodHours?: number // padrão: DEFAULT_ROTATION_GRACE_HOURS
+  expiresAt?: string | null // expiração da nova key
   userId?: string
 }
 
@@ -14,9 +26,16 @@ export interface ApiKeyResult {
   id: string
   fullKey: string
   label: string
+  scopes: ApiKeyScope[]
+  expiresAt: string | null
   createdAt: string
 }
 
+export interface RotatedApiKeyResult extends ApiKeyResult {
+  previousKeyId: string
+  previousKeyExpiresAt: string
+}
+
 export class ApiKeyService {
   /**
    * Cria uma nova API Key para uma company
@@ -44,30 +63,8 @@ export class ApiKeyService {
       throw new Error("Failed to create API client")
     }
 
-    // Gerar API Key
-    const generated = generateApiKey(apiClient.id)
-    const keyHash = await hashApiKey(generated.fullKey)
-
-    // Salvar hash no banco
-    const {data: apiKey, error: keyError} = await supabase
-      .from("api_keys")
-      .insert({
-        api_client_id: apiClient.id,
-        key_hash: keyHash,
-        key_prefix: generated.prefix,
-        revoked: false
-      })
-      .select()
-      .single()
-
-    if (keyError || !apiKey) {
-      logger.error({
-        message: "Failed to create API key",
-        error: keyError,
-        apiClientId: apiClient.id
-      })
-      throw new Error("Failed to create API key")
-    }
+    const scopes = params.scopes ? normalizeApiKeyScopes(params.scopes) : [...API_KEY_SCOPES]
+    const {apiKey, fullKey} = await this.insertApiKey(apiClient.id, scopes, params.expiresAt ?? null)
 
     // Log da atividade
     await activityLogService.log({
@@ -78,7 +75,9 @@ export class ApiKeyService {
       resourceId: apiKey.id,
       metadata: {
         apiClientId: apiClient.id,
-        label: params.label
+        label: params.label,
+        scopes,
+        expiresAt: apiKey.expires_at
       }
     })
 
@@ -91,12 +90,156 @@ export class ApiKeyService {
 
     return {
       id: apiKey.id,
-      fullKey: generated.fullKey,
+      fullKey,
       label: apiClient.label,
+      scopes,
+      expiresAt: apiKey.expires_at,
       createdAt: apiKey.created_at
     }
   }
 
+  /**
+   * Emite uma key substituta (mesmo api_client e scopes) e mantém a key atual válida
+   * durante o período de carência, para que a integração troque a key sem indisponibilidade
+   */
+  async rotateApiKey(params: RotateApiKeyParams): Promise<RotatedApiKeyResult> {
+    const supabase = await createServiceClient()
+
+    const {data: current, error: currentError} = await supabase
+      .from("api_keys")
+      .select(
+        `
+        id,
+        scopes,
+        revoked,
+        expires_at,
+        replaced_by,
+        api_clients!inner (
+          id,
+          label,
+          company_id
+        )
+      `
+      )
+      .eq("id", params.apiKeyId)
+      .eq("api_clients.company_id", params.companyId)
+      .single()
+
+    if (currentError || !current) {
+      logger.warn({
+        message: "API key not found or doesn't belong to company",
+        apiKeyId: params.apiKeyId,
+        companyId: params.companyId
+      })
+      throw new Error("API key not found")
+    }
+
+    if (current.revoked || isApiKeyExpired(current.expires_at)) {
+      const err = new Error("Cannot rotate a revoked or expired API key")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    if (current.replaced_by) {
+      const err = new Error("API key was already rotated")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    // api_clients pode ser array ou objeto único dependendo do relacionamento
+    const apiClient = Array.isArray(current.api_clients) ? current.api_clients[0] : current.api_clients
+    const scopes = normalizeApiKeyScopes(current.scopes || [])
+    const gracePeriodHours = params.gracePeriodHours ?? DEFAULT_ROTATION_GRACE_HOURS
+    const previousKeyExpiresAt = rotationGraceExpiry(current.expires_at, gracePeriodHours)
+
+    const {apiKey, fullKey} = await this.insertApiKey(apiClient.id, scopes, params.expiresAt ?? null)
+
+    // replaced_by IS NULL impede que duas rotações simultâneas gerem duas substitutas
+    const {data: replaced, error: replaceError} = await supabase
+      .from("api_keys")
+      .update({
+        expires_at: previousKeyExpiresAt,
+        replaced_by: apiKey.id
+      })
+      .eq("id", current.id)
+      .is("replaced_by", null)
+      .select("id")
+
+    if (replaceError || !replaced || replaced.length === 0) {
+      await supabase.from("api_keys").delete().eq("id", apiKey.id)
+
+      if (replaceError) {
+        logger.error({
+          message: "Failed to expire rotated API key",
+          error: replaceError,
+          apiKeyId: current.id
+        })
+        throw new Error("Failed to rotate API key")
+      }
+
+      const err = new Error("API key was already rotated")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    // Log da atividade
+    await activityLogService.log({
+      companyId: params.companyId,
+      userId: params.userId || null,
+      action: "api_key_rotated",
+      resourceType: "api_key",
+      resourceId: current.id,
+      metadata: {
+        apiClientId: apiClient.id,
+        replacedBy: apiKey.id,
+        gracePeriodHours,
+        previousKeyExpiresAt
+      }
+    })
+
+    logger.info({
+      message: "API key rotated successfully",
+      companyId: params.companyId,
+      apiKeyId: current.id,
+      replacedBy: apiKey.id,
+      previousKeyExpiresAt
+    })
+
+    return {
+      id: apiKey.id,
+      fullKey,
+      label: apiClient.label,
+      scopes,
+      expiresAt: apiKey.expires_at,
+      createdAt: apiKey.created_at,
+      previousKeyId: current.id,
+      previousKeyExpiresAt
+    }
+  }
+
+  /**
+   * Registra o último uso da key. Falhas são apenas logadas: não devem afetar a requisição
+   */
+  async recordApiKeyUsage(apiKeyId: string, ip: string | null) {
+    const supabase = await createServiceClient()
+
+    const {error} = await supabase
+      .from("api_keys")
+      .update({
+        last_used_at: new Date().toISOString(),
+        last_used_ip: ip
+      })
+      .eq("id", apiKeyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to record API key usage",
+        error,
+        apiKeyId
+      })
+    }
+  }
+
   /**
    * Lista todas as API Keys de uma company (sem mostrar o valor completo)
    */
@@ -109,7 +252,13 @@ export class ApiKeyService {
         `
         id,
         key_prefix,
+        key_identifier,
         revoked,
+        scopes,
+        expires_at,
+        last_used_at,
+        last_used_ip,
+        replaced_by,
         created_at,
         revoked_at,
         api_clients!inner (
@@ -142,8 +291,15 @@ export class ApiKeyService {
         apiClientId: apiClient?.id,
         label: apiClient?.label,
         companyId: apiClient?.company_id,
-        maskedKey: `${key.key_prefix}${apiClient?.id}_****`,
+        maskedKey: key.key_identifier
+          ? `${key.key_prefix}${apiClient?.id}_${key.key_identifier}_****`
+          : `${key.key_prefix}${apiClient?.id}_****`,
         revoked: key.revoked,
+        scopes: normalizeApiKeyScopes(key.scopes || []),
+        expiresAt: key.expires_at,
+        lastUsedAt: key.last_used_at,
+        lastUsedIp: key.last_used_ip,
+        replacedBy: key.replaced_by,
         createdAt: key.created_at,
         revokedAt: key.revoked_at
       }
@@ -162,7 +318,13 @@ export class ApiKeyService {
         `
         id,
         key_prefix,
+        key_identifier,
         revoked,
+        scopes,
+        expires_at,
+        last_used_at,
+        last_used_ip,
+        replaced_by,
         created_at,
         revoked_at,
         api_clients!inner (
@@ -193,8 +355,15 @@ export class ApiKeyService {
         apiClientId: apiClient?.id,
         label: apiClient?.label,
         companyId: apiClient?.company_id,
-        maskedKey: `${key.key_prefix}${apiClient?.id}_****`,
+        maskedKey: key.key_identifier
+          ? `${key.key_prefix}${apiClient?.id}_${key.key_identifier}_****`
+          : `${key.key_prefix}${apiClient?.id}_****`,
         revoked: key.revoked,
+        scopes: normalizeApiKeyScopes(key.scopes || []),
+        expiresAt: key.expires_at,
+        lastUsedAt: key.last_used_at,
+        lastUsedIp: key.last_used_ip,
+        replacedBy: key.replaced_by,
         createdAt: key.created_at,
         revokedAt: key.revoked_at
       }
@@ -264,6 +433,41 @@ export class ApiKeyService {
       companyId
     })
   }
+
+  /**
+   * Gera a key para o api_client e salva apenas o hash
+   */
+  private async insertApiKey(apiClientId: string, scopes: ApiKeyScope[], expiresAt: string | null) {
+    const supabase = await createServiceClient()
+
+    const generated = generateApiKey(apiClientId)
+    const keyHash = await hashApiKey(generated.fullKey)
+
+    const {data: apiKey, error} = await supabase
+      .from("api_keys")
+      .insert({
+        api_client_id: apiClientId,
+        key_hash: keyHash,
+        key_prefix: generated.prefix,
+        key_identifier: generated.keyIdentifier,
+        revoked: false,
+        scopes,
+        expires_at: expiresAt
+      })
+      .select()
+      .single()
+
+    if (error || !apiKey) {
+      logger.error({
+        message: "Failed to create API key",
+        error,
+        apiClientId
+      })
+      throw new Error("Failed to create API key")
+    }
+
+    return {apiKey, fullKey: generated.fullKey}
+  }
 }
 
 export const apiKeyService = new ApiKeyService()
@@ -0,0 +1,337 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {professionalService} from "./professional.service"
+import {slotMaterializationService} from "./slot-materialization.service"
+import type {AvailabilityExceptionType} from "./availability-intervals.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
+
+export interface CreateAvailabilityExceptionParams {
+  companyId: string
+  professionalId: string
+  date: string // YYYY-MM-DD
+  type: AvailabilityExceptionType
+  startTime?: string | null // HH:mm format
+  endTime?: string | null // HH:mm format
+  reason?: string | null
+}
+
+export interface UpdateAvailabilityExceptionParams {
+  date?: string
+  type?: AvailabilityExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+}
+
+export interface ListAvailabilityExceptionsParams extends PageParams {
+  from?: string // YYYY-MM-DD
+  to?: string // YYYY-MM-DD
+}
+
+// Exceções de dia inteiro (start_time nulo) vêm depois das parciais do mesmo dia
+export const AVAILABILITY_EXCEPTION_SORT_OPTIONS: SortOptions = {
+  date: [
+    {column: "date", ascending: true},
+    {column: "start_time", ascending: true, nullable: true}
+  ],
+  createdAt: [{column: "created_at", ascending: true}]
+}
+
+export class AvailabilityExceptionService {
+  async createException(params: CreateAvailabilityExceptionParams) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(params.professionalId, params.companyId)
+
+    this.validateTimes(params.type, params.startTime ?? null, params.endTime ?? null)
+
+    const {data, error} = await supabase
+      .from("availability_exceptions")
+      .insert({
+        professional_id: params.professionalId,
+        date: params.date,
+        type: params.type,
+        start_time: params.startTime || null,
+        end_time: params.endTime || null,
+        reason: params.reason || null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to create availability exception",
+        error,
+        professionalId: params.professionalId
+      })
+      throw new Error("Failed to create availability exception")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "availability_exception_created",
+      resourceType: "availability_exception",
+      resourceId: data.id,
+      metadata: {
+        professionalId: params.professionalId,
+        date: params.date,
+        type: params.type
+      }
+    })
+
+    logger.info({
+      message: "Availability exception created successfully",
+      exceptionId: data.id,
+      professionalId: params.professionalId
+    })
+
+    // Mantém a grade materializada em sincronia com a exceção
+    await slotMaterializationService.refreshProfessionalSlots(params.professionalId)
+
+    return data
+  }
+
+  /**
+   * Lista as exceções de um profissional, opcionalmente filtrando por intervalo de datas (YYYY-MM-DD, inclusivo)
+   */
+  async getExceptions(companyId: string, professionalId: string, range?: {from?: string; to?: string}) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(professionalId, companyId)
+
+    let query = supabase.from("availability_exceptions").select("*").eq("professional_id", professionalId)
+
+    if (range?.from) {
+      query = query.gte("date", range.from)
+    }
+
+    if (range?.to) {
+      query = query.lte("date", range.to)
+    }
+
+    const {data, error} = await query.order("date", {ascending: true}).order("start_time", {ascending: true})
+
+    if (error) {
+      logger.error({
+        message: "Failed to get availability exceptions",
+        error,
+        companyId,
+        professionalId
+      })
+      throw new Error("Failed to get availability exceptions")
+    }
+
+    return data || []
+  }
+
+  /**
+   * Listagem paginada da API; getExceptions continua retornando todas do período (uso interno)
+   */
+  async listExceptions(companyId: string, professionalId: string, params: ListAvailabilityExceptionsParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(AVAILABILITY_EXCEPTION_SORT_OPTIONS, params.sort, "date")
+    const limit = pageLimit(params.limit)
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(professionalId, companyId)
+
+    let query = supabase.from("availability_exceptions").select("*").eq("professional_id", professionalId)
+
+    if (params.from) {
+      query = query.gte("date", params.from)
+    }
+
+    if (params.to) {
+      query = query.lte("date", params.to)
+    }
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get availability exceptions",
+        error,
+        companyId,
+        professionalId
+      })
+      throw new Error("Failed to get availability exceptions")
+    }
+
+    return toPage(data || [], sort, limit)
+  }
+
+  async getExceptionById(id: string, professionalId: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(professionalId, companyId)
+
+    const {data, error} = await supabase
+      .from("availability_exceptions")
+      .select("*")
+      .eq("id", id)
+      .eq("professional_id", professionalId)
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Availability exception not found",
+        error,
+        exceptionId: id,
+        professionalId,
+        companyId
+      })
+      throw new Error("Availability exception not found")
+    }
+
+    return data
+  }
+
+  async updateException(
+    id: string,
+    professionalId: string,
+    companyId: string,
+    params: UpdateAvailabilityExceptionParams
+  ) {
+    const supabase = await createServiceClient()
+
+    // Verificar se a exceção existe e pertence ao professional da company
+    const existing = await this.getExceptionById(id, professionalId, companyId)
+
+    const type = params.type ?? existing.type
+    const startTime = params.startTime !== undefined ? params.startTime : existing.start_time
+    const endTime = params.endTime !== undefined ? params.endTime : existing.end_time
+    this.validateTimes(type, startTime, endTime)
+
+    const updateData: any = {}
+    if (params.date !== undefined) updateData.date = params.date
+    if (params.type !== undefined) updateData.type = params.type
+    if (params.startTime !== undefined) updateData.start_time = params.startTime
+    if (params.endTime !== undefined) updateData.end_time = params.endTime
+    if (params.reason !== undefined) updateData.reason = params.reason
+
+    const {data, error} = await supabase
+      .from("availability_exceptions")
+      .update(updateData)
+      .eq("id", id)
+      .eq("professional_id", professionalId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to update availability exception",
+        error,
+        exceptionId: id,
+        companyId
+      })
+      throw new Error("Failed to update availability exception")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "availability_exception_updated",
+      resourceType: "availability_exception",
+      resourceId: id,
+      metadata: updateData
+    })
+
+    logger.info({
+      message: "Availability exception updated successfully",
+      exceptionId: id,
+      companyId
+    })
+
+    // Mantém a grade materializada em sincronia com a exceção
+    await slotMaterializationService.refreshProfessionalSlots(professionalId)
+
+    return data
+  }
+
+  async deleteException(id: string, professionalId: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    // Verificar se a exceção existe e pertence ao professional da company
+    await this.getExceptionById(id, professionalId, companyId)
+
+    const {error} = await supabase
+      .from("availability_exceptions")
+      .delete()
+      .eq("id", id)
+      .eq("professional_id", professionalId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to delete availability exception",
+        error,
+        exceptionId: id,
+        companyId
+      })
+      throw new Error("Failed to delete availability exception")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "availability_exception_deleted",
+      resourceType: "availability_exception",
+      resourceId: id
+    })
+
+    logger.info({
+      message: "Availability exception deleted successfully",
+      exceptionId: id,
+      companyId
+    })
+
+    // Mantém a grade materializada em sincronia com a exceção
+    await slotMaterializationService.refreshProfessionalSlots(professionalId)
+  }
+
+  /**
+   * `available` exige horário; `unavailable` aceita dia inteiro (sem horário) ou um intervalo
+   */
+  private validateTimes(type: AvailabilityExceptionType, startTime: string | null, endTime: string | null) {
+    if (!startTime && !endTime) {
+      if (type === "available") {
+        throw this.validationError("startTime and endTime are required for available exceptions")
+      }
+      return
+    }
+
+    if (!startTime || !endTime) {
+      throw this.validationError("startTime and endTime must be provided together")
+    }
+
+    if (startTime >= endTime) {
+      throw this.validationError("startTime must be before endTime")
+    }
+  }
+
+  private validationError(message: string): Error {
+    const err = new Error(message)
+    ;(err as any).status = 400
+    return err
+  }
+}
+
+export const availabilityExceptionService = new AvailabilityExceptionService()
@@ -0,0 +1,112 @@
+/**
+ * Intervalo de trabalho em minutos desde a meia-noite (horário local)
+ */
+export interface TimeInterval {
+  start: number
+  end: number
+}
+
+export type AvailabilityExceptionType = "available" | "unavailable"
+
+export interface AvailabilityExceptionLike {
+  type: AvailabilityExceptionType
+  start_time: string | null
+  end_time: string | null
+}
+
+/**
+ * Converte "HH:mm" ou "HH:mm:ss" (formato TIME do Postgres) em minutos desde a meia-noite
+ */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number)
+  return hour * 60 + minute
+}
+
+/**
+ * Dois intervalos se sobrepõem quando um começa antes do outro terminar (encostados não contam)
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end
+}
+
+/**
+ * O intervalo `range` cabe inteiro dentro de algum dos intervalos de trabalho
+ */
+export function fitsWithinIntervals(intervals: TimeInterval[], range: TimeInterval): boolean {
+  return range.end > range.start && intervals.some((i) => i.start <= range.start && range.end <= i.end)
+}
+
+/**
+ * Ordena e junta intervalos sobrepostos ou encostados
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals.filter((i) => i.end > i.start).sort((a, b) => a.start - b.start)
+  const merged: TimeInterval[] = []
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push({...interval})
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Remove o intervalo `cut` de cada intervalo da lista
+ */
+export function subtractInterval(intervals: TimeInterval[], cut: TimeInterval): TimeInterval[] {
+  const result: TimeInterval[] = []
+
+  for (const interval of intervals) {
+    if (cut.end <= interval.start || cut.start >= interval.end) {
+      result.push(interval)
+      continue
+    }
+    if (cut.start > interval.start) {
+      result.push({start: interval.start, end: cut.start})
+    }
+    if (cut.end < interval.end) {
+      result.push({start: cut.end, end: interval.end})
+    }
+  }
+
+  return result
+}
+
+/**
+ * Aplica as exceções de uma data aos intervalos semanais do dia:
+ * 1. `unavailable` sem horário fecha o dia inteiro (feriado, folga)
+ * 2. `available` adiciona horário extra (ex.: sábado excepcional)
+ * 3. `unavailable` com horário bloqueia apenas aquele intervalo
+ */
+export function applyAvailabilityExceptions(
+  weeklyIntervals: TimeInterval[],
+  exceptions: AvailabilityExceptionLike[]
+): TimeInterval[] {
+  const closedAllDay = exceptions.some((e) => e.type === "unavailable" && (!e.start_time || !e.end_time))
+
+  let intervals = closedAllDay ? [] : [...weeklyIntervals]
+
+  for (const exception of exceptions) {
+    if (exception.type === "available" && exception.start_time && exception.end_time) {
+      intervals.push({start: timeToMinutes(exception.start_time), end: timeToMinutes(exception.end_time)})
+    }
+  }
+
+  intervals = mergeIntervals(intervals)
+
+  for (const exception of exceptions) {
+    if (exception.type === "unavailable" && exception.start_time && exception.end_time) {
+      intervals = subtractInterval(intervals, {
+        start: timeToMinutes(exception.start_time),
+        end: timeToMinutes(exception.end_time)
+      })
+    }
+  }
+
+  return intervals
+}
@@ -1,8 +1,21 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
+import {slotMaterializationService} from "./slot-materialization.service"
+import {webhookService} from "./webhook.service"
+import {intervalsOverlap, timeToMinutes} from "./availability-intervals.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
 
 export interface CreateAvailabilityParams {
+  companyId: string
   professionalId: string
   dayOfWeek: number // 0-6 (Sunday-Saturday)
   startTime: string // HH:mm format
@@ -15,6 +28,19 @@ export interface UpdateAvailabilityParams {
   endTime?: string
 }
 
+export interface ListAvailabilitiesParams extends PageParams {
+  professionalId?: string
+  dayOfWeek?: number
+}
+
+export const AVAILABILITY_SORT_OPTIONS: SortOptions = {
+  dayOfWeek: [
+    {column: "day_of_week", ascending: true},
+    {column: "start_time", ascending: true}
+  ],
+  createdAt: [{column: "created_at", ascending: true}]
+}
+
 export class AvailabilityService {
   async createAvailability(params: CreateAvailabilityParams) {
     const supabase = await createServiceClient()
@@ -24,6 +50,14 @@ export class AvailabilityService {
       throw new Error("dayOfWeek must be between 0 and 6")
     }
 
+    // Um profissional pode ter vários intervalos no mesmo dia, desde que não se sobreponham
+    await this.assertNoOverlap({
+      professionalId: params.professionalId,
+      dayOfWeek: params.dayOfWeek,
+      startTime: params.startTime,
+      endTime: params.endTime
+    })
+
     const {data, error} = await supabase
       .from("availabilities")
       .insert({
@@ -41,10 +75,11 @@ export class AvailabilityService {
         error,
         professionalId: params.professionalId
       })
-      throw new Error("Failed to create availability")
+      throw this.toWriteError(error, "Failed to create availability")
     }
 
     await activityLogService.log({
+      companyId: params.companyId,
       action: "availability_created",
       resourceType: "availability",
       resourceId: data.id,
@@ -60,59 +95,84 @@ export class AvailabilityService {
       professionalId: params.professionalId
     })
 
+    // Mantém a grade materializada em sincronia com a nova disponibilidade
+    await slotMaterializationService.refreshProfessionalSlots(params.professionalId)
+
+    await webhookService.emit(params.companyId, "availability.created", {availability: data})
+
     return data
   }
 
   async getAllAvailabilities(companyId: string, professionalId?: string) {
     const supabase = await createServiceClient()
 
-    // Primeiro, buscar os professionals da company
-    const {data: professionals, error: professionalsError} = await supabase
-      .from("professionals")
-      .select("id")
-      .eq("company_id", companyId)
+    const professionalIds = await this.getCompanyProfessionalIds(companyId, professionalId)
+    if (professionalIds.length === 0) {
+      return []
+    }
 
-    if (professionalsError) {
+    // Buscar availabilities dos professionals da company
+    let query = supabase
+      .from("availabilities")
+      .select("*")
+      .in("professional_id", professionalIds)
+
+    const {data, error} = await query.order("day_of_week", {ascending: true}).order("start_time", {ascending: true})
+
+    if (error) {
       logger.error({
-        message: "Failed to get professionals",
-        error: professionalsError,
-        companyId
+        message: "Failed to get availabilities",
+        error,
+        companyId,
+        professionalId
       })
       throw new Error("Failed to get availabilities")
     }
 
-    if (!professionals || professionals.length === 0) {
-      return []
+    return data || []
+  }
+
+  /**
+   * Listagem paginada da API; getAllAvailabilities continua retornando todas (uso interno)
+   */
+  async listAvailabilities(companyId: string, params: ListAvailabilitiesParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(AVAILABILITY_SORT_OPTIONS, params.sort, "dayOfWeek")
+    const limit = pageLimit(params.limit)
+
+    const professionalIds = await this.getCompanyProfessionalIds(companyId, params.professionalId)
+    if (professionalIds.length === 0) {
+      return toPage([], sort, limit)
     }
 
-    const professionalIds = professionals.map((p) => p.id)
+    let query = supabase.from("availabilities").select("*").in("professional_id", professionalIds)
 
-    // Se professionalId foi especificado, verificar se pertence à company
-    if (professionalId) {
-      if (!professionalIds.includes(professionalId)) {
-        throw new Error("Professional not found or doesn't belong to your company")
-      }
+    if (params.dayOfWeek !== undefined) {
+      query = query.eq("day_of_week", params.dayOfWeek)
     }
 
-    // Buscar availabilities dos professionals da company
-    let query = supabase
-      .from("availabilities")
-      .select("*")
-      .in("professional_id", professionalId ? [professionalId] : professionalIds)
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
 
-    const {data, error} = await query.order("day_of_week", {ascending: true}).order("start_time", {ascending: true})
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
 
     if (error) {
       logger.error({
         message: "Failed to get availabilities",
         error,
         companyId,
-        professionalId
+        params
       })
       throw new Error("Failed to get availabilities")
     }
 
-    return data || []
+    return toPage(data || [], sort, limit)
   }
 
   async getAvailabilityById(id: string, companyId: string) {
@@ -161,13 +221,21 @@ export class AvailabilityService {
     const supabase = await createServiceClient()
 
     // Verificar se a availability existe e pertence à company
-    await this.getAvailabilityById(id, companyId)
+    const existing = await this.getAvailabilityById(id, companyId)
 
     // Validar day_of_week se fornecido
     if (params.dayOfWeek !== undefined && (params.dayOfWeek < 0 || params.dayOfWeek > 6)) {
       throw new Error("dayOfWeek must be between 0 and 6")
     }
 
+    await this.assertNoOverlap({
+      professionalId: existing.professional_id,
+      dayOfWeek: params.dayOfWeek ?? existing.day_of_week,
+      startTime: params.startTime ?? existing.start_time,
+      endTime: params.endTime ?? existing.end_time,
+      excludeId: id
+    })
+
     const updateData: any = {}
     if (params.dayOfWeek !== undefined) updateData.day_of_week = params.dayOfWeek
     if (params.startTime !== undefined) updateData.start_time = params.startTime
@@ -182,7 +250,7 @@ export class AvailabilityService {
         availabilityId: id,
         companyId
       })
-      throw new Error("Failed to update availability")
+      throw this.toWriteError(error, "Failed to update availability")
     }
 
     await activityLogService.log({
@@ -198,6 +266,11 @@ export class AvailabilityService {
       companyId
     })
 
+    // Mantém a grade materializada em sincronia com a nova disponibilidade
+    await slotMaterializationService.refreshProfessionalSlots(existing.professional_id)
+
+    await webhookService.emit(companyId, "availability.updated", {availability: data})
+
     return data
   }
 
@@ -205,7 +278,7 @@ export class AvailabilityService {
     const supabase = await createServiceClient()
 
     // Verificar se a availability existe e pertence à company
-    await this.getAvailabilityById(id, companyId)
+    const existing = await this.getAvailabilityById(id, companyId)
 
     const {error} = await supabase.from("availabilities").delete().eq("id", id)
 
@@ -230,6 +303,104 @@ export class AvailabilityService {
       availabilityId: id,
       companyId
     })
+
+    // Mantém a grade materializada em sincronia com a nova disponibilidade
+    await slotMaterializationService.refreshProfessionalSlots(existing.professional_id)
+
+    await webhookService.emit(companyId, "availability.deleted", {availability: existing})
+  }
+
+  /**
+   * Valida o intervalo e garante que não se sobrepõe a outro intervalo do mesmo dia da semana
+   */
+  private async assertNoOverlap(params: {
+    professionalId: string
+    dayOfWeek: number
+    startTime: string
+    endTime: string
+    excludeId?: string
+  }) {
+    const candidate = {start: timeToMinutes(params.startTime), end: timeToMinutes(params.endTime)}
+
+    if (candidate.start >= candidate.end) {
+      const err = new Error("startTime must be before endTime")
+      ;(err as any).status = 400
+      throw err
+    }
+
+    const supabase = await createServiceClient()
+
+    const {data: sameDay, error} = await supabase
+      .from("availabilities")
+      .select("id, start_time, end_time")
+      .eq("professional_id", params.professionalId)
+      .eq("day_of_week", params.dayOfWeek)
+
+    if (error) {
+      logger.error({
+        message: "Failed to check overlapping availabilities",
+        error,
+        professionalId: params.professionalId
+      })
+      throw new Error("Failed to check overlapping availabilities")
+    }
+
+    const overlapping = (sameDay || []).find(
+      (av) =>
+        av.id !== params.excludeId &&
+        intervalsOverlap(candidate, {start: timeToMinutes(av.start_time), end: timeToMinutes(av.end_time)})
+    )
+
+    if (overlapping) {
+      const err = new Error(
+        `Availability overlaps with existing interval ${overlapping.start_time.slice(0, 5)}-${overlapping.end_time.slice(0, 5)}`
+      )
+      ;(err as any).status = 409
+      throw err
+    }
+  }
+
+  private toWriteError(error: {code?: string} | null, fallback: string): Error {
+    // Violação da exclusion constraint availabilities_no_overlap (gravação concorrente que passou por assertNoOverlap)
+    if (error?.code === "23P01") {
+      const err = new Error("Availability overlaps with an existing interval")
+      ;(err as any).status = 409
+      return err
+    }
+
+    return new Error(fallback)
+  }
+
+  /**
+   * IDs dos professionals da company, ou só o professionalId informado (validando que pertence à company)
+   */
+  private async getCompanyProfessionalIds(companyId: string, professionalId?: string): Promise<string[]> {
+    const supabase = await createServiceClient()
+
+    const {data: professionals, error: professionalsError} = await supabase
+      .from("professionals")
+      .select("id")
+      .eq("company_id", companyId)
+
+    if (professionalsError) {
+      logger.error({
+        message: "Failed to get professionals",
+        error: professionalsError,
+        companyId
+      })
+      throw new Error("Failed to get availabilities")
+    }
+
+    const professionalIds = (professionals || []).map((p) => p.id)
+
+    if (professionalId) {
+      if (!professionalIds.includes(professionalId)) {
+        throw new Error("Professional not found or doesn't belong to your company")
+      }
+      return [professionalId]
+    }
+
+    return professionalIds
   }
 }
 
@@ -0,0 +1,50 @@
+import type { OccupiedRange } from './slot-windows.util'
+
+// Tempo padrão de uma hold (checkout) e o máximo aceito em POST /holds
+export const DEFAULT_HOLD_TTL_MINUTES = 10
+export const MAX_HOLD_TTL_MINUTES = 60
+
+export interface BookingHoldRange {
+  service_id: string
+  start_time: string
+  end_time: string
+  blocked_start_time: string
+  blocked_end_time: string
+  session_key: string | null
+  expires_at: string
+}
+
+/**
+ * Holds vencidas não bloqueiam nada, mesmo antes de serem apagadas
+ */
+export function isHoldActive(hold: { expires_at: string }, now: string): boolean {
+  return Date.parse(hold.expires_at) > Date.parse(now)
+}
+
+/**
+ * Faixas seguradas pelas holds ativas (com os buffers), tratadas como faixas ocupadas da agenda
+ */
+export function heldRanges(holds: BookingHoldRange[], now: string): OccupiedRange[] {
+  return holds
+    .filter((hold) => isHoldActive(hold, now))
+    .map((hold) => ({ start_time: hold.blocked_start_time, end_time: hold.blocked_end_time }))
+}
+
+/**
+ * Holds ativas das sessões de um serviço em grupo, no formato dos bookings contados por groupSessions:
+ * cada hold ocupa uma vaga da sessão até vencer
+ */
+export function heldSessionBookings(
+  holds: BookingHoldRange[],
+  serviceId: string,
+  now: string
+): Array<{ session_key: string; start_time: string; end_time: string; slot_id: null }> {
+  return holds
+    .filter((hold) => hold.service_id === serviceId && hold.session_key && isHoldActive(hold, now))
+    .map((hold) => ({
+      session_key: hold.session_key as string,
+      start_time: hold.start_time,
+      end_time: hold.end_time,
+      slot_id: null
+    }))
+}
@@ -0,0 +1,82 @@
+/**
+ * Regras de agendamento da company, com override opcional por serviço (NULL no serviço usa o da company)
+ */
+export interface BookingPolicy {
+  minNoticeMinutes: number // antecedência mínima para reservar
+  maxAdvanceDays: number | null // até quantos dias à frente é possível reservar (null = sem limite)
+  cancellationCutoffMinutes: number // até quantos minutos antes do início é possível cancelar/remarcar
+}
+
+export interface BookingPolicyColumns {
+  min_notice_minutes?: number | null
+  max_advance_days?: number | null
+  cancellation_cutoff_minutes?: number | null
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  minNoticeMinutes: 0,
+  maxAdvanceDays: null,
+  cancellationCutoffMinutes: 0
+}
+
+export function resolveBookingPolicy(
+  company?: BookingPolicyColumns | null,
+  service?: BookingPolicyColumns | null
+): BookingPolicy {
+  return {
+    minNoticeMinutes:
+      service?.min_notice_minutes ?? company?.min_notice_minutes ?? DEFAULT_BOOKING_POLICY.minNoticeMinutes,
+    maxAdvanceDays: service?.max_advance_days ?? company?.max_advance_days ?? DEFAULT_BOOKING_POLICY.maxAdvanceDays,
+    cancellationCutoffMinutes:
+      service?.cancellation_cutoff_minutes ??
+      company?.cancellation_cutoff_minutes ??
+      DEFAULT_BOOKING_POLICY.cancellationCutoffMinutes
+  }
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Último início reservável a partir de `now` (ISO), ou null quando não há limite
+ */
+export function latestBookableStart(policy: BookingPolicy, now: string): string | null {
+  if (policy.maxAdvanceDays === null) return null
+  return new Date(Date.parse(now) + policy.maxAdvanceDays * DAY_MS).toISOString()
+}
+
+/**
+ * Motivo pelo qual um booking não pode começar em `start`, ou null se a política permite
+ */
+export function bookingTimeViolation(policy: BookingPolicy, start: string, now: string): string | null {
+  const startMs = Date.parse(start)
+  const nowMs = Date.parse(now)
+
+  if (startMs < nowMs + policy.minNoticeMinutes * MINUTE_MS) {
+    return `Bookings require at least ${policy.minNoticeMinutes} minutes notice`
+  }
+
+  if (policy.maxAdvanceDays !== null && startMs > nowMs + policy.maxAdvanceDays * DAY_MS) {
+    return `Bookings can be made at most ${policy.maxAdvanceDays} days in advance`
+  }
+
+  return null
+}
+
+/**
+ * Motivo pelo qual um booking que começa em `start` não pode mais ser cancelado/remarcado, ou null
+ */
+export function cancellationCutoffViolation(
+  policy: BookingPolicy,
+  start: string,
+  now: string,
+  action: 'cancelled' | 'rescheduled'
+): string | null {
+  if (policy.cancellationCutoffMinutes <= 0) return null
+
+  if (Date.parse(start) - Date.parse(now) < policy.cancellationCutoffMinutes * MINUTE_MS) {
+    return `Bookings can no longer be ${action} less than ${policy.cancellationCutoffMinutes} minutes before the start`
+  }
+
+  return null
+}
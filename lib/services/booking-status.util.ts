@@ -0,0 +1,49 @@
+export const BOOKING_STATUSES = ["pending", "confirmed", "checked_in", "completed", "cancelled", "no_show"] as const
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number]
+
+/**
+ * Transições permitidas no ciclo de vida de um booking.
+ * Estados finais (completed, cancelled, no_show) não aceitam novas transições.
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["checked_in", "cancelled", "no_show"],
+  checked_in: ["completed"],
+  completed: [],
+  cancelled: [],
+  no_show: []
+}
+
+/**
+ * Status em que o booking ocupa a agenda (mesmo conjunto da constraint bookings_no_overlap)
+ */
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "checked_in"]
+
+/**
+ * Status em que o booking ainda ocupa o slot e pode ser remarcado
+ */
+export const RESCHEDULABLE_STATUSES: BookingStatus[] = ["pending", "confirmed"]
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === "string" && (BOOKING_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: string, to: string): boolean {
+  if (!isBookingStatus(from) || !isBookingStatus(to)) {
+    return false
+  }
+
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Lança erro 409 se a transição não for permitida
+ */
+export function assertTransition(from: string, to: string): void {
+  if (!canTransition(from, to)) {
+    const err = new Error(`Invalid status transition from '${from}' to '${to}'`)
+    ;(err as any).status = 409
+    throw err
+  }
+}
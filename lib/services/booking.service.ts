@@ -1,47 +1,217 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
+import {professionalServicesService} from "./professional-services.service"
+import {customerService} from "./customer.service"
+import {companyService} from "./company.service"
+import {slotService} from "./slot.service"
+import {webhookService} from "./webhook.service"
+import {waitlistService} from "./waitlist.service"
+import {
+  ACTIVE_BOOKING_STATUSES,
+  assertTransition,
+  RESCHEDULABLE_STATUSES,
+  type BookingStatus
+} from "./booking-status.util"
+import {groupSessionKey} from "./group-session.util"
+import {DEFAULT_HOLD_TTL_MINUTES} from "./booking-hold.util"
+import {bookingTimeViolation, cancellationCutoffViolation, type BookingPolicy} from "./booking-policy.util"
+import {
+  expandRecurrence,
+  formatRRule,
+  overlappingRanges,
+  shiftOccurrences,
+  type RecurrenceRule,
+  type TimeRange
+} from "./recurrence.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
+import {DateTime} from "luxon"
+import type {Database} from "@/types/database"
+
+type BookingRow = Database["public"]["Tables"]["bookings"]["Row"]
 
 export interface CreateBookingParams {
   companyId: string
   professionalId: string
   serviceId: string
-  slotId: string
-  customerName: string
+  slotId?: string | null // Alternativa legada a startTime: o início do slot define a faixa
+  startTime?: string | null // ISO; a faixa reservada é [startTime, startTime + duração do serviço)
+  customerId?: string | null // Sem customerId, o cliente é encontrado ou criado pelo email/telefone
+  customerName?: string // Obrigatório sem customerId; com customerId, o padrão é o nome do cliente
   customerEmail?: string | null
   customerPhone?: string | null
+  holdId?: string | null // Converte a hold (POST /holds) no booking; o horário vem da hold
+}
+
+type BookingRangeParams = Pick<CreateBookingParams, "companyId" | "professionalId" | "serviceId" | "slotId" | "startTime">
+
+export interface CreateBookingHoldParams {
+  companyId: string
+  professionalId: string
+  serviceId: string
+  startTime: string // ISO; a hold cobre [startTime, startTime + duração do serviço), com os buffers
+  ttlMinutes?: number // padrão DEFAULT_HOLD_TTL_MINUTES
+}
+
+export interface ListBookingsParams extends PageParams {
+  professionalId?: string
+  serviceId?: string
+  customerId?: string
+  seriesId?: string
+  status?: BookingStatus[]
+  from?: string // ISO; bookings com start_time >= from
+  to?: string // ISO; bookings com start_time < to
+}
+
+export const BOOKING_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}],
+  startTime: [{column: "start_time", ascending: true}]
 }
 
 export interface UpdateBookingParams {
   customerName?: string
   customerEmail?: string | null
   customerPhone?: string | null
-  status?: string
+  status?: BookingStatus
+  reason?: string | null
+  actor?: BookingActor
+}
+
+/**
+ * Quem realizou a mudança no booking (registrado no histórico de status)
+ */
+export interface BookingActor {
+  type: "api_key" | "user" | "system"
+  id?: string | null
+}
+
+export interface ChangeBookingStatusParams {
+  status: BookingStatus
+  reason?: string | null
+  actor?: BookingActor
+}
+
+export interface RescheduleBookingParams {
+  slotId: string
+  reason?: string | null
+  actor?: BookingActor
+}
+
+export interface CreateBookingSeriesParams {
+  companyId: string
+  professionalId: string
+  serviceId: string
+  startTime: string // ISO; início da primeira ocorrência, repetida no mesmo horário local do profissional
+  recurrence: RecurrenceRule
+  customerId?: string | null
+  customerName?: string
+  customerEmail?: string | null
+  customerPhone?: string | null
+}
+
+/**
+ * Ocorrências afetadas: a partir de fromBookingId ("esta e as seguintes") ou, sem ele, todas as futuras
+ */
+export interface ChangeBookingSeriesParams {
+  fromBookingId?: string | null
+  reason?: string | null
+  actor?: BookingActor
+}
+
+export interface RescheduleBookingSeriesParams extends ChangeBookingSeriesParams {
+  startTime: string // ISO; novo início da primeira ocorrência afetada, as demais mudam na mesma medida
+}
+
+/**
+ * Ocorrência de uma série que não pode ser reservada no horário pedido
+ */
+export interface BookingSeriesConflict {
+  index: number
+  startTime: string
+  endTime: string
+  reason: string
+}
+
+interface SeriesOccurrence extends TimeRange {
+  blockedStart: string
+  blockedEnd: string
+}
+
+interface SeriesConflictCheck {
+  companyId: string
+  professionalId: string
+  serviceId: string
+  capacity: number
+  occurrences: SeriesOccurrence[]
+  policy: BookingPolicy
+  moving?: any[] // ocorrências sendo remarcadas (bookings atuais)
 }
 
 export class BookingService {
   async createBooking(params: CreateBookingParams) {
     const supabase = await createServiceClient()
 
-    // Usar a função RPC create_booking_safely para garantir atomicidade
-    const {data: bookingId, error} = await supabase.rpc("create_booking_safely", {
-      p_company_id: params.companyId,
-      p_professional_id: params.professionalId,
-      p_service_id: params.serviceId,
-      p_slot_id: params.slotId,
-      p_customer_name: params.customerName,
-      p_customer_email: params.customerEmail || null,
-      p_customer_phone: params.customerPhone || null
-    })
+    // Com holdId, o horário vem da hold (POST /holds) e a reserva converte a hold na mesma transação
+    const hold = params.holdId ? await this.getActiveHold(params.holdId, params.companyId) : null
+    if (
+      hold &&
+      (hold.professional_id !== params.professionalId ||
+        hold.service_id !== params.serviceId ||
+        (params.startTime && Date.parse(params.startTime) !== Date.parse(hold.start_time)))
+    ) {
+      const err = new Error("Hold does not match the requested professional, service or startTime")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    const {start, end, bufferBeforeMinutes, bufferAfterMinutes} = await this.resolveBookingRange(
+      hold ? {...params, slotId: null, startTime: hold.start_time} : params
+    )
+
+    const customer = await this.resolveCustomer(params)
+
+    // Reserva todos os slots cobertos pela faixa e cria o booking na mesma transação
+    const {data: bookingId, error} = hold
+      ? await supabase.rpc("create_booking_from_hold", {
+          p_hold_id: hold.id,
+          p_company_id: params.companyId,
+          p_customer_name: customer.name,
+          p_customer_email: customer.email,
+          p_customer_phone: customer.phone,
+          p_customer_id: customer.id
+        })
+      : await supabase.rpc("create_booking_by_time", {
+          p_company_id: params.companyId,
+          p_professional_id: params.professionalId,
+          p_service_id: params.serviceId,
+          p_start_time: start,
+          p_end_time: end,
+          p_customer_name: customer.name,
+          p_customer_email: customer.email,
+          p_customer_phone: customer.phone,
+          p_slot_id: params.slotId || null,
+          p_customer_id: customer.id,
+          p_buffer_before_minutes: bufferBeforeMinutes,
+          p_buffer_after_minutes: bufferAfterMinutes
+        })
 
     if (error || !bookingId) {
       logger.error({
         message: "Failed to create booking",
         error,
         companyId: params.companyId,
-        slotId: params.slotId
+        professionalId: params.professionalId,
+        startTime: start
       })
-      throw new Error(error?.message || "Failed to create booking")
+      throw this.toRpcError(error?.message, "Failed to create booking")
     }
 
     // Buscar o booking criado
@@ -64,8 +234,12 @@ export class BookingService {
       metadata: {
         professionalId: params.professionalId,
         serviceId: params.serviceId,
-        slotId: params.slotId,
-        customerName: params.customerName
+        slotId: booking.slot_id,
+        startTime: start,
+        endTime: end,
+        customerId: customer.id,
+        customerName: customer.name,
+        holdId: hold ? hold.id : null
       }
     })
 
@@ -75,35 +249,200 @@ export class BookingService {
       companyId: params.companyId
     })
 
+    await webhookService.emit(params.companyId, "booking.created", {booking})
+
     return booking
   }
 
-  async getAllBookings(companyId: string, filters?: {professionalId?: string; status?: string}) {
+  /**
+   * Segura a janela por alguns minutos durante o checkout. A hold é validada como um booking e esconde a janela
+   * de /slots até vencer; POST /bookings com holdId a converte em booking.
+   */
+  async createHold(params: CreateBookingHoldParams) {
+    const supabase = await createServiceClient()
+
+    const {start, end, bufferBeforeMinutes, bufferAfterMinutes} = await this.resolveBookingRange(params)
+
+    const {data: holdId, error} = await supabase.rpc("create_booking_hold", {
+      p_company_id: params.companyId,
+      p_professional_id: params.professionalId,
+      p_service_id: params.serviceId,
+      p_start_time: start,
+      p_end_time: end,
+      p_ttl_minutes: params.ttlMinutes || DEFAULT_HOLD_TTL_MINUTES,
+      p_buffer_before_minutes: bufferBeforeMinutes,
+      p_buffer_after_minutes: bufferAfterMinutes
+    })
+
+    if (error || !holdId) {
+      logger.error({
+        message: "Failed to create hold",
+        error,
+        companyId: params.companyId,
+        professionalId: params.professionalId,
+        startTime: start
+      })
+      throw this.toRpcError(error?.message, "Failed to create hold")
+    }
+
+    const hold = await this.getHold(holdId, params.companyId)
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "booking_hold_created",
+      resourceType: "booking_hold",
+      resourceId: hold.id,
+      metadata: {
+        professionalId: params.professionalId,
+        serviceId: params.serviceId,
+        startTime: start,
+        endTime: end,
+        expiresAt: hold.expires_at
+      }
+    })
+
+    logger.info({
+      message: "Hold created successfully",
+      holdId: hold.id,
+      companyId: params.companyId,
+      expiresAt: hold.expires_at
+    })
+
+    return hold
+  }
+
+  async getHold(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("booking_holds")
+      .select("*")
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Hold not found",
+        error,
+        holdId: id,
+        companyId
+      })
+      throw new Error("Hold not found")
+    }
+
+    return data
+  }
+
+  /**
+   * Libera a hold antes do vencimento (ex.: cliente desistiu do checkout)
+   */
+  async releaseHold(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const hold = await this.getHold(id, companyId)
+
+    const {error} = await supabase.from("booking_holds").delete().eq("id", id).eq("company_id", companyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to release hold",
+        error,
+        holdId: id,
+        companyId
+      })
+      throw new Error("Failed to release hold")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "booking_hold_released",
+      resourceType: "booking_hold",
+      resourceId: id,
+      metadata: {
+        professionalId: hold.professional_id,
+        startTime: hold.start_time
+      }
+    })
+
+    logger.info({
+      message: "Hold released successfully",
+      holdId: id,
+      companyId
+    })
+  }
+
+  async listBookings(companyId: string, params: ListBookingsParams = {}) {
     const supabase = await createServiceClient()
 
+    const sort = resolveSort(BOOKING_SORT_OPTIONS, params.sort, "-createdAt")
+    const limit = pageLimit(params.limit)
+
     let query = supabase.from("bookings").select("*").eq("company_id", companyId)
 
-    if (filters?.professionalId) {
-      query = query.eq("professional_id", filters.professionalId)
+    if (params.professionalId) {
+      query = query.eq("professional_id", params.professionalId)
     }
 
-    if (filters?.status) {
-      query = query.eq("status", filters.status)
+    if (params.serviceId) {
+      query = query.eq("service_id", params.serviceId)
     }
 
-    const {data, error} = await query.order("created_at", {ascending: false})
+    if (params.customerId) {
+      query = query.eq("customer_id", params.customerId)
+    }
+
+    if (params.seriesId) {
+      query = query.eq("series_id", params.seriesId)
+    }
+
+    if (params.status && params.status.length > 0) {
+      query = query.in("status", params.status)
+    }
+
+    if (params.from) {
+      query = query.gte("start_time", params.from)
+    }
+
+    if (params.to) {
+      query = query.lt("start_time", params.to)
+    }
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
 
     if (error) {
       logger.error({
         message: "Failed to get bookings",
         error,
         companyId,
-        filters
+        params
       })
       throw new Error("Failed to get bookings")
     }
 
-    return data || []
+    return toPage(data || [], sort, limit)
+  }
+
+  /**
+   * Histórico de bookings do cliente, por padrão do mais recente para o mais antigo
+   */
+  async getCustomerBookings(customerId: string, companyId: string, params: ListBookingsParams = {}) {
+    // Verificar se o customer existe e pertence à company
+    await customerService.getCustomerById(customerId, companyId)
+
+    return await this.listBookings(companyId, {
+      ...params,
+      sort: params.sort || "-startTime",
+      customerId
+    })
   }
 
   async getBookingById(id: string, companyId: string) {
@@ -128,13 +467,27 @@ export class BookingService {
     const supabase = await createServiceClient()
 
     // Verificar se o booking existe e pertence à company
-    await this.getBookingById(id, companyId)
+    const booking = await this.getBookingById(id, companyId)
+
+    // Mudanças de status passam pela máquina de estados
+    if (params.status !== undefined && params.status !== booking.status) {
+      await this.changeStatus(id, companyId, {
+        status: params.status,
+        reason: params.reason,
+        actor: params.actor
+      })
+    }
 
     const updateData: any = {}
     if (params.customerName !== undefined) updateData.customer_name = params.customerName
     if (params.customerEmail !== undefined) updateData.customer_email = params.customerEmail
     if (params.customerPhone !== undefined) updateData.customer_phone = params.customerPhone
-    if (params.status !== undefined) updateData.status = params.status
+
+    if (Object.keys(updateData).length === 0) {
+      return await this.getBookingById(id, companyId)
+    }
+
+    updateData.updated_at = new Date().toISOString()
 
     const {data, error} = await supabase
       .from("bookings")
@@ -168,51 +521,906 @@ export class BookingService {
       companyId
     })
 
+    await webhookService.emit(companyId, "booking.updated", {booking: data})
+
     return data
   }
 
-  async deleteBooking(id: string, companyId: string) {
+  /**
+   * Muda o status de um booking validando a transição e registrando quem fez e por quê
+   */
+  async changeStatus(id: string, companyId: string, params: ChangeBookingStatusParams) {
     const supabase = await createServiceClient()
 
-    // Verificar se o booking existe e pertence à company
     const booking = await this.getBookingById(id, companyId)
+    assertTransition(booking.status, params.status)
+
+    const actor = params.actor || {type: "system"}
 
-    // Marcar o slot como disponível novamente antes de deletar
-    const {error: slotError} = await supabase.from("slots").update({is_available: true}).eq("id", booking.slot_id)
+    if (params.status === "cancelled") {
+      await this.assertBeforeCutoff(booking, actor, "cancelled")
+    }
 
-    if (slotError) {
-      logger.warn({
-        message: "Failed to mark slot as available",
-        error: slotError,
-        slotId: booking.slot_id
+    const {error} = await supabase.rpc("change_booking_status", {
+      p_booking_id: id,
+      p_company_id: companyId,
+      p_from_status: booking.status,
+      p_to_status: params.status,
+      p_reason: params.reason || null,
+      p_actor_type: actor.type,
+      p_actor_id: actor.id || null
+    })
+
+    if (error) {
+      logger.error({
+        message: "Failed to change booking status",
+        error,
+        bookingId: id,
+        companyId,
+        fromStatus: booking.status,
+        toStatus: params.status
       })
-      // Não falhar a deleção se não conseguir marcar o slot como disponível
+      throw this.toRpcError(error.message, "Failed to change booking status")
     }
 
-    const {error} = await supabase.from("bookings").delete().eq("id", id).eq("company_id", companyId)
+    await activityLogService.log({
+      companyId,
+      userId: actor.type === "user" ? actor.id : null,
+      action: params.status === "cancelled" ? "booking_cancelled" : "booking_status_changed",
+      resourceType: "booking",
+      resourceId: id,
+      metadata: {
+        fromStatus: booking.status,
+        toStatus: params.status,
+        reason: params.reason || null,
+        actorType: actor.type,
+        actorId: actor.id || null
+      }
+    })
+
+    logger.info({
+      message: "Booking status changed successfully",
+      bookingId: id,
+      companyId,
+      fromStatus: booking.status,
+      toStatus: params.status
+    })
+
+    const updated = await this.getBookingById(id, companyId)
+
+    await webhookService.emit(
+      companyId,
+      params.status === "cancelled" ? "booking.cancelled" : "booking.status_changed",
+      {booking: updated, fromStatus: booking.status, toStatus: params.status, reason: params.reason || null}
+    )
+
+    // O horário liberado é oferecido à lista de espera
+    if (params.status === "cancelled") {
+      await waitlistService.offerFreedWindow(companyId, booking)
+    }
+
+    return updated
+  }
+
+  async cancelBooking(id: string, companyId: string, params: {reason?: string | null; actor?: BookingActor} = {}) {
+    return await this.changeStatus(id, companyId, {
+      status: "cancelled",
+      reason: params.reason,
+      actor: params.actor
+    })
+  }
+
+  /**
+   * Move o booking para outro slot do mesmo profissional.
+   * O slot antigo é liberado e o novo reservado na mesma transação.
+   */
+  async rescheduleBooking(id: string, companyId: string, params: RescheduleBookingParams) {
+    const supabase = await createServiceClient()
+
+    const booking = await this.getBookingById(id, companyId)
+
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      const err = new Error(`Booking cannot be rescheduled in status '${booking.status}'`)
+      ;(err as any).status = 409
+      throw err
+    }
+
+    const actor = params.actor || {type: "system"}
+
+    await this.assertBeforeCutoff(booking, actor, "rescheduled")
+
+    // O novo horário segue as mesmas regras de um booking novo: início no futuro, antecedência/janela
+    // da política e a faixa com os buffers dentro da disponibilidade do profissional
+    const {data: newSlot} = await supabase
+      .from("slots")
+      .select("start_time")
+      .eq("id", params.slotId)
+      .eq("professional_id", booking.professional_id)
+      .maybeSingle()
+
+    if (newSlot) {
+      const newStart = Date.parse(newSlot.start_time)
+      if (newStart <= Date.now()) {
+        throw this.validationError("startTime must be in the future")
+      }
+
+      const policy = await this.getPolicyForBooking(booking)
+      const policyViolation = bookingTimeViolation(policy, newSlot.start_time, new Date().toISOString())
+      if (policyViolation) {
+        throw this.policyError(policyViolation)
+      }
+
+      // Mantém a duração e os buffers gravados no booking, como o reschedule_booking_safely
+      const start = Date.parse(booking.start_time)
+      const withinAvailability = await slotService.isWithinAvailability({
+        professionalId: booking.professional_id,
+        companyId,
+        start: new Date(newStart - (start - Date.parse(booking.blocked_start_time))).toISOString(),
+        end: new Date(newStart + (Date.parse(booking.blocked_end_time) - start)).toISOString()
+      })
+
+      if (!withinAvailability) {
+        const err = new Error("Requested time is outside the professional's availability")
+        ;(err as any).status = 409
+        throw err
+      }
+    }
+
+    const {error} = await supabase.rpc("reschedule_booking_safely", {
+      p_booking_id: id,
+      p_company_id: companyId,
+      p_new_slot_id: params.slotId,
+      p_reason: params.reason || null,
+      p_actor_type: actor.type,
+      p_actor_id: actor.id || null
+    })
 
     if (error) {
       logger.error({
-        message: "Failed to delete booking",
+        message: "Failed to reschedule booking",
         error,
         bookingId: id,
-        companyId
+        companyId,
+        slotId: params.slotId
       })
-      throw new Error("Failed to delete booking")
+      throw this.toRpcError(error.message, "Failed to reschedule booking")
     }
 
     await activityLogService.log({
       companyId,
-      action: "booking_deleted",
+      userId: actor.type === "user" ? actor.id : null,
+      action: "booking_rescheduled",
       resourceType: "booking",
-      resourceId: id
+      resourceId: id,
+      metadata: {
+        fromSlotId: booking.slot_id,
+        toSlotId: params.slotId,
+        reason: params.reason || null,
+        actorType: actor.type,
+        actorId: actor.id || null
+      }
     })
 
     logger.info({
-      message: "Booking deleted successfully",
+      message: "Booking rescheduled successfully",
       bookingId: id,
-      companyId
+      companyId,
+      slotId: params.slotId
+    })
+
+    const updated = await this.getBookingById(id, companyId)
+
+    await webhookService.emit(companyId, "booking.rescheduled", {
+      booking: updated,
+      fromSlotId: booking.slot_id,
+      fromStartTime: booking.start_time,
+      fromEndTime: booking.end_time
+    })
+
+    return updated
+  }
+
+  /**
+   * Cria uma série de bookings recorrentes. Todas as ocorrências são validadas antes (política, disponibilidade
+   * e agenda); se alguma não puder ser reservada, nada é criado e o erro 409 traz a lista em `conflicts`.
+   */
+  async createBookingSeries(params: CreateBookingSeriesParams) {
+    const supabase = await createServiceClient()
+
+    const service = await professionalServicesService.getOfferedService(
+      params.companyId,
+      params.professionalId,
+      params.serviceId
+    )
+    const duration = service.duration_minutes
+    if (!duration) {
+      const err = new Error("Service duration missing")
+      ;(err as any).status = 422
+      throw err
+    }
+
+    const timezone = await slotService.getProfessionalTimezone(params.companyId, params.professionalId)
+
+    let starts: string[]
+    try {
+      starts = expandRecurrence(params.startTime, params.recurrence, timezone)
+    } catch (error) {
+      throw this.validationError(error instanceof Error ? error.message : "Invalid recurrence")
+    }
+
+    if (starts.length === 0) {
+      throw this.validationError("Recurrence produces no occurrences")
+    }
+
+    const bufferBeforeMinutes = service.buffer_before_minutes || 0
+    const bufferAfterMinutes = service.buffer_after_minutes || 0
+    const occurrences = starts.map((start) =>
+      this.seriesOccurrence(start, duration * 60000, bufferBeforeMinutes * 60000, bufferAfterMinutes * 60000)
+    )
+
+    const policy = await companyService.getBookingPolicy(params.companyId, service)
+    const conflicts = await this.findSeriesConflicts({
+      companyId: params.companyId,
+      professionalId: params.professionalId,
+      serviceId: params.serviceId,
+      capacity: service.capacity || 1,
+      occurrences,
+      policy
+    })
+    if (conflicts.length > 0) {
+      throw this.seriesConflictError(conflicts)
+    }
+
+    const customer = await this.resolveCustomer(params)
+    const rrule = formatRRule(params.recurrence)
+
+    // Cria a série e reserva todas as ocorrências na mesma transação
+    const {data: seriesId, error} = await supabase.rpc("create_booking_series", {
+      p_company_id: params.companyId,
+      p_professional_id: params.professionalId,
+      p_service_id: params.serviceId,
+      p_rrule: rrule,
+      p_timezone: timezone,
+      p_start_times: starts,
+      p_duration_minutes: duration,
+      p_customer_name: customer.name,
+      p_customer_email: customer.email,
+      p_customer_phone: customer.phone,
+      p_customer_id: customer.id,
+      p_buffer_before_minutes: bufferBeforeMinutes,
+      p_buffer_after_minutes: bufferAfterMinutes
+    })
+
+    if (error || !seriesId) {
+      logger.error({
+        message: "Failed to create booking series",
+        error,
+        companyId: params.companyId,
+        professionalId: params.professionalId,
+        rrule
+      })
+      throw this.toRpcError(error?.message, "Failed to create booking series")
+    }
+
+    const series = await this.getBookingSeries(seriesId, params.companyId)
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "booking_series_created",
+      resourceType: "booking_series",
+      resourceId: series.id,
+      metadata: {
+        professionalId: params.professionalId,
+        serviceId: params.serviceId,
+        rrule,
+        timezone,
+        occurrences: series.bookings.length,
+        customerId: customer.id,
+        customerName: customer.name
+      }
+    })
+
+    logger.info({
+      message: "Booking series created successfully",
+      seriesId: series.id,
+      companyId: params.companyId,
+      occurrences: series.bookings.length
+    })
+
+    for (const booking of series.bookings) {
+      await webhookService.emit(params.companyId, "booking.created", {booking})
+    }
+
+    return series
+  }
+
+  /**
+   * Série com as ocorrências (bookings) em ordem de início
+   */
+  async getBookingSeries(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data: series, error} = await supabase
+      .from("booking_series")
+      .select("*")
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !series) {
+      logger.error({
+        message: "Booking series not found",
+        error,
+        seriesId: id,
+        companyId
+      })
+      throw new Error("Booking series not found")
+    }
+
+    const {data: bookings, error: bookingsError} = await supabase
+      .from("bookings")
+      .select("*")
+      .eq("series_id", id)
+      .eq("company_id", companyId)
+      .order("start_time", {ascending: true})
+
+    if (bookingsError) {
+      logger.error({
+        message: "Failed to get booking series bookings",
+        error: bookingsError,
+        seriesId: id,
+        companyId
+      })
+      throw new Error("Failed to get booking series")
+    }
+
+    return {...series, bookings: (bookings || []) as BookingRow[]}
+  }
+
+  /**
+   * Cancela a série inteira (ocorrências futuras) ou "esta e as seguintes", atomicamente
+   */
+  async cancelBookingSeries(id: string, companyId: string, params: ChangeBookingSeriesParams = {}) {
+    const supabase = await createServiceClient()
+
+    const series = await this.getBookingSeries(id, companyId)
+    const targets = this.seriesTargets(series.bookings, params.fromBookingId)
+    const actor = params.actor || {type: "system"}
+
+    // Todas as ocorrências são do mesmo serviço: se a primeira está dentro do prazo, as seguintes também
+    await this.assertBeforeCutoff(targets[0], actor, "cancelled")
+
+    const {error} = await supabase.rpc("cancel_booking_series", {
+      p_series_id: id,
+      p_company_id: companyId,
+      p_booking_ids: targets.map((booking) => booking.id),
+      p_reason: params.reason || null,
+      p_actor_type: actor.type,
+      p_actor_id: actor.id || null
+    })
+
+    if (error) {
+      logger.error({
+        message: "Failed to cancel booking series",
+        error,
+        seriesId: id,
+        companyId
+      })
+      throw this.toRpcError(error.message, "Failed to cancel booking series")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: actor.type === "user" ? actor.id : null,
+      action: "booking_series_cancelled",
+      resourceType: "booking_series",
+      resourceId: id,
+      metadata: {
+        bookingIds: targets.map((booking) => booking.id),
+        fromBookingId: params.fromBookingId || null,
+        reason: params.reason || null,
+        actorType: actor.type,
+        actorId: actor.id || null
+      }
+    })
+
+    logger.info({
+      message: "Booking series cancelled successfully",
+      seriesId: id,
+      companyId,
+      cancelled: targets.length
+    })
+
+    const updated = await this.getBookingSeries(id, companyId)
+
+    for (const target of targets) {
+      const booking = updated.bookings.find((b: any) => b.id === target.id) || target
+      await webhookService.emit(companyId, "booking.cancelled", {
+        booking,
+        fromStatus: target.status,
+        toStatus: "cancelled",
+        reason: params.reason || null
+      })
+      await waitlistService.offerFreedWindow(companyId, target)
+    }
+
+    return updated
+  }
+
+  /**
+   * Remarca a série inteira (ocorrências futuras) ou "esta e as seguintes": a primeira ocorrência afetada
+   * vai para startTime e as demais mudam o mesmo número de dias, no mesmo horário local. Como na criação,
+   * se alguma ocorrência não couber nada é alterado e o erro 409 traz a lista em `conflicts`.
+   */
+  async rescheduleBookingSeries(id: string, companyId: string, params: RescheduleBookingSeriesParams) {
+    const supabase = await createServiceClient()
+
+    const series = await this.getBookingSeries(id, companyId)
+    const targets = this.seriesTargets(series.bookings, params.fromBookingId)
+    const actor = params.actor || {type: "system"}
+
+    await this.assertBeforeCutoff(targets[0], actor, "rescheduled")
+
+    // Cada ocorrência mantém a própria duração e os buffers gravados no booking
+    const newStarts = shiftOccurrences(
+      targets.map((booking) => booking.start_time),
+      params.startTime,
+      series.timezone
+    )
+    const occurrences = targets.map((booking, index) => {
+      const start = Date.parse(booking.start_time)
+      const end = Date.parse(booking.end_time)
+      return this.seriesOccurrence(
+        newStarts[index],
+        end - start,
+        start - Date.parse(booking.blocked_start_time),
+        Date.parse(booking.blocked_end_time) - end
+      )
+    })
+
+    const policy = await this.getPolicyForBooking(targets[0])
+    const {data: service} = await supabase.from("services").select("capacity").eq("id", series.service_id).maybeSingle()
+    const conflicts = await this.findSeriesConflicts({
+      companyId,
+      professionalId: series.professional_id,
+      serviceId: series.service_id,
+      capacity: service?.capacity || 1,
+      occurrences,
+      policy,
+      moving: targets
+    })
+    if (conflicts.length > 0) {
+      throw this.seriesConflictError(conflicts)
+    }
+
+    const {error} = await supabase.rpc("reschedule_booking_series", {
+      p_series_id: id,
+      p_company_id: companyId,
+      p_booking_ids: targets.map((booking) => booking.id),
+      p_new_start_times: newStarts,
+      p_reason: params.reason || null,
+      p_actor_type: actor.type,
+      p_actor_id: actor.id || null
+    })
+
+    if (error) {
+      logger.error({
+        message: "Failed to reschedule booking series",
+        error,
+        seriesId: id,
+        companyId,
+        startTime: params.startTime
+      })
+      throw this.toRpcError(error.message, "Failed to reschedule booking series")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: actor.type === "user" ? actor.id : null,
+      action: "booking_series_rescheduled",
+      resourceType: "booking_series",
+      resourceId: id,
+      metadata: {
+        bookingIds: targets.map((booking) => booking.id),
+        fromBookingId: params.fromBookingId || null,
+        fromStartTime: targets[0].start_time,
+        toStartTime: newStarts[0],
+        reason: params.reason || null,
+        actorType: actor.type,
+        actorId: actor.id || null
+      }
+    })
+
+    logger.info({
+      message: "Booking series rescheduled successfully",
+      seriesId: id,
+      companyId,
+      rescheduled: targets.length
+    })
+
+    const updated = await this.getBookingSeries(id, companyId)
+
+    for (const target of targets) {
+      const booking = updated.bookings.find((b: any) => b.id === target.id) || target
+      await webhookService.emit(companyId, "booking.rescheduled", {
+        booking,
+        fromSlotId: target.slot_id,
+        fromStartTime: target.start_time,
+        fromEndTime: target.end_time
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Faixa pedida para um booking ou hold: serviço oferecido pelo profissional, início no futuro e dentro da
+   * política de agendamento, e a faixa com os buffers dentro da disponibilidade do profissional
+   */
+  private async resolveBookingRange(params: BookingRangeParams) {
+    const supabase = await createServiceClient()
+
+    // Rejeita serviços que o profissional não oferece; a duração considera o override do profissional
+    const service = await professionalServicesService.getOfferedService(
+      params.companyId,
+      params.professionalId,
+      params.serviceId
+    )
+    const duration = service.duration_minutes
+    if (!duration) {
+      const err = new Error("Service duration missing")
+      ;(err as any).status = 422
+      throw err
+    }
+
+    // Início da faixa: informado diretamente ou o início do slot escolhido
+    let startTime = params.startTime
+    if (!startTime) {
+      if (!params.slotId) {
+        throw this.validationError("slotId or startTime is required")
+      }
+
+      const {data: slot} = await supabase
+        .from("slots")
+        .select("id, start_time")
+        .eq("id", params.slotId)
+        .eq("professional_id", params.professionalId)
+        .single()
+
+      if (!slot) {
+        throw this.toRpcError("Slot not found", "Failed to resolve booking time")
+      }
+
+      startTime = slot.start_time as string
+    }
+
+    const startDt = DateTime.fromISO(startTime, {zone: "utc"})
+    if (!startDt.isValid) {
+      throw this.validationError("startTime must be a valid ISO date-time")
+    }
+
+    if (startDt.toMillis() <= DateTime.now().toMillis()) {
+      throw this.validationError("startTime must be in the future")
+    }
+
+    // Antecedência mínima e janela máxima da company/serviço valem para qualquer cliente da API
+    const policy = await companyService.getBookingPolicy(params.companyId, service)
+    const policyViolation = bookingTimeViolation(policy, startDt.toISO() as string, new Date().toISOString())
+    if (policyViolation) {
+      throw this.policyError(policyViolation)
+    }
+
+    const start = startDt.toISO() as string
+    const end = startDt.plus({minutes: duration}).toISO() as string
+
+    // Os buffers do serviço bloqueiam a agenda antes e depois, mas não fazem parte do horário do booking
+    const bufferBeforeMinutes = service.buffer_before_minutes || 0
+    const bufferAfterMinutes = service.buffer_after_minutes || 0
+
+    // A duração inteira do serviço (com os buffers) precisa caber na disponibilidade do profissional
+    const withinAvailability = await slotService.isWithinAvailability({
+      professionalId: params.professionalId,
+      companyId: params.companyId,
+      start: startDt.minus({minutes: bufferBeforeMinutes}).toISO() as string,
+      end: startDt.plus({minutes: duration + bufferAfterMinutes}).toISO() as string
+    })
+
+    if (!withinAvailability) {
+      const err = new Error("Requested time is outside the professional's availability")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    return {service, start, end, bufferBeforeMinutes, bufferAfterMinutes}
+  }
+
+  private async getActiveHold(id: string, companyId: string) {
+    const hold = await this.getHold(id, companyId)
+
+    if (Date.parse(hold.expires_at) <= Date.now()) {
+      const err = new Error("Hold has expired")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    return hold
+  }
+
+  /**
+   * Cliente do booking: o informado em customerId (contato do booking completa com o do cliente)
+   * ou o encontrado/criado pelo email ou telefone. Sem contato, o booking fica sem cliente vinculado.
+   */
+  private async resolveCustomer(params: CreateBookingParams | CreateBookingSeriesParams) {
+    if (params.customerId) {
+      const customer = await customerService.getCustomerById(params.customerId, params.companyId)
+      return {
+        id: customer.id as string,
+        name: params.customerName || customer.name,
+        email: params.customerEmail || customer.email || null,
+        phone: params.customerPhone || customer.phone || null
+      }
+    }
+
+    if (!params.customerName) {
+      throw this.validationError("customerName or customerId is required")
+    }
+
+    const customer = await customerService.findOrCreateByContact({
+      companyId: params.companyId,
+      name: params.customerName,
+      email: params.customerEmail,
+      phone: params.customerPhone
     })
+
+    return {
+      id: customer ? (customer.id as string) : null,
+      name: params.customerName,
+      email: params.customerEmail || null,
+      phone: params.customerPhone || null
+    }
+  }
+
+  /**
+   * Converte erros levantados pelas RPCs em erros com status HTTP
+   */
+  private toRpcError(message: string | undefined, fallback: string): Error {
+    if (message === "Booking not found" || message === "Professional not found" || message === "Hold not found") {
+      return new Error(message)
+    }
+
+    if (message === "Invalid time range") {
+      return this.validationError(message)
+    }
+
+    // Violação da exclusion constraint bookings_no_overlap (corrida entre duas reservas da mesma faixa)
+    if (message && message.includes("bookings_no_overlap")) {
+      const err = new Error("Booking overlaps another booking of this professional")
+      ;(err as any).status = 409
+      return err
+    }
+
+    const conflicts = [
+      "Slot not found",
+      "Slot is not available",
+      "Time range is not available",
+      "Booking status changed concurrently",
+      "Session is full",
+      "Time range is held",
+      "Hold has expired",
+      "Booking is already in this slot",
+      "Booking cannot be rescheduled"
+    ]
+
+    if (message && conflicts.some((c) => message.startsWith(c))) {
+      const err = new Error(message)
+      ;(err as any).status = 409
+      return err
+    }
+
+    return new Error(message || fallback)
+  }
+
+  /**
+   * Prazo de cancelamento/remarcação: vale para clientes da API; admins (user) e processos internos (system) não são limitados
+   */
+  private async assertBeforeCutoff(booking: any, actor: BookingActor, action: "cancelled" | "rescheduled") {
+    if (actor.type !== "api_key") return
+
+    const policy = await this.getPolicyForBooking(booking)
+    const violation = cancellationCutoffViolation(policy, booking.start_time, new Date().toISOString(), action)
+    if (violation) {
+      throw this.policyError(violation)
+    }
+  }
+
+  private async getPolicyForBooking(booking: any) {
+    const supabase = await createServiceClient()
+
+    const {data: service} = await supabase
+      .from("services")
+      .select("min_notice_minutes, max_advance_days, cancellation_cutoff_minutes")
+      .eq("id", booking.service_id)
+      .maybeSingle()
+
+    return await companyService.getBookingPolicy(booking.company_id, service)
+  }
+
+  /**
+   * Ocorrências ativas da série a partir de fromBookingId (inclusive) ou, sem ele, as que ainda não começaram
+   */
+  private seriesTargets(bookings: any[], fromBookingId?: string | null): any[] {
+    let from = Date.now()
+    let inclusive = false
+
+    if (fromBookingId) {
+      const pivot = bookings.find((booking) => booking.id === fromBookingId)
+      if (!pivot) {
+        throw new Error("Booking not found")
+      }
+      from = Date.parse(pivot.start_time)
+      inclusive = true
+    }
+
+    const targets = bookings.filter((booking) => {
+      const start = Date.parse(booking.start_time)
+      return RESCHEDULABLE_STATUSES.includes(booking.status) && (inclusive ? start >= from : start > from)
+    })
+
+    if (targets.length === 0) {
+      const err = new Error("Booking series has no upcoming bookings to change")
+      ;(err as any).status = 409
+      throw err
+    }
+
+    return targets
+  }
+
+  private seriesOccurrence(start: string, durationMs: number, beforeMs: number, afterMs: number): SeriesOccurrence {
+    const startMs = Date.parse(start)
+    return {
+      start: new Date(startMs).toISOString(),
+      end: new Date(startMs + durationMs).toISOString(),
+      blockedStart: new Date(startMs - beforeMs).toISOString(),
+      blockedEnd: new Date(startMs + durationMs + afterMs).toISOString()
+    }
+  }
+
+  /**
+   * Motivo de cada ocorrência que não pode ser reservada: início no passado, política de agendamento,
+   * fora da disponibilidade, sessão de grupo lotada ou faixa (com buffers) já ocupada
+   */
+  private async findSeriesConflicts(check: SeriesConflictCheck): Promise<BookingSeriesConflict[]> {
+    const supabase = await createServiceClient()
+    const {companyId, professionalId, occurrences} = check
+    const moving = check.moving || []
+    const now = new Date().toISOString()
+    const reasons = new Map<number, string>()
+
+    for (const [index, occurrence] of occurrences.entries()) {
+      if (Date.parse(occurrence.start) <= Date.parse(now)) {
+        reasons.set(index, "startTime must be in the future")
+        continue
+      }
+
+      const policyViolation = bookingTimeViolation(check.policy, occurrence.start, now)
+      if (policyViolation) {
+        reasons.set(index, policyViolation)
+        continue
+      }
+
+      const withinAvailability = await slotService.isWithinAvailability({
+        professionalId,
+        companyId,
+        start: occurrence.blockedStart,
+        end: occurrence.blockedEnd
+      })
+      if (!withinAvailability) {
+        reasons.set(index, "Requested time is outside the professional's availability")
+      }
+    }
+
+    // Serviços em grupo: a ocorrência que cai em uma sessão já aberta ocupa uma vaga (a faixa já está reservada)
+    const joining = new Set<number>()
+    if (check.capacity > 1) {
+      const keys = occurrences.map((occurrence) => groupSessionKey(check.serviceId, occurrence.start))
+      const {data: sessionBookings, error: sessionError} = await supabase
+        .from("bookings")
+        .select("id, session_key")
+        .eq("professional_id", professionalId)
+        .in("session_key", keys)
+        .in("status", ACTIVE_BOOKING_STATUSES)
+
+      if (sessionError) {
+        logger.error({
+          message: "Failed to get group session bookings",
+          error: sessionError,
+          companyId,
+          professionalId
+        })
+        throw new Error("Failed to check booking series availability")
+      }
+
+      const movingIds = new Set(moving.map((booking) => booking.id))
+      const booked = new Map<string, number>()
+      for (const booking of sessionBookings || []) {
+        if (movingIds.has(booking.id)) continue
+        booked.set(booking.session_key, (booked.get(booking.session_key) || 0) + 1)
+      }
+
+      keys.forEach((key, index) => {
+        const taken = booked.get(key) || 0
+        if (taken === 0) return
+
+        joining.add(index)
+        if (taken >= check.capacity && !reasons.has(index)) {
+          reasons.set(index, "Session is full")
+        }
+      })
+    }
+
+    const blocked = occurrences.map((occurrence) => ({start: occurrence.blockedStart, end: occurrence.blockedEnd}))
+    const {data: occupiedSlots, error} = await supabase
+      .from("slots")
+      .select("start_time, end_time")
+      .eq("professional_id", professionalId)
+      .eq("is_available", false)
+      .lt("start_time", blocked[blocked.length - 1].end)
+      .gt("end_time", blocked[0].start)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get occupied slots",
+        error,
+        companyId,
+        professionalId
+      })
+      throw new Error("Failed to check booking series availability")
+    }
+
+    // As faixas atuais das ocorrências sendo remarcadas serão liberadas e por isso não contam como ocupadas
+    const occupied = (occupiedSlots || []).map((slot: any) => ({start: slot.start_time, end: slot.end_time}))
+    const own = overlappingRanges(
+      occupied,
+      moving.map((booking) => ({start: booking.blocked_start_time, end: booking.blocked_end_time}))
+    )
+    const busy = overlappingRanges(
+      blocked,
+      occupied.filter((_, index) => !own.has(index))
+    )
+
+    for (const index of busy) {
+      if (!reasons.has(index) && !joining.has(index)) {
+        reasons.set(index, "Time range is not available")
+      }
+    }
+
+    return [...reasons.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, reason]) => ({
+        index,
+        startTime: occurrences[index].start,
+        endTime: occurrences[index].end,
+        reason
+      }))
+  }
+
+  private seriesConflictError(conflicts: BookingSeriesConflict[]): Error {
+    const err = new Error("Some occurrences are not available")
+    ;(err as any).status = 409
+    ;(err as any).conflicts = conflicts
+    return err
+  }
+
+  private policyError(message: string): Error {
+    const err = new Error(message)
+    ;(err as any).status = 422
+    return err
+  }
+
+  private validationError(message: string): Error {
+    const err = new Error(message)
+    ;(err as any).status = 400
+    return err
   }
 }
 
@@ -0,0 +1,300 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {DateTime} from "luxon"
+import {activityLogService} from "./activity-log.service"
+import {companyService} from "./company.service"
+import {professionalService} from "./professional.service"
+import {resolveTimezone} from "./timezone.util"
+import {
+  CALENDAR_FEED_FUTURE_DAYS,
+  CALENDAR_FEED_PAST_DAYS,
+  CALENDAR_FEED_STATUSES,
+  generateCalendarFeedToken,
+  hashCalendarFeedToken
+} from "./calendar-feed.util"
+import {
+  bookingEventSequence,
+  bookingEventStatus,
+  bookingEventUid,
+  buildIcsCalendar,
+  type IcsEvent
+} from "./ics.util"
+import type {Database} from "@/types/database"
+
+type CalendarFeedRow = Database["public"]["Tables"]["calendar_feeds"]["Row"]
+
+// Nome do serviço e do profissional (com o timezone) de cada booking exibido
+const BOOKING_EVENT_SELECT = "*, service:services(name), professional:professionals(name, timezone)"
+
+export interface CreateCalendarFeedParams {
+  companyId: string
+  professionalId?: string | null
+  name?: string
+  userId?: string
+}
+
+export class CalendarFeedService {
+  /**
+   * Cria um feed da agenda de um profissional (ou de toda a company, sem professionalId)
+   * Retorna o token e a URL de assinatura (apenas uma vez)
+   */
+  async createFeed(params: CreateCalendarFeedParams) {
+    const supabase = await createServiceClient()
+
+    if (params.professionalId) {
+      await professionalService.getProfessionalById(params.professionalId, params.companyId)
+    }
+
+    const token = generateCalendarFeedToken()
+
+    const {data, error} = await supabase
+      .from("calendar_feeds")
+      .insert({
+        company_id: params.companyId,
+        professional_id: params.professionalId || null,
+        name: params.name || null,
+        token_hash: hashCalendarFeedToken(token)
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to create calendar feed",
+        error,
+        companyId: params.companyId
+      })
+      throw new Error("Failed to create calendar feed")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      userId: params.userId || null,
+      action: "calendar_feed_created",
+      resourceType: "calendar_feed",
+      resourceId: data.id,
+      metadata: {professionalId: data.professional_id}
+    })
+
+    logger.info({
+      message: "Calendar feed created successfully",
+      companyId: params.companyId,
+      calendarFeedId: data.id
+    })
+
+    return {...this.toFeed(data), token, url: this.feedUrl(token)}
+  }
+
+  /**
+   * Lista os feeds da company (sem o token)
+   */
+  async listFeeds(companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("calendar_feeds")
+      .select("*")
+      .eq("company_id", companyId)
+      .order("created_at", {ascending: false})
+
+    if (error) {
+      logger.error({
+        message: "Failed to list calendar feeds",
+        error,
+        companyId
+      })
+      throw new Error("Failed to list calendar feeds")
+    }
+
+    return (data || []).map((row) => this.toFeed(row))
+  }
+
+  async getFeed(id: string, companyId: string) {
+    const row = await this.getFeedRow(id, companyId)
+    return this.toFeed(row)
+  }
+
+  /**
+   * Remove o feed: a URL deixa de funcionar e o calendário assinado para de atualizar
+   */
+  async deleteFeed(id: string, companyId: string, userId?: string) {
+    const supabase = await createServiceClient()
+
+    await this.getFeedRow(id, companyId)
+
+    const {error} = await supabase.from("calendar_feeds").delete().eq("id", id).eq("company_id", companyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to delete calendar feed",
+        error,
+        calendarFeedId: id,
+        companyId
+      })
+      throw new Error("Failed to delete calendar feed")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: userId || null,
+      action: "calendar_feed_deleted",
+      resourceType: "calendar_feed",
+      resourceId: id
+    })
+
+    logger.info({
+      message: "Calendar feed deleted successfully",
+      calendarFeedId: id,
+      companyId
+    })
+  }
+
+  /**
+   * Conteúdo .ics do feed do token: bookings confirmados do período do feed, cada um no timezone do profissional
+   */
+  async renderFeed(token: string) {
+    const supabase = await createServiceClient()
+
+    const {data: feed, error: feedError} = await supabase
+      .from("calendar_feeds")
+      .select("*")
+      .eq("token_hash", hashCalendarFeedToken(token))
+      .maybeSingle()
+
+    if (feedError || !feed) {
+      throw new Error("Calendar feed not found")
+    }
+
+    const company = await companyService.getCompanyById(feed.company_id)
+    const professional = feed.professional_id
+      ? await professionalService.getProfessionalById(feed.professional_id, feed.company_id)
+      : null
+
+    const now = DateTime.utc()
+    let query = supabase
+      .from("bookings")
+      .select(BOOKING_EVENT_SELECT)
+      .eq("company_id", feed.company_id)
+      .in("status", CALENDAR_FEED_STATUSES)
+      .gte("start_time", now.minus({days: CALENDAR_FEED_PAST_DAYS}).toISO())
+      .lte("start_time", now.plus({days: CALENDAR_FEED_FUTURE_DAYS}).toISO())
+
+    if (professional) {
+      query = query.eq("professional_id", professional.id)
+    }
+
+    const {data: bookings, error} = await query.order("start_time", {ascending: true})
+
+    if (error) {
+      logger.error({
+        message: "Failed to list calendar feed bookings",
+        error,
+        calendarFeedId: feed.id,
+        companyId: feed.company_id
+      })
+      throw new Error("Failed to render calendar feed")
+    }
+
+    return buildIcsCalendar({
+      name: feed.name || (professional ? `${professional.name} - ${company.name}` : company.name),
+      timezone: resolveTimezone(professional?.timezone, company.timezone),
+      generatedAt: now.toISO() as string,
+      events: (bookings || []).map((booking: any) =>
+        this.toEvent(booking, company.timezone, `${booking.service?.name || "Atendimento"} - ${booking.customer_name}`)
+      )
+    })
+  }
+
+  /**
+   * .ics de um único booking (anexo da confirmação): mesmo UID do feed, então a versão mais nova
+   * (remarcação, cancelamento) substitui o evento já importado
+   */
+  async renderBooking(bookingId: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data: booking, error} = await supabase
+      .from("bookings")
+      .select(BOOKING_EVENT_SELECT)
+      .eq("id", bookingId)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !booking) {
+      logger.error({
+        message: "Booking not found",
+        error,
+        bookingId,
+        companyId
+      })
+      throw new Error("Booking not found")
+    }
+
+    const company = await companyService.getCompanyById(companyId)
+
+    const summary = booking.professional?.name
+      ? `${booking.service?.name || "Atendimento"} - ${booking.professional.name}`
+      : booking.service?.name || "Atendimento"
+
+    return buildIcsCalendar({
+      name: company.name,
+      generatedAt: new Date().toISOString(),
+      events: [this.toEvent(booking, company.timezone, summary)]
+    })
+  }
+
+  private toEvent(booking: any, companyTimezone: string, summary: string): IcsEvent {
+    const description = [
+      booking.professional?.name ? `Profissional: ${booking.professional.name}` : null,
+      `Cliente: ${booking.customer_name}`,
+      booking.customer_email ? `Email: ${booking.customer_email}` : null,
+      booking.customer_phone ? `Telefone: ${booking.customer_phone}` : null
+    ]
+      .filter(Boolean)
+      .join("\n")
+
+    return {
+      uid: bookingEventUid(booking.id),
+      start: booking.start_time,
+      end: booking.end_time,
+      timezone: resolveTimezone(booking.professional?.timezone, companyTimezone),
+      summary,
+      description,
+      status: bookingEventStatus(booking.status),
+      sequence: bookingEventSequence(booking.created_at, booking.updated_at),
+      created: booking.created_at,
+      lastModified: booking.updated_at || booking.created_at
+    }
+  }
+
+  private feedUrl(token: string) {
+    return `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/v1/calendar/${token}.ics`
+  }
+
+  private async getFeedRow(id: string, companyId: string): Promise<CalendarFeedRow> {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("calendar_feeds")
+      .select("*")
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !data) {
+      throw new Error("Calendar feed not found")
+    }
+
+    return data
+  }
+
+  private toFeed(row: CalendarFeedRow) {
+    return {
+      id: row.id,
+      professionalId: row.professional_id,
+      name: row.name,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService()
@@ -0,0 +1,30 @@
+import crypto from 'crypto'
+
+// Período listado pelos feeds: um pouco do passado (histórico recente na agenda) e o próximo ano
+export const CALENDAR_FEED_PAST_DAYS = 30
+export const CALENDAR_FEED_FUTURE_DAYS = 365
+
+// Bookings exibidos nos feeds; pendentes ainda não foram confirmados e cancelados somem na próxima leitura
+export const CALENDAR_FEED_STATUSES = ['confirmed', 'checked_in', 'completed']
+
+/**
+ * Gera o token do feed (exibido apenas na criação, dentro da URL de assinatura)
+ */
+export function generateCalendarFeedToken(): string {
+  return `cal_${crypto.randomBytes(24).toString('hex')}`
+}
+
+/**
+ * O banco guarda só o hash: com o token aleatório de 192 bits, SHA-256 basta para buscar o feed
+ */
+export function hashCalendarFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Token do segmento da URL, aceito com ou sem a extensão .ics
+ */
+export function parseCalendarFeedToken(segment: string): string | null {
+  const token = segment.endsWith('.ics') ? segment.slice(0, -4) : segment
+  return /^cal_[0-9a-f]{48}$/.test(token) ? token : null
+}
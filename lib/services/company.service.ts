@@ -1,10 +1,26 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
+import {slotMaterializationService} from "./slot-materialization.service"
+import {resolveBookingPolicy, type BookingPolicy, type BookingPolicyColumns} from "./booking-policy.util"
 
 export interface CreateCompanyParams {
   name: string
   slug: string
+  timezone?: string
+  userId?: string
+}
+
+export interface UpdateCompanyParams {
+  name?: string
+  timezone?: string
+  userId?: string
+}
+
+export interface UpdateBookingPolicyParams {
+  minNoticeMinutes?: number
+  maxAdvanceDays?: number | null
+  cancellationCutoffMinutes?: number
   userId?: string
 }
 
@@ -16,7 +32,8 @@ export class CompanyService {
       .from("companies")
       .insert({
         name: params.name,
-        slug: params.slug
+        slug: params.slug,
+        ...(params.timezone ? {timezone: params.timezone} : {})
       })
       .select()
       .single()
@@ -83,6 +100,142 @@ export class CompanyService {
 
     return data
   }
+
+  /**
+   * Atualiza nome e/ou timezone. Com um novo timezone, a grade materializada dos profissionais que herdam
+   * o timezone da company é refeita no novo fuso.
+   */
+  async updateCompany(id: string, params: UpdateCompanyParams) {
+    const supabase = await createServiceClient()
+
+    const existing = await this.getCompanyById(id)
+
+    const updateData: any = {}
+    if (params.name !== undefined) updateData.name = params.name
+    if (params.timezone !== undefined) updateData.timezone = params.timezone
+
+    if (Object.keys(updateData).length === 0) {
+      return existing
+    }
+
+    updateData.updated_at = new Date().toISOString()
+
+    const {data, error} = await supabase.from("companies").update(updateData).eq("id", id).select().single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to update company",
+        error,
+        companyId: id
+      })
+      throw new Error("Failed to update company")
+    }
+
+    await activityLogService.log({
+      companyId: id,
+      userId: params.userId || null,
+      action: "company_updated",
+      resourceType: "company",
+      resourceId: id,
+      metadata: {
+        name: params.name,
+        timezone: params.timezone,
+        previousTimezone: existing.timezone
+      }
+    })
+
+    if (params.timezone !== undefined && params.timezone !== existing.timezone) {
+      const {data: professionals} = await supabase
+        .from("professionals")
+        .select("id")
+        .eq("company_id", id)
+        .is("timezone", null)
+
+      for (const professional of professionals || []) {
+        await slotMaterializationService.refreshProfessionalSlots(professional.id)
+      }
+    }
+
+    logger.info({
+      message: "Company updated successfully",
+      companyId: id
+    })
+
+    return data
+  }
+
+  /**
+   * Política de agendamento efetiva: valores da company, sobrescritos pelos do serviço quando definidos
+   */
+  async getBookingPolicy(companyId: string, service?: BookingPolicyColumns | null): Promise<BookingPolicy> {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("companies")
+      .select("min_notice_minutes, max_advance_days, cancellation_cutoff_minutes")
+      .eq("id", companyId)
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to get booking policy",
+        error,
+        companyId
+      })
+      throw new Error("Company not found")
+    }
+
+    return resolveBookingPolicy(data, service)
+  }
+
+  async updateBookingPolicy(companyId: string, params: UpdateBookingPolicyParams): Promise<BookingPolicy> {
+    const supabase = await createServiceClient()
+
+    const updateData: any = {}
+    if (params.minNoticeMinutes !== undefined) updateData.min_notice_minutes = params.minNoticeMinutes
+    if (params.maxAdvanceDays !== undefined) updateData.max_advance_days = params.maxAdvanceDays
+    if (params.cancellationCutoffMinutes !== undefined) {
+      updateData.cancellation_cutoff_minutes = params.cancellationCutoffMinutes
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return await this.getBookingPolicy(companyId)
+    }
+
+    updateData.updated_at = new Date().toISOString()
+
+    const {data, error} = await supabase
+      .from("companies")
+      .update(updateData)
+      .eq("id", companyId)
+      .select("min_notice_minutes, max_advance_days, cancellation_cutoff_minutes")
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to update booking policy",
+        error,
+        companyId
+      })
+      throw new Error("Failed to update booking policy")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: params.userId || null,
+      action: "booking_policy_updated",
+      resourceType: "company",
+      resourceId: companyId,
+      metadata: updateData
+    })
+
+    logger.info({
+      message: "Booking policy updated successfully",
+      companyId
+    })
+
+    return resolveBookingPolicy(data)
+  }
 }
 
 export const companyService = new CompanyService()
@@ -0,0 +1,324 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {normalizeEmail, normalizePhone} from "./customer.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
+
+export interface CreateCustomerParams {
+  companyId: string
+  name: string
+  email?: string | null
+  phone?: string | null
+  notes?: string | null
+}
+
+export interface UpdateCustomerParams {
+  name?: string
+  email?: string | null
+  phone?: string | null
+  notes?: string | null
+}
+
+export interface CustomerContact {
+  companyId: string
+  name: string
+  email?: string | null
+  phone?: string | null
+}
+
+export interface ListCustomersParams extends PageParams {
+  email?: string
+  phone?: string
+}
+
+export const CUSTOMER_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}],
+  name: [{column: "name", ascending: true}]
+}
+
+// Violação de unique constraint no Postgres (email/telefone normalizado já cadastrado)
+const UNIQUE_VIOLATION = "23505"
+
+export class CustomerService {
+  async createCustomer(params: CreateCustomerParams) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("customers")
+      .insert({
+        company_id: params.companyId,
+        name: params.name,
+        email: params.email || null,
+        phone: params.phone || null,
+        normalized_email: normalizeEmail(params.email),
+        normalized_phone: normalizePhone(params.phone),
+        notes: params.notes || null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw this.duplicateContactError()
+      }
+
+      logger.error({
+        message: "Failed to create customer",
+        error,
+        companyId: params.companyId
+      })
+      throw new Error("Failed to create customer")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "customer_created",
+      resourceType: "customer",
+      resourceId: data.id,
+      metadata: {
+        name: params.name
+      }
+    })
+
+    logger.info({
+      message: "Customer created successfully",
+      customerId: data.id,
+      companyId: params.companyId
+    })
+
+    return data
+  }
+
+  async listCustomers(companyId: string, params: ListCustomersParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(CUSTOMER_SORT_OPTIONS, params.sort, "-createdAt")
+    const limit = pageLimit(params.limit)
+
+    let query = supabase.from("customers").select("*").eq("company_id", companyId)
+
+    // Busca pelo contato usa a mesma normalização da deduplicação
+    if (params.email) {
+      query = query.eq("normalized_email", normalizeEmail(params.email) || "")
+    }
+
+    if (params.phone) {
+      query = query.eq("normalized_phone", normalizePhone(params.phone) || "")
+    }
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get customers",
+        error,
+        companyId
+      })
+      throw new Error("Failed to get customers")
+    }
+
+    return toPage(data || [], sort, limit)
+  }
+
+  async getCustomerById(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase.from("customers").select("*").eq("id", id).eq("company_id", companyId).single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Customer not found",
+        error,
+        customerId: id,
+        companyId
+      })
+      throw new Error("Customer not found")
+    }
+
+    return data
+  }
+
+  async updateCustomer(id: string, companyId: string, params: UpdateCustomerParams) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o customer existe e pertence à company
+    await this.getCustomerById(id, companyId)
+
+    const updateData: any = {}
+    if (params.name !== undefined) updateData.name = params.name
+    if (params.email !== undefined) {
+      updateData.email = params.email || null
+      updateData.normalized_email = normalizeEmail(params.email)
+    }
+    if (params.phone !== undefined) {
+      updateData.phone = params.phone || null
+      updateData.normalized_phone = normalizePhone(params.phone)
+    }
+    if (params.notes !== undefined) updateData.notes = params.notes || null
+    updateData.updated_at = new Date().toISOString()
+
+    const {data, error} = await supabase
+      .from("customers")
+      .update(updateData)
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw this.duplicateContactError()
+      }
+
+      logger.error({
+        message: "Failed to update customer",
+        error,
+        customerId: id,
+        companyId
+      })
+      throw new Error("Failed to update customer")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "customer_updated",
+      resourceType: "customer",
+      resourceId: id,
+      metadata: updateData
+    })
+
+    logger.info({
+      message: "Customer updated successfully",
+      customerId: id,
+      companyId
+    })
+
+    return data
+  }
+
+  /**
+   * Remove o cliente; os bookings ficam sem customer_id, mas mantêm o contato copiado
+   */
+  async deleteCustomer(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o customer existe e pertence à company
+    await this.getCustomerById(id, companyId)
+
+    const {error} = await supabase.from("customers").delete().eq("id", id).eq("company_id", companyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to delete customer",
+        error,
+        customerId: id,
+        companyId
+      })
+      throw new Error("Failed to delete customer")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "customer_deleted",
+      resourceType: "customer",
+      resourceId: id
+    })
+
+    logger.info({
+      message: "Customer deleted successfully",
+      customerId: id,
+      companyId
+    })
+  }
+
+  /**
+   * Encontra o cliente pelo email ou telefone normalizado (email tem prioridade) ou cria um novo.
+   * Sem email nem telefone não há como deduplicar, então retorna null.
+   */
+  async findOrCreateByContact(contact: CustomerContact) {
+    const normalizedEmail = normalizeEmail(contact.email)
+    const normalizedPhone = normalizePhone(contact.phone)
+
+    if (!normalizedEmail && !normalizedPhone) {
+      return null
+    }
+
+    const existing = await this.findByContact(contact.companyId, normalizedEmail, normalizedPhone)
+    if (existing) {
+      return existing
+    }
+
+    try {
+      return await this.createCustomer({
+        companyId: contact.companyId,
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone
+      })
+    } catch (error) {
+      // Outra requisição criou o mesmo cliente entre a busca e o insert
+      if ((error as any)?.status === 409) {
+        const created = await this.findByContact(contact.companyId, normalizedEmail, normalizedPhone)
+        if (created) {
+          return created
+        }
+      }
+      throw error
+    }
+  }
+
+  private async findByContact(companyId: string, normalizedEmail: string | null, normalizedPhone: string | null) {
+    const supabase = await createServiceClient()
+
+    const filters = []
+    // Valores entre aspas para que "." e "," do email não sejam interpretados pelo filtro or()
+    if (normalizedEmail) filters.push(`normalized_email.eq."${normalizedEmail}"`)
+    if (normalizedPhone) filters.push(`normalized_phone.eq."${normalizedPhone}"`)
+
+    const {data, error} = await supabase
+      .from("customers")
+      .select("*")
+      .eq("company_id", companyId)
+      .or(filters.join(","))
+
+    if (error) {
+      logger.error({
+        message: "Failed to find customer by contact",
+        error,
+        companyId
+      })
+      throw new Error("Failed to find customer")
+    }
+
+    const customers = data || []
+    return (
+      customers.find((customer) => normalizedEmail && customer.normalized_email === normalizedEmail) ||
+      customers[0] ||
+      null
+    )
+  }
+
+  private duplicateContactError(): Error {
+    const err = new Error("A customer with this email or phone already exists")
+    ;(err as any).status = 409
+    return err
+  }
+}
+
+export const customerService = new CustomerService()
@@ -0,0 +1,13 @@
+/**
+ * Normalização dos contatos usada na deduplicação de clientes
+ * (mesma regra do backfill em supabase/migrations/016_customers.sql)
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = (email || '').trim().toLowerCase()
+  return normalized || null
+}
+
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits || null
+}
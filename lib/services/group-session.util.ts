@@ -0,0 +1,78 @@
+/**
+ * Sessão de um serviço em grupo (capacity > 1): bookings do mesmo serviço que começam no mesmo instante.
+ * Mesmo formato da função SQL group_session_key (supabase/migrations/022_group_capacity.sql).
+ */
+export function groupSessionKey(serviceId: string, start: string): string {
+  return `${serviceId}@${Math.floor(Date.parse(start) / 1000)}`
+}
+
+export interface GroupSession {
+  start_time: string
+  end_time: string
+  slot_id: string | null
+  booked: number // bookings ativos na sessão
+}
+
+export interface SpotWindow {
+  start_time: string
+  end_time: string
+  label?: string
+  slot_ids: string[]
+}
+
+/**
+ * Janelas com as vagas restantes: janelas livres têm a capacidade inteira e sessões já abertas entram com
+ * as vagas que sobram (sessões lotadas ficam de fora). O resultado fica em ordem de início.
+ */
+export function withRemainingSpots<W extends SpotWindow>(
+  windows: W[],
+  sessions: GroupSession[],
+  capacity: number
+): Array<W & { remaining_spots: number }> {
+  const sessionStarts = new Set(sessions.map((session) => Date.parse(session.start_time)))
+
+  const free = windows
+    .filter((window) => !sessionStarts.has(Date.parse(window.start_time)))
+    .map((window) => ({ ...window, remaining_spots: capacity }))
+
+  const open = sessions
+    .filter((session) => session.booked < capacity)
+    .map(
+      (session) =>
+        ({
+          start_time: session.start_time,
+          end_time: session.end_time,
+          slot_ids: session.slot_id ? [session.slot_id] : [],
+          remaining_spots: capacity - session.booked
+        }) as W & { remaining_spots: number }
+    )
+
+  return [...free, ...open].sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+}
+
+/**
+ * Agrupa bookings ativos de um serviço em grupo por sessão
+ */
+export function groupSessions(
+  bookings: Array<{ session_key: string | null; start_time: string; end_time: string; slot_id: string | null }>
+): Map<string, GroupSession> {
+  const sessions = new Map<string, GroupSession>()
+
+  for (const booking of bookings) {
+    if (!booking.session_key) continue
+
+    const session = sessions.get(booking.session_key)
+    if (session) {
+      session.booked += 1
+    } else {
+      sessions.set(booking.session_key, {
+        start_time: booking.start_time,
+        end_time: booking.end_time,
+        slot_id: booking.slot_id,
+        booked: 1
+      })
+    }
+  }
+
+  return sessions
+}
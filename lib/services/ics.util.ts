@@ -0,0 +1,229 @@
+import { DateTime } from 'luxon'
+
+// PRODID do calendário e domínio dos UIDs: o UID de um booking nunca muda, então o cliente de calendário
+// atualiza (ou remove) o mesmo evento a cada nova leitura do feed ou importação do .ics
+export const ICS_PRODUCT_ID = '-//api-agendamento//Agenda//PT-BR'
+export const ICS_UID_DOMAIN = 'api-agendamento'
+
+// Octetos por linha antes da quebra (RFC 5545, 3.1)
+const ICS_LINE_LIMIT = 75
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'
+
+export interface IcsEvent {
+  uid: string
+  start: string
+  end: string
+  timezone: string
+  summary: string
+  description?: string | null
+  status: IcsEventStatus
+  sequence: number
+  created: string
+  lastModified: string
+}
+
+export interface IcsCalendar {
+  name?: string | null
+  timezone?: string | null
+  generatedAt: string
+  events: IcsEvent[]
+}
+
+export function bookingEventUid(bookingId: string): string {
+  return `booking-${bookingId}@${ICS_UID_DOMAIN}`
+}
+
+/**
+ * SEQUENCE do evento: segundos entre a criação e a última alteração do booking, então cresce a cada
+ * remarcação ou mudança de status (inclusive o cancelamento) e o cliente aceita a nova versão
+ */
+export function bookingEventSequence(createdAt: string, updatedAt: string | null): number {
+  if (!updatedAt) return 0
+  return Math.max(0, Math.floor((Date.parse(updatedAt) - Date.parse(createdAt)) / 1000))
+}
+
+export function bookingEventStatus(status: string): IcsEventStatus {
+  if (status === 'pending') return 'TENTATIVE'
+  if (status === 'cancelled' || status === 'no_show') return 'CANCELLED'
+  return 'CONFIRMED'
+}
+
+/**
+ * Escapa um valor TEXT: barra invertida, ponto e vírgula, vírgula e quebras de linha
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Quebra a linha em até 75 octetos (UTF-8), sem partir caracteres; as continuações começam com um espaço
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1
+
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+
+    current += char
+    currentBytes += bytes
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function formatIcsUtc(iso: string): string {
+  return DateTime.fromISO(iso, { zone: 'utc' }).toFormat("yyyyMMdd'T'HHmmss'Z'")
+}
+
+/**
+ * Horário local no timezone do evento, usado com TZID (ex.: DTSTART;TZID=America/Sao_Paulo:20260302T090000)
+ */
+export function formatIcsLocal(iso: string, timezone: string): string {
+  return DateTime.fromISO(iso, { zone: timezone }).toFormat("yyyyMMdd'T'HHmmss")
+}
+
+function formatIcsOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const absolute = Math.abs(offsetMinutes)
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`
+}
+
+function offsetAt(millis: number, timezone: string): number {
+  return DateTime.fromMillis(millis, { zone: timezone }).offset
+}
+
+/**
+ * Primeiro minuto com o novo offset entre lo (offset antigo) e hi (offset novo)
+ */
+function findTransition(lo: number, hi: number, timezone: string): number {
+  const before = offsetAt(lo, timezone)
+
+  while (hi - lo > MINUTE_MS) {
+    const mid = lo + Math.floor((hi - lo) / 2)
+    if (offsetAt(mid, timezone) === before) {
+      lo = mid
+    } else {
+      hi = mid
+    }
+  }
+
+  return Math.floor(hi / MINUTE_MS) * MINUTE_MS
+}
+
+function observanceLines(onset: number, offsetFrom: number, timezone: string, dtstart?: string): string[] {
+  const local = DateTime.fromMillis(onset, { zone: timezone })
+  const kind = local.isInDST ? 'DAYLIGHT' : 'STANDARD'
+
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${dtstart || DateTime.fromMillis(onset + offsetFrom * MINUTE_MS, { zone: 'utc' }).toFormat("yyyyMMdd'T'HHmmss")}`,
+    `TZOFFSETFROM:${formatIcsOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatIcsOffset(local.offset)}`,
+    `TZNAME:${local.offsetNameShort}`,
+    `END:${kind}`
+  ]
+}
+
+/**
+ * VTIMEZONE com o offset vigente em `from` e cada transição (horário de verão) até `to`.
+ * Cobre só o período dos eventos, o suficiente para o cliente resolver os horários com TZID.
+ */
+export function vtimezoneLines(timezone: string, from: string, to: string): string[] {
+  const start = Date.parse(from)
+  const end = Date.parse(to)
+  const initialOffset = offsetAt(start, timezone)
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...observanceLines(start, initialOffset, timezone, '19700101T000000')
+  ]
+
+  let previous = start
+  for (let current = start + DAY_MS; previous < end; current += DAY_MS) {
+    const offsetFrom = offsetAt(previous, timezone)
+    if (offsetAt(current, timezone) !== offsetFrom) {
+      lines.push(...observanceLines(findTransition(previous, current, timezone), offsetFrom, timezone))
+    }
+    previous = current
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+function eventLines(event: IcsEvent, generatedAt: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsUtc(generatedAt)}`,
+    `DTSTART;TZID=${event.timezone}:${formatIcsLocal(event.start, event.timezone)}`,
+    `DTEND;TZID=${event.timezone}:${formatIcsLocal(event.end, event.timezone)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`
+  ]
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+  }
+
+  lines.push(
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    `CREATED:${formatIcsUtc(event.created)}`,
+    `LAST-MODIFIED:${formatIcsUtc(event.lastModified)}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  )
+
+  return lines
+}
+
+/**
+ * Monta o VCALENDAR (RFC 5545): um VTIMEZONE por timezone usado pelos eventos, linhas dobradas e CRLF.
+ * Sem eventos, o VTIMEZONE do calendário mantém o VCALENDAR válido (a RFC exige ao menos um componente).
+ */
+export function buildIcsCalendar(calendar: IcsCalendar): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH']
+
+  if (calendar.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(calendar.name)}`)
+  }
+  if (calendar.timezone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timezone}`)
+  }
+
+  const ranges = new Map<string, { from: string; to: string }>()
+  if (calendar.events.length === 0 && calendar.timezone) {
+    ranges.set(calendar.timezone, { from: calendar.generatedAt, to: calendar.generatedAt })
+  }
+
+  for (const event of calendar.events) {
+    const range = ranges.get(event.timezone)
+    ranges.set(event.timezone, {
+      from: range && Date.parse(range.from) <= Date.parse(event.start) ? range.from : event.start,
+      to: range && Date.parse(range.to) >= Date.parse(event.end) ? range.to : event.end
+    })
+  }
+
+  ranges.forEach((range, timezone) => lines.push(...vtimezoneLines(timezone, range.from, range.to)))
+  calendar.events.forEach((event) => lines.push(...eventLines(event, calendar.generatedAt)))
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,143 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {IDEMPOTENCY_KEY_TTL_HOURS, IDEMPOTENCY_LOCK_TIMEOUT_SECONDS} from "./idempotency.util"
+
+export interface BeginIdempotentRequestParams {
+  apiClientId: string
+  companyId: string
+  key: string
+  method: string
+  path: string
+  requestHash: string
+}
+
+export type IdempotentRequestState =
+  | {state: "new"}
+  | {state: "replay"; status: number; body: unknown}
+  | {state: "mismatch"}
+  | {state: "in_progress"}
+
+// Violação de unique constraint no Postgres
+const UNIQUE_VIOLATION = "23505"
+
+export class IdempotencyService {
+  /**
+   * Reserva a chave para esta requisição ou informa o que fazer com uma repetição:
+   * devolver a resposta guardada, rejeitar (corpo diferente) ou aguardar (ainda em processamento)
+   */
+  async begin(params: BeginIdempotentRequestParams, retried = false): Promise<IdempotentRequestState> {
+    const supabase = await createServiceClient()
+
+    const {error} = await supabase.from("idempotency_keys").insert({
+      api_client_id: params.apiClientId,
+      company_id: params.companyId,
+      idempotency_key: params.key,
+      method: params.method,
+      path: params.path,
+      request_hash: params.requestHash
+    })
+
+    if (!error) {
+      return {state: "new"}
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      logger.error({
+        message: "Failed to reserve idempotency key",
+        error,
+        apiClientId: params.apiClientId
+      })
+      throw new Error("Failed to process Idempotency-Key")
+    }
+
+    const {data: existing, error: existingError} = await supabase
+      .from("idempotency_keys")
+      .select("*")
+      .eq("api_client_id", params.apiClientId)
+      .eq("idempotency_key", params.key)
+      .single()
+
+    if (existingError || !existing) {
+      logger.error({
+        message: "Failed to get idempotency key",
+        error: existingError,
+        apiClientId: params.apiClientId
+      })
+      throw new Error("Failed to process Idempotency-Key")
+    }
+
+    const ageSeconds = (Date.now() - new Date(existing.created_at).getTime()) / 1000
+    const expired =
+      ageSeconds > IDEMPOTENCY_KEY_TTL_HOURS * 3600 ||
+      (existing.status === "processing" && ageSeconds > IDEMPOTENCY_LOCK_TIMEOUT_SECONDS)
+
+    if (expired && !retried) {
+      // Chave vencida (ou presa em processamento) é reaproveitada como uma requisição nova
+      await this.release(params.apiClientId, params.key, existing.id)
+      return await this.begin(params, true)
+    }
+
+    if (existing.request_hash !== params.requestHash) {
+      return {state: "mismatch"}
+    }
+
+    if (existing.status === "processing") {
+      return {state: "in_progress"}
+    }
+
+    return {state: "replay", status: existing.response_status as number, body: existing.response_body}
+  }
+
+  /**
+   * Guarda a resposta da primeira execução para ser devolvida nas repetições
+   */
+  async complete(apiClientId: string, key: string, status: number, body: unknown) {
+    const supabase = await createServiceClient()
+
+    const {error} = await supabase
+      .from("idempotency_keys")
+      .update({
+        status: "completed",
+        response_status: status,
+        response_body: body,
+        completed_at: new Date().toISOString()
+      })
+      .eq("api_client_id", apiClientId)
+      .eq("idempotency_key", key)
+
+    if (error) {
+      // A operação já foi executada; sem o registro, uma repetição será processada de novo
+      logger.error({
+        message: "Failed to store idempotent response",
+        error,
+        apiClientId,
+        idempotencyKey: key
+      })
+    }
+  }
+
+  /**
+   * Libera a chave (ex.: resposta 5xx) para que o cliente possa repetir a requisição
+   */
+  async release(apiClientId: string, key: string, id?: string) {
+    const supabase = await createServiceClient()
+
+    let query = supabase.from("idempotency_keys").delete().eq("api_client_id", apiClientId).eq("idempotency_key", key)
+    if (id) {
+      query = query.eq("id", id)
+    }
+
+    const {error} = await query
+
+    if (error) {
+      logger.error({
+        message: "Failed to release idempotency key",
+        error,
+        apiClientId,
+        idempotencyKey: key
+      })
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService()
@@ -0,0 +1,60 @@
+import crypto from 'crypto'
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255
+
+// Por quanto tempo uma chave concluída continua sendo reaproveitada
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24
+// Após esse tempo uma chave presa em 'processing' (processo caiu no meio) pode ser retomada
+export const IDEMPOTENCY_LOCK_TIMEOUT_SECONDS = 300
+
+/**
+ * Chaves aceitas: 1-255 caracteres ASCII imprimíveis (UUIDs, ids do n8n, etc.)
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= IDEMPOTENCY_KEY_MAX_LENGTH && /^[\x21-\x7e]+$/.test(key)
+}
+
+/**
+ * Serializa JSON com as chaves ordenadas, para que a ordem dos campos não altere o hash
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Hash que identifica a requisição associada a uma Idempotency-Key (método + path + corpo).
+ * Corpos JSON são comparados pelo conteúdo; qualquer outro corpo, byte a byte.
+ */
+export function hashIdempotentRequest(method: string, path: string, rawBody: string): string {
+  let body = rawBody.trim()
+
+  if (body) {
+    try {
+      body = canonicalJson(JSON.parse(body))
+    } catch {
+      // Corpo não-JSON: usa o texto como veio
+    }
+  }
+
+  return crypto.createHash('sha256').update(`${method.toUpperCase()} ${path}\n${body}`).digest('hex')
+}
+
+/**
+ * Respostas 5xx não são guardadas: a chave é liberada para que o cliente possa tentar de novo
+ */
+export function isStorableIdempotentStatus(status: number): boolean {
+  return status < 500
+}
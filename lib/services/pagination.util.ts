@@ -0,0 +1,158 @@
+import type { ApiPagination, PaginatedResponse } from '@/types/api'
+
+export const DEFAULT_PAGE_LIMIT = 50
+export const MAX_PAGE_LIMIT = 200
+
+export interface SortColumn {
+  column: string
+  ascending: boolean
+  nullable?: boolean // colunas que aceitam NULL (Postgres: NULLS LAST no asc, NULLS FIRST no desc)
+}
+
+/**
+ * Ordenações aceitas por um recurso, no sentido ascendente. O parâmetro `sort` usa a chave,
+ * com "-" na frente para inverter (ex.: `-startTime`).
+ */
+export type SortOptions = Record<string, SortColumn[]>
+
+export interface ResolvedSort {
+  key: string
+  columns: SortColumn[] // inclui o id como desempate, garantindo uma ordem total
+}
+
+export interface PageParams {
+  limit?: number
+  cursor?: string
+  sort?: string
+}
+
+/**
+ * Valores aceitos no parâmetro `sort` (para validação com z.enum)
+ */
+export function sortParamValues(options: SortOptions): [string, ...string[]] {
+  const keys = Object.keys(options)
+  return keys.flatMap(key => [key, `-${key}`]) as [string, ...string[]]
+}
+
+export function resolveSort(options: SortOptions, sort: string | undefined, defaultSort: string): ResolvedSort {
+  const key = sort || defaultSort
+  const descending = key.startsWith('-')
+  const columns = options[descending ? key.slice(1) : key]
+
+  if (!columns) {
+    throw paginationError(`Invalid sort '${key}'`)
+  }
+
+  const resolved = columns.map(column => ({
+    ...column,
+    ascending: descending ? !column.ascending : column.ascending
+  }))
+
+  return {
+    key,
+    columns: [...resolved, { column: 'id', ascending: resolved[0].ascending }]
+  }
+}
+
+export function pageLimit(limit: number | undefined): number {
+  if (!limit) {
+    return DEFAULT_PAGE_LIMIT
+  }
+
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_PAGE_LIMIT)
+}
+
+/**
+ * O cursor é opaco para o cliente: guarda a ordenação e os valores da última linha da página
+ */
+export function encodeCursor(sort: ResolvedSort, row: Record<string, unknown>): string {
+  const payload = { s: sort.key, v: sort.columns.map(({ column }) => row[column] ?? null) }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+export function decodeCursor(sort: ResolvedSort, cursor: string): unknown[] {
+  let payload: any
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw paginationError('Invalid cursor')
+  }
+
+  // Um cursor só vale para a ordenação em que foi gerado
+  if (!payload || payload.s !== sort.key || !Array.isArray(payload.v) || payload.v.length !== sort.columns.length) {
+    throw paginationError('Invalid cursor')
+  }
+
+  return payload.v
+}
+
+/**
+ * Filtro PostgREST (para .or()) das linhas que vêm depois do cursor na ordenação:
+ * (c1 > v1) OR (c1 = v1 AND c2 > v2) OR ... respeitando o sentido e os NULLs de cada coluna
+ */
+export function keysetFilter(sort: ResolvedSort, values: unknown[]): string {
+  const terms: string[] = []
+
+  sort.columns.forEach((column, index) => {
+    const after = afterConditions(column, values[index])
+    if (after.length === 0) {
+      return
+    }
+
+    const equals = sort.columns.slice(0, index).map((previous, i) => equalCondition(previous, values[i]))
+    const afterExpression = after.length === 1 ? after[0] : `or(${after.join(',')})`
+
+    if (equals.length === 0) {
+      terms.push(...after)
+    } else {
+      terms.push(`and(${[...equals, afterExpression].join(',')})`)
+    }
+  })
+
+  return terms.join(',')
+}
+
+/**
+ * Recebe até limit + 1 linhas: a linha extra só indica que existe próxima página
+ */
+export function toPage<T extends Record<string, any>>(rows: T[], sort: ResolvedSort, limit: number): PaginatedResponse<T> {
+  const hasMore = rows.length > limit
+  const data = hasMore ? rows.slice(0, limit) : rows
+  const pagination: ApiPagination = {
+    limit,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(sort, data[data.length - 1]) : null
+  }
+
+  return { data, pagination }
+}
+
+function afterConditions(column: SortColumn, value: unknown): string[] {
+  if (value === null) {
+    // NULLs ficam no fim do asc (nada vem depois) e no início do desc
+    return column.ascending ? [] : [`${column.column}.not.is.null`]
+  }
+
+  const conditions = [`${column.column}.${column.ascending ? 'gt' : 'lt'}.${quote(value)}`]
+  if (column.nullable && column.ascending) {
+    conditions.push(`${column.column}.is.null`)
+  }
+
+  return conditions
+}
+
+function equalCondition(column: SortColumn, value: unknown): string {
+  return value === null ? `${column.column}.is.null` : `${column.column}.eq.${quote(value)}`
+}
+
+// Aspas para que ",", "." e ":" dos valores (datas, nomes) não sejam interpretados pelo filtro
+function quote(value: unknown): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function paginationError(message: string): Error {
+  const err = new Error(message)
+  ;(err as any).status = 400
+  return err
+}
@@ -0,0 +1,328 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {professionalService} from "./professional.service"
+import {serviceService} from "./service.service"
+import {effectiveServiceTerms} from "./professional-services.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
+
+export interface AssignServiceParams {
+  companyId: string
+  professionalId: string
+  serviceId: string
+  durationMinutes?: number | null // NULL/omitido usa a duração do serviço
+  price?: number | null // NULL/omitido usa o preço do serviço
+}
+
+export interface UpdateServiceAssignmentParams {
+  durationMinutes?: number | null
+  price?: number | null
+}
+
+export const PROFESSIONAL_SERVICE_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}]
+}
+
+// Violação de unique constraint no Postgres (serviço já atribuído ao profissional)
+const UNIQUE_VIOLATION = "23505"
+
+export class ProfessionalServicesService {
+  /**
+   * Serviços oferecidos pelo profissional, com a duração e o preço efetivos (override ou padrão do serviço)
+   */
+  async listServices(companyId: string, professionalId: string, params: PageParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(PROFESSIONAL_SERVICE_SORT_OPTIONS, params.sort, "createdAt")
+    const limit = pageLimit(params.limit)
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(professionalId, companyId)
+
+    let query = supabase
+      .from("professional_services")
+      .select("*, service:services(*)")
+      .eq("professional_id", professionalId)
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get professional services",
+        error,
+        companyId,
+        professionalId
+      })
+      throw new Error("Failed to get professional services")
+    }
+
+    const page = toPage(data || [], sort, limit)
+    return {...page, data: page.data.map((assignment) => this.withEffectiveTerms(assignment))}
+  }
+
+  async assignService(params: AssignServiceParams) {
+    const supabase = await createServiceClient()
+
+    // Profissional e serviço precisam ser da mesma company
+    await professionalService.getProfessionalById(params.professionalId, params.companyId)
+    const service = await serviceService.getServiceById(params.serviceId, params.companyId)
+
+    const {data, error} = await supabase
+      .from("professional_services")
+      .insert({
+        professional_id: params.professionalId,
+        service_id: params.serviceId,
+        duration_minutes: params.durationMinutes ?? null,
+        price: params.price ?? null
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        const err = new Error("Service is already assigned to this professional")
+        ;(err as any).status = 409
+        throw err
+      }
+
+      logger.error({
+        message: "Failed to assign service to professional",
+        error,
+        professionalId: params.professionalId,
+        serviceId: params.serviceId
+      })
+      throw new Error("Failed to assign service to professional")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "professional_service_assigned",
+      resourceType: "professional",
+      resourceId: params.professionalId,
+      metadata: {
+        serviceId: params.serviceId,
+        durationMinutes: data.duration_minutes,
+        price: data.price
+      }
+    })
+
+    logger.info({
+      message: "Service assigned to professional successfully",
+      professionalId: params.professionalId,
+      serviceId: params.serviceId
+    })
+
+    return this.withEffectiveTerms({...data, service})
+  }
+
+  async updateAssignment(
+    companyId: string,
+    professionalId: string,
+    serviceId: string,
+    params: UpdateServiceAssignmentParams
+  ) {
+    const supabase = await createServiceClient()
+
+    const assignment = await this.getAssignment(companyId, professionalId, serviceId)
+
+    const updateData: any = {}
+    if (params.durationMinutes !== undefined) updateData.duration_minutes = params.durationMinutes
+    if (params.price !== undefined) updateData.price = params.price
+
+    if (Object.keys(updateData).length === 0) {
+      return assignment
+    }
+
+    updateData.updated_at = new Date().toISOString()
+
+    const {data, error} = await supabase
+      .from("professional_services")
+      .update(updateData)
+      .eq("id", assignment.id)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to update professional service",
+        error,
+        professionalId,
+        serviceId
+      })
+      throw new Error("Failed to update professional service")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "professional_service_updated",
+      resourceType: "professional",
+      resourceId: professionalId,
+      metadata: {
+        serviceId,
+        ...updateData
+      }
+    })
+
+    logger.info({
+      message: "Professional service updated successfully",
+      professionalId,
+      serviceId
+    })
+
+    return this.withEffectiveTerms({...data, service: assignment.service})
+  }
+
+  async removeAssignment(companyId: string, professionalId: string, serviceId: string) {
+    const supabase = await createServiceClient()
+
+    const assignment = await this.getAssignment(companyId, professionalId, serviceId)
+
+    const {error} = await supabase.from("professional_services").delete().eq("id", assignment.id)
+
+    if (error) {
+      logger.error({
+        message: "Failed to remove service from professional",
+        error,
+        professionalId,
+        serviceId
+      })
+      throw new Error("Failed to remove service from professional")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "professional_service_removed",
+      resourceType: "professional",
+      resourceId: professionalId,
+      metadata: {
+        serviceId
+      }
+    })
+
+    logger.info({
+      message: "Service removed from professional successfully",
+      professionalId,
+      serviceId
+    })
+  }
+
+  /**
+   * Serviço como oferecido pelo profissional: duration_minutes e price já com os overrides aplicados.
+   * Usado por slots e bookings; lança 422 se o profissional não oferece o serviço.
+   */
+  async getOfferedService(companyId: string, professionalId: string, serviceId: string) {
+    const supabase = await createServiceClient()
+
+    const service = await serviceService.getServiceById(serviceId, companyId)
+
+    const {data: assignment, error} = await supabase
+      .from("professional_services")
+      .select("duration_minutes, price")
+      .eq("professional_id", professionalId)
+      .eq("service_id", serviceId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error({
+        message: "Failed to get professional service",
+        error,
+        professionalId,
+        serviceId
+      })
+      throw new Error("Failed to get professional service")
+    }
+
+    if (!assignment) {
+      const err = new Error("Professional does not offer this service")
+      ;(err as any).status = 422
+      throw err
+    }
+
+    return {...service, ...effectiveServiceTerms(service, assignment)}
+  }
+
+  /**
+   * Profissionais da company que oferecem o serviço (usado pela busca de horários em toda a company)
+   */
+  async getProfessionalsOfferingService(companyId: string, serviceId: string) {
+    const supabase = await createServiceClient()
+
+    const service = await serviceService.getServiceById(serviceId, companyId)
+
+    const {data, error} = await supabase
+      .from("professional_services")
+      .select("professional:professionals!inner(id, name, company_id)")
+      .eq("service_id", serviceId)
+      .eq("professional.company_id", companyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get professionals offering service",
+        error,
+        companyId,
+        serviceId
+      })
+      throw new Error("Failed to get professionals offering service")
+    }
+
+    const professionals = (data || [])
+      .map((row: any) => row.professional)
+      .filter(Boolean)
+      .map((professional: any) => ({id: professional.id as string, name: professional.name as string}))
+
+    return {service, professionals}
+  }
+
+  private async getAssignment(companyId: string, professionalId: string, serviceId: string) {
+    const supabase = await createServiceClient()
+
+    // Verificar se o professional pertence à company
+    await professionalService.getProfessionalById(professionalId, companyId)
+
+    const {data, error} = await supabase
+      .from("professional_services")
+      .select("*, service:services(*)")
+      .eq("professional_id", professionalId)
+      .eq("service_id", serviceId)
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Service not assigned to professional",
+        error,
+        professionalId,
+        serviceId
+      })
+      throw new Error("Service not assigned to this professional")
+    }
+
+    return this.withEffectiveTerms(data)
+  }
+
+  private withEffectiveTerms(assignment: any) {
+    const terms = effectiveServiceTerms(assignment.service, assignment)
+    return {
+      ...assignment,
+      effective_duration_minutes: terms.duration_minutes,
+      effective_price: terms.price
+    }
+  }
+}
+
+export const professionalServicesService = new ProfessionalServicesService()
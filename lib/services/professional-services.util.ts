@@ -0,0 +1,15 @@
+export interface ServiceTerms {
+  duration_minutes: number | null
+  price: number | null
+}
+
+/**
+ * Duração e preço do serviço para um profissional: o valor do profissional quando definido,
+ * senão o do serviço (NULL no override significa "usar o padrão do serviço")
+ */
+export function effectiveServiceTerms(service: ServiceTerms, override?: Partial<ServiceTerms> | null): ServiceTerms {
+  return {
+    duration_minutes: override?.duration_minutes ?? service.duration_minutes,
+    price: override?.price ?? service.price
+  }
+}
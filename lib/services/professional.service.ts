@@ -1,18 +1,35 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
+import {webhookService} from "./webhook.service"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
 
 export interface CreateProfessionalParams {
   companyId: string
   name: string
   email?: string | null
   phone?: string | null
+  timezone?: string | null
+}
+
+export const PROFESSIONAL_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}],
+  name: [{column: "name", ascending: true}]
 }
 
 export interface UpdateProfessionalParams {
   name?: string
   email?: string | null
   phone?: string | null
+  timezone?: string | null
 }
 
 export class ProfessionalService {
@@ -25,7 +42,8 @@ export class ProfessionalService {
         company_id: params.companyId,
         name: params.name,
         email: params.email || null,
-        phone: params.phone || null
+        phone: params.phone || null,
+        timezone: params.timezone || null
       })
       .select()
       .single()
@@ -55,6 +73,8 @@ export class ProfessionalService {
       companyId: params.companyId
     })
 
+    await webhookService.emit(params.companyId, "professional.created", {professional: data})
+
     return data
   }
 
@@ -79,6 +99,39 @@ export class ProfessionalService {
     return data || []
   }
 
+  /**
+   * Listagem paginada da API; getAllProfessionals continua retornando todos (uso interno)
+   */
+  async listProfessionals(companyId: string, params: PageParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(PROFESSIONAL_SORT_OPTIONS, params.sort, "-createdAt")
+    const limit = pageLimit(params.limit)
+
+    let query = supabase.from("professionals").select("*").eq("company_id", companyId)
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get professionals",
+        error,
+        companyId
+      })
+      throw new Error("Failed to get professionals")
+    }
+
+    return toPage(data || [], sort, limit)
+  }
+
   async getProfessionalById(id: string, companyId: string) {
     const supabase = await createServiceClient()
 
@@ -112,6 +165,7 @@ export class ProfessionalService {
     if (params.name !== undefined) updateData.name = params.name
     if (params.email !== undefined) updateData.email = params.email
     if (params.phone !== undefined) updateData.phone = params.phone
+    if (params.timezone !== undefined) updateData.timezone = params.timezone
 
     const {data, error} = await supabase
       .from("professionals")
@@ -145,6 +199,8 @@ export class ProfessionalService {
       companyId
     })
 
+    await webhookService.emit(companyId, "professional.updated", {professional: data})
+
     return data
   }
 
@@ -152,7 +208,7 @@ export class ProfessionalService {
     const supabase = await createServiceClient()
 
     // Verificar se o profissional existe e pertence à company
-    await this.getProfessionalById(id, companyId)
+    const professional = await this.getProfessionalById(id, companyId)
 
     const {error} = await supabase.from("professionals").delete().eq("id", id).eq("company_id", companyId)
 
@@ -178,6 +234,8 @@ export class ProfessionalService {
       professionalId: id,
       companyId
     })
+
+    await webhookService.emit(companyId, "professional.deleted", {professional})
   }
 }
 
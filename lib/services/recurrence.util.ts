@@ -0,0 +1,190 @@
+import { DateTime } from 'luxon'
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number]
+
+// Uma série gera no máximo um ano de ocorrências semanais
+export const MAX_RECURRENCE_OCCURRENCES = 52
+
+/**
+ * Padrão de repetição de uma série: exatamente um entre count (número de ocorrências, incluindo a primeira)
+ * e until (ISO, inclusivo)
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  count?: number | null
+  until?: string | null
+}
+
+export interface TimeRange {
+  start: string // ISO
+  end: string // ISO
+}
+
+/**
+ * Converte uma RRULE no subconjunto suportado (FREQ=WEEKLY com INTERVAL 1 ou 2, FREQ=MONTHLY, COUNT ou UNTIL).
+ * Ex.: "FREQ=WEEKLY;INTERVAL=2;COUNT=6" ou "RRULE:FREQ=MONTHLY;UNTIL=20261231T235959Z"
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const parts: Record<string, string> = {}
+  for (const part of rrule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Invalid RRULE part '${part}'`)
+    }
+    parts[key.toUpperCase()] = value.toUpperCase()
+  }
+
+  const unsupported = Object.keys(parts).filter((key) => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL'].includes(key))
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported RRULE parts: ${unsupported.join(', ')}`)
+  }
+
+  const interval = parts.INTERVAL === undefined ? 1 : Number(parts.INTERVAL)
+  let frequency: RecurrenceFrequency
+  if (parts.FREQ === 'WEEKLY' && interval === 1) {
+    frequency = 'weekly'
+  } else if (parts.FREQ === 'WEEKLY' && interval === 2) {
+    frequency = 'biweekly'
+  } else if (parts.FREQ === 'MONTHLY' && interval === 1) {
+    frequency = 'monthly'
+  } else {
+    throw new Error('Only weekly, biweekly (FREQ=WEEKLY;INTERVAL=2) and monthly recurrences are supported')
+  }
+
+  const rule: RecurrenceRule = { frequency }
+
+  if (parts.COUNT !== undefined) {
+    const count = Number(parts.COUNT)
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error('COUNT must be a positive integer')
+    }
+    rule.count = count
+  }
+
+  if (parts.UNTIL !== undefined) {
+    const until = parseRRuleDate(parts.UNTIL)
+    if (!until) {
+      throw new Error('UNTIL must be a date (YYYYMMDD) or a UTC date-time (YYYYMMDDTHHMMSSZ)')
+    }
+    rule.until = until
+  }
+
+  validateRecurrenceRule(rule)
+  return rule
+}
+
+/**
+ * Valida count/until de uma regra (vinda da RRULE ou do objeto da API)
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): void {
+  const hasCount = rule.count !== undefined && rule.count !== null
+  const hasUntil = rule.until !== undefined && rule.until !== null
+
+  if (hasCount === hasUntil) {
+    throw new Error('Recurrence requires exactly one of count or until')
+  }
+
+  if (hasCount && (rule.count as number) > MAX_RECURRENCE_OCCURRENCES) {
+    throw new Error(`Recurrence count must be at most ${MAX_RECURRENCE_OCCURRENCES}`)
+  }
+}
+
+/**
+ * RRULE equivalente à regra, gravada na série
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [rule.frequency === 'monthly' ? 'FREQ=MONTHLY' : 'FREQ=WEEKLY']
+  if (rule.frequency === 'biweekly') parts.push('INTERVAL=2')
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) {
+    parts.push(`UNTIL=${DateTime.fromISO(rule.until, { zone: 'utc' }).toFormat("yyyyMMdd'T'HHmmss'Z'")}`)
+  }
+  return parts.join(';')
+}
+
+/**
+ * Inícios (ISO UTC) das ocorrências, mantendo o horário local no timezone informado (inclusive na troca
+ * de horário de verão). Na repetição mensal, meses sem o dia do primeiro início (ex.: 31) são pulados,
+ * como na RRULE.
+ */
+export function expandRecurrence(startTime: string, rule: RecurrenceRule, timezone: string): string[] {
+  validateRecurrenceRule(rule)
+
+  const first = DateTime.fromISO(startTime, { zone: 'utc' }).setZone(timezone)
+  const untilMs = rule.until ? DateTime.fromISO(rule.until, { zone: 'utc' }).toMillis() : null
+  const occurrences: string[] = []
+
+  for (let step = 0; ; step++) {
+    const candidate =
+      rule.frequency === 'monthly'
+        ? first.plus({ months: step })
+        : first.plus({ weeks: rule.frequency === 'biweekly' ? step * 2 : step })
+
+    if (untilMs !== null && candidate.toMillis() > untilMs) break
+
+    if (rule.frequency !== 'monthly' || candidate.day === first.day) {
+      occurrences.push(candidate.toUTC().toISO() as string)
+    }
+
+    if (rule.count && occurrences.length >= rule.count) break
+
+    if (occurrences.length > MAX_RECURRENCE_OCCURRENCES) {
+      throw new Error(`Recurrence produces more than ${MAX_RECURRENCE_OCCURRENCES} occurrences`)
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Novos inícios ao remarcar parte de uma série: a primeira ocorrência vai para newStart e as demais mudam
+ * o mesmo número de dias e passam para o mesmo horário local (ex.: ter 10:00 → qua 11:00 em todas)
+ */
+export function shiftOccurrences(starts: string[], newStart: string, timezone: string): string[] {
+  if (starts.length === 0) return []
+
+  const pivot = DateTime.fromISO(starts[0], { zone: 'utc' }).setZone(timezone)
+  const target = DateTime.fromISO(newStart, { zone: 'utc' }).setZone(timezone)
+  const dayDelta = Math.round(target.startOf('day').diff(pivot.startOf('day'), 'days').days)
+
+  return starts.map((start) => {
+    const local = DateTime.fromISO(start, { zone: 'utc' }).setZone(timezone)
+    return local
+      .plus({ days: dayDelta })
+      .set({ hour: target.hour, minute: target.minute, second: 0, millisecond: 0 })
+      .toUTC()
+      .toISO() as string
+  })
+}
+
+/**
+ * Índices dos ranges que cruzam algum dos ranges ocupados
+ */
+export function overlappingRanges(ranges: TimeRange[], busy: TimeRange[]): Set<number> {
+  const busyMs = busy.map((range) => ({ start: Date.parse(range.start), end: Date.parse(range.end) }))
+  const result = new Set<number>()
+
+  ranges.forEach((range, index) => {
+    const start = Date.parse(range.start)
+    const end = Date.parse(range.end)
+    if (busyMs.some((b) => b.start < end && b.end > start)) {
+      result.add(index)
+    }
+  })
+
+  return result
+}
+
+function parseRRuleDate(value: string): string | null {
+  const dateTime = DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss'Z'", { zone: 'utc' })
+  if (dateTime.isValid) return dateTime.toISO()
+
+  // Só a data: inclui o dia inteiro (UTC)
+  const date = DateTime.fromFormat(value, 'yyyyMMdd', { zone: 'utc' })
+  if (date.isValid) return date.endOf('day').toISO()
+
+  return null
+}
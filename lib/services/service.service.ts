@@ -1,18 +1,48 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
 import {activityLogService} from "./activity-log.service"
+import {webhookService} from "./webhook.service"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
 
 export interface CreateServiceParams {
   companyId: string
   name: string
   durationMinutes: number
   price?: number | null
+  bufferBeforeMinutes?: number // preparação antes do atendimento (não faz parte do horário exibido)
+  bufferAfterMinutes?: number // limpeza/intervalo depois do atendimento
+  capacity?: number // vagas por sessão (1 = atendimento individual; maior que 1 = aula em grupo)
+  // Overrides da política de agendamento da company (null/omitido usa o valor da company)
+  minNoticeMinutes?: number | null
+  maxAdvanceDays?: number | null
+  cancellationCutoffMinutes?: number | null
+}
+
+export const SERVICE_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}],
+  name: [{column: "name", ascending: true}],
+  durationMinutes: [{column: "duration_minutes", ascending: true}],
+  price: [{column: "price", ascending: true, nullable: true}]
 }
 
 export interface UpdateServiceParams {
   name?: string
   durationMinutes?: number
   price?: number | null
+  bufferBeforeMinutes?: number
+  bufferAfterMinutes?: number
+  capacity?: number
+  minNoticeMinutes?: number | null
+  maxAdvanceDays?: number | null
+  cancellationCutoffMinutes?: number | null
 }
 
 export class ServiceService {
@@ -25,7 +55,13 @@ export class ServiceService {
         company_id: params.companyId,
         name: params.name,
         duration_minutes: params.durationMinutes,
-        price: params.price || null
+        price: params.price || null,
+        buffer_before_minutes: params.bufferBeforeMinutes ?? 0,
+        buffer_after_minutes: params.bufferAfterMinutes ?? 0,
+        capacity: params.capacity ?? 1,
+        min_notice_minutes: params.minNoticeMinutes ?? null,
+        max_advance_days: params.maxAdvanceDays ?? null,
+        cancellation_cutoff_minutes: params.cancellationCutoffMinutes ?? null
       })
       .select()
       .single()
@@ -56,17 +92,28 @@ export class ServiceService {
       companyId: params.companyId
     })
 
+    await webhookService.emit(params.companyId, "service.created", {service: data})
+
     return data
   }
 
-  async getAllServices(companyId: string) {
+  async listServices(companyId: string, params: PageParams = {}) {
     const supabase = await createServiceClient()
 
-    const {data, error} = await supabase
-      .from("services")
-      .select("*")
-      .eq("company_id", companyId)
-      .order("created_at", {ascending: false})
+    const sort = resolveSort(SERVICE_SORT_OPTIONS, params.sort, "-createdAt")
+    const limit = pageLimit(params.limit)
+
+    let query = supabase.from("services").select("*").eq("company_id", companyId)
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
 
     if (error) {
       logger.error({
@@ -77,7 +124,7 @@ export class ServiceService {
       throw new Error("Failed to get services")
     }
 
-    return data || []
+    return toPage(data || [], sort, limit)
   }
 
   async getServiceById(id: string, companyId: string) {
@@ -108,6 +155,14 @@ export class ServiceService {
     if (params.name !== undefined) updateData.name = params.name
     if (params.durationMinutes !== undefined) updateData.duration_minutes = params.durationMinutes
     if (params.price !== undefined) updateData.price = params.price
+    if (params.bufferBeforeMinutes !== undefined) updateData.buffer_before_minutes = params.bufferBeforeMinutes
+    if (params.bufferAfterMinutes !== undefined) updateData.buffer_after_minutes = params.bufferAfterMinutes
+    if (params.capacity !== undefined) updateData.capacity = params.capacity
+    if (params.minNoticeMinutes !== undefined) updateData.min_notice_minutes = params.minNoticeMinutes
+    if (params.maxAdvanceDays !== undefined) updateData.max_advance_days = params.maxAdvanceDays
+    if (params.cancellationCutoffMinutes !== undefined) {
+      updateData.cancellation_cutoff_minutes = params.cancellationCutoffMinutes
+    }
 
     const {data, error} = await supabase
       .from("services")
@@ -141,6 +196,8 @@ export class ServiceService {
       companyId
     })
 
+    await webhookService.emit(companyId, "service.updated", {service: data})
+
     return data
   }
 
@@ -148,7 +205,7 @@ export class ServiceService {
     const supabase = await createServiceClient()
 
     // Verificar se o service existe e pertence à company
-    await this.getServiceById(id, companyId)
+    const service = await this.getServiceById(id, companyId)
 
     const {error} = await supabase.from("services").delete().eq("id", id).eq("company_id", companyId)
 
@@ -174,6 +231,8 @@ export class ServiceService {
       serviceId: id,
       companyId
     })
+
+    await webhookService.emit(companyId, "service.deleted", {service})
   }
 }
 
@@ -0,0 +1,254 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {professionalService} from "./professional.service"
+import {slotService} from "./slot.service"
+import {diffSlotGrid} from "./slot-materialization.util"
+import {DateTime} from "luxon"
+
+export const DEFAULT_MATERIALIZATION_HORIZON_DAYS = 60
+export const MAX_MATERIALIZATION_HORIZON_DAYS = 180
+
+// Limite de linhas por insert/delete para não estourar o tamanho da requisição ao PostgREST
+const BATCH_SIZE = 500
+
+export interface MaterializeSlotsParams {
+  companyId: string
+  professionalId?: string
+  horizonDays?: number
+}
+
+export interface MaterializedProfessionalResult {
+  professionalId: string
+  created: number
+  removed: number
+}
+
+export interface MaterializeSlotsResult {
+  from: string
+  to: string
+  horizonDays: number
+  created: number
+  removed: number
+  professionals: MaterializedProfessionalResult[]
+}
+
+export class SlotMaterializationService {
+  /**
+   * Gera e persiste a grade de slots (service_id nulo) dos próximos `horizonDays` dias a partir das availabilities.
+   * Idempotente: rodar de novo só insere o que falta e remove slots livres que deixaram de existir na grade.
+   */
+  async materializeSlots(params: MaterializeSlotsParams): Promise<MaterializeSlotsResult> {
+    const horizonDays = params.horizonDays ?? DEFAULT_MATERIALIZATION_HORIZON_DAYS
+
+    if (!Number.isInteger(horizonDays) || horizonDays < 1 || horizonDays > MAX_MATERIALIZATION_HORIZON_DAYS) {
+      const err = new Error(`horizonDays must be an integer between 1 and ${MAX_MATERIALIZATION_HORIZON_DAYS}`)
+      ;(err as any).status = 400
+      throw err
+    }
+
+    const professionalIds = params.professionalId
+      ? [(await professionalService.getProfessionalById(params.professionalId, params.companyId)).id]
+      : (await professionalService.getAllProfessionals(params.companyId)).map((p) => p.id)
+
+    const now = DateTime.now().toUTC()
+    const from = now.toISO() as string
+    const to = now.plus({days: horizonDays}).toISO() as string
+
+    const results: MaterializedProfessionalResult[] = []
+    for (const professionalId of professionalIds) {
+      results.push(await this.materializeProfessional(params.companyId, professionalId, from, to))
+    }
+
+    const created = results.reduce((sum, r) => sum + r.created, 0)
+    const removed = results.reduce((sum, r) => sum + r.removed, 0)
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "slots_materialized",
+      resourceType: "slot",
+      metadata: {
+        professionalId: params.professionalId || null,
+        horizonDays,
+        created,
+        removed
+      }
+    })
+
+    logger.info({
+      message: "Slots materialized successfully",
+      companyId: params.companyId,
+      professionals: professionalIds.length,
+      horizonDays,
+      created,
+      removed
+    })
+
+    return {from, to, horizonDays, created, removed, professionals: results}
+  }
+
+  /**
+   * Reaplica a materialização depois de uma mudança de availability ou exceção.
+   * Só age se o profissional já tem slots materializados no futuro; falhas são logadas e não propagadas,
+   * pois a mudança de availability já foi persistida.
+   */
+  async refreshProfessionalSlots(professionalId: string) {
+    try {
+      const supabase = await createServiceClient()
+
+      const {data: professional} = await supabase
+        .from("professionals")
+        .select("id, company_id")
+        .eq("id", professionalId)
+        .single()
+
+      if (!professional) {
+        return null
+      }
+
+      const {data: lastSlot} = await supabase
+        .from("slots")
+        .select("start_time")
+        .eq("professional_id", professionalId)
+        .is("service_id", null)
+        .gte("start_time", DateTime.now().toUTC().toISO())
+        .order("start_time", {ascending: false})
+        .limit(1)
+        .maybeSingle()
+
+      if (!lastSlot) {
+        return null
+      }
+
+      // Mantém o horizonte que já estava materializado
+      const horizonDays = Math.min(
+        MAX_MATERIALIZATION_HORIZON_DAYS,
+        Math.max(1, Math.ceil(DateTime.fromISO(lastSlot.start_time, {zone: "utc"}).diffNow("days").days))
+      )
+
+      return await this.materializeSlots({
+        companyId: professional.company_id,
+        professionalId,
+        horizonDays
+      })
+    } catch (error) {
+      logger.error({
+        message: "Failed to refresh materialized slots",
+        error,
+        professionalId
+      })
+      return null
+    }
+  }
+
+  private async materializeProfessional(
+    companyId: string,
+    professionalId: string,
+    from: string,
+    to: string
+  ): Promise<MaterializedProfessionalResult> {
+    const supabase = await createServiceClient()
+
+    const generated = await slotService.generateSlotGrid({professionalId, companyId, from, to})
+
+    const {data: existing, error: existingError} = await supabase
+      .from("slots")
+      .select("id, start_time, is_available")
+      .eq("professional_id", professionalId)
+      .is("service_id", null)
+      .gte("start_time", from)
+      .lte("start_time", to)
+
+    if (existingError) {
+      logger.error({
+        message: "Failed to get materialized slots",
+        error: existingError,
+        professionalId,
+        companyId
+      })
+      throw new Error("Failed to materialize slots")
+    }
+
+    const {toInsert, staleIds} = diffSlotGrid(generated, existing || [])
+
+    for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
+      const batch = toInsert.slice(i, i + BATCH_SIZE).map((slot) => ({
+        professional_id: professionalId,
+        service_id: null,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        is_available: true
+      }))
+
+      // Execuções repetidas ou concorrentes podem já ter criado parte da grade: esses horários são ignorados
+      const {error} = await supabase
+        .from("slots")
+        .upsert(batch, {onConflict: "professional_id,service_id,start_time", ignoreDuplicates: true})
+
+      if (error) {
+        logger.error({
+          message: "Failed to insert materialized slots",
+          error,
+          professionalId,
+          companyId
+        })
+        throw new Error("Failed to materialize slots")
+      }
+    }
+
+    const removed = await this.removeStaleSlots(professionalId, staleIds)
+
+    logger.debug({
+      message: "Professional slots materialized",
+      professionalId,
+      generated: generated.length,
+      created: toInsert.length,
+      removed
+    })
+
+    return {professionalId, created: toInsert.length, removed}
+  }
+
+  /**
+   * Remove slots livres que saíram da grade. Slots referenciados por bookings (ex.: cancelados) são mantidos
+   * para não apagar o histórico em cascata.
+   */
+  private async removeStaleSlots(professionalId: string, staleIds: string[]) {
+    const supabase = await createServiceClient()
+    let removed = 0
+
+    for (let i = 0; i < staleIds.length; i += BATCH_SIZE) {
+      const batch = staleIds.slice(i, i + BATCH_SIZE)
+
+      const {data: referenced} = await supabase.from("bookings").select("slot_id").in("slot_id", batch)
+      const referencedIds = new Set((referenced || []).map((b) => b.slot_id))
+      const deletable = batch.filter((id) => !referencedIds.has(id))
+
+      if (deletable.length === 0) {
+        continue
+      }
+
+      const {error} = await supabase
+        .from("slots")
+        .delete()
+        .in("id", deletable)
+        .eq("professional_id", professionalId)
+        .eq("is_available", true)
+
+      if (error) {
+        logger.error({
+          message: "Failed to remove stale slots",
+          error,
+          professionalId
+        })
+        throw new Error("Failed to materialize slots")
+      }
+
+      removed += deletable.length
+    }
+
+    return removed
+  }
+}
+
+export const slotMaterializationService = new SlotMaterializationService()
@@ -0,0 +1,48 @@
+import { DateTime } from 'luxon'
+
+export interface GridSlot {
+  start_time: string
+  end_time: string
+}
+
+export interface ExistingGridSlot {
+  id: string
+  start_time: string
+  is_available: boolean
+}
+
+export interface SlotGridDiff {
+  toInsert: GridSlot[]
+  staleIds: string[] // slots livres que não fazem mais parte da grade
+}
+
+/**
+ * Chave de comparação independente do formato (Postgres devolve +00:00, o luxon gera .000Z)
+ */
+function instantKey(iso: string): number {
+  return DateTime.fromISO(iso, { zone: 'utc' }).toMillis()
+}
+
+/**
+ * Compara a grade gerada a partir das availabilities com os slots já persistidos.
+ * Slots ocupados nunca entram em `staleIds`, mesmo que a availability tenha mudado.
+ */
+export function diffSlotGrid(generated: GridSlot[], existing: ExistingGridSlot[]): SlotGridDiff {
+  const existingKeys = new Set(existing.map(s => instantKey(s.start_time)))
+  const generatedKeys = new Set(generated.map(s => instantKey(s.start_time)))
+
+  const toInsert: GridSlot[] = []
+  for (const slot of generated) {
+    const key = instantKey(slot.start_time)
+    if (!existingKeys.has(key)) {
+      toInsert.push(slot)
+      existingKeys.add(key)
+    }
+  }
+
+  const staleIds = existing
+    .filter(s => s.is_available && !generatedKeys.has(instantKey(s.start_time)))
+    .map(s => s.id)
+
+  return { toInsert, staleIds }
+}
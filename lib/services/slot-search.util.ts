@@ -0,0 +1,110 @@
+export const SLOT_SEARCH_MODES = ['any', 'each'] as const
+
+/**
+ * any: um horário por início, com o primeiro profissional livre (e todos os livres em professional_ids)
+ * each: cada janela de cada profissional, podendo repetir o mesmo início para profissionais diferentes
+ */
+export type SlotSearchMode = (typeof SLOT_SEARCH_MODES)[number]
+
+export const DEFAULT_SLOT_SEARCH_LIMIT = 10
+export const MAX_SLOT_SEARCH_LIMIT = 100
+// Cada profissional gera as próprias janelas, então o período da busca é limitado
+export const MAX_SLOT_SEARCH_DAYS = 31
+
+export interface SearchProfessional {
+  id: string
+  name: string
+}
+
+export interface ProfessionalWindow {
+  start_time: string
+  end_time: string
+  label?: string
+  slot_ids: string[]
+  remaining_spots?: number // vagas restantes (serviços em grupo); no modo any, as do primeiro profissional
+}
+
+export interface ProfessionalWindows {
+  professional: SearchProfessional
+  timezone: string
+  windows: ProfessionalWindow[]
+}
+
+export interface SearchWindow extends ProfessionalWindow {
+  timezone: string
+  professional: SearchProfessional
+  professional_ids: string[]
+}
+
+/**
+ * Junta as janelas dos profissionais e retorna as `limit` mais cedo.
+ * Empates no mesmo início são resolvidos pelo nome do profissional (e id), para uma ordem estável.
+ */
+export function mergeProfessionalWindows(
+  entries: ProfessionalWindows[],
+  mode: SlotSearchMode,
+  limit: number
+): SearchWindow[] {
+  const all = entries
+    .flatMap(({ professional, timezone, windows }) =>
+      windows.map(window => ({ ...window, timezone, professional, professional_ids: [professional.id] }))
+    )
+    .sort(
+      (a, b) =>
+        Date.parse(a.start_time) - Date.parse(b.start_time) ||
+        a.professional.name.localeCompare(b.professional.name) ||
+        a.professional.id.localeCompare(b.professional.id)
+    )
+
+  if (mode === 'each') {
+    return all.slice(0, limit)
+  }
+
+  const byStart = new Map<number, SearchWindow>()
+  for (const window of all) {
+    const start = Date.parse(window.start_time)
+    const existing = byStart.get(start)
+
+    if (existing) {
+      existing.professional_ids.push(window.professional.id)
+      continue
+    }
+
+    if (byStart.size < limit) {
+      byStart.set(start, { ...window, professional_ids: [...window.professional_ids] })
+    }
+  }
+
+  return Array.from(byStart.values())
+}
+
+export const DEFAULT_NEXT_AVAILABLE_COUNT = 1
+export const MAX_NEXT_AVAILABLE_COUNT = 50
+export const DEFAULT_NEXT_AVAILABLE_HORIZON_DAYS = 60
+export const MAX_NEXT_AVAILABLE_HORIZON_DAYS = 90
+// A busca do próximo horário avança em blocos para parar assim que encontrar o suficiente
+export const NEXT_AVAILABLE_CHUNK_DAYS = 7
+
+export interface SearchRange {
+  from: string
+  to: string
+}
+
+/**
+ * Divide o horizonte [from, from + horizonDays] em blocos consecutivos de chunkDays (o último pode ser menor).
+ */
+export function forwardSearchRanges(from: string, horizonDays: number, chunkDays = NEXT_AVAILABLE_CHUNK_DAYS): SearchRange[] {
+  const dayMs = 24 * 60 * 60 * 1000
+  const start = Date.parse(from)
+  const end = start + horizonDays * dayMs
+  const ranges: SearchRange[] = []
+
+  for (let cursor = start; cursor < end; cursor += chunkDays * dayMs) {
+    ranges.push({
+      from: new Date(cursor).toISOString(),
+      to: new Date(Math.min(cursor + chunkDays * dayMs, end)).toISOString()
+    })
+  }
+
+  return ranges
+}
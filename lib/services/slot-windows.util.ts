@@ -1,4 +1,5 @@
 import { DateTime } from 'luxon'
+import type { TimeInterval } from './availability-intervals.util'
 
 export interface BaseSlot {
   id: string
@@ -22,13 +23,16 @@ export interface BuildParams {
   closingTime: string // HH:mm
   timezone: string
   minLeadMinutes?: number
+  bufferBeforeMinutes?: number
+  bufferAfterMinutes?: number
 }
 
-export function buildServiceWindowsFromBaseSlots({ baseSlots, durationMinutes, slotStepMinutes, now, closingTime, timezone, minLeadMinutes }: BuildParams): Window[] {
+export function buildServiceWindowsFromBaseSlots({ baseSlots, durationMinutes, slotStepMinutes, now, closingTime, timezone, minLeadMinutes, bufferBeforeMinutes = 0, bufferAfterMinutes = 0 }: BuildParams): Window[] {
   // Sort baseSlots by start_time asc
   const slots = [...baseSlots].sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
 
-  const needed = Math.ceil(durationMinutes / slotStepMinutes)
+  // Os buffers ocupam slots da grade, mas não entram no horário da janela
+  const needed = Math.ceil((bufferBeforeMinutes + durationMinutes + bufferAfterMinutes) / slotStepMinutes)
   const windows: Window[] = []
 
   const nowDt = DateTime.fromISO(now, { zone: timezone })
@@ -101,8 +105,9 @@ export function buildServiceWindowsFromBaseSlots({ baseSlots, durationMinutes, s
       continue
     }
 
-    const windowStart = DateTime.fromISO(group[0].start_time, { zone: 'utc' }).setZone(timezone)
+    const windowStart = DateTime.fromISO(group[0].start_time, { zone: 'utc' }).setZone(timezone).plus({ minutes: bufferBeforeMinutes })
     const windowEnd = windowStart.plus({ minutes: durationMinutes })
+    const blockEnd = windowEnd.plus({ minutes: bufferAfterMinutes })
 
     // lead time: start must be >= now + minLead
     // Se for no mesmo dia, arredondar para o próximo múltiplo de slotStep
@@ -144,9 +149,9 @@ export function buildServiceWindowsFromBaseSlots({ baseSlots, durationMinutes, s
     const [ch, cm] = closingTime.split(':').map(Number)
     const closeDt = windowStart.set({ hour: ch, minute: cm, second: 0, millisecond: 0 })
     debugEntry.timeChecks.closingTime = closeDt.toFormat('yyyy-MM-dd HH:mm')
-    debugEntry.timeChecks.passedClosingCheck = windowEnd <= closeDt
+    debugEntry.timeChecks.passedClosingCheck = blockEnd <= closeDt
     
-    if (windowEnd > closeDt) {
+    if (blockEnd > closeDt) {
       debugEntry.rejected = "Window end after closing time"
       debugInfo.push(debugEntry)
       continue
@@ -173,3 +178,122 @@ export function buildServiceWindowsFromBaseSlots({ baseSlots, durationMinutes, s
 
   return windows
 }
+
+export interface DayRules {
+  intervals: TimeInterval[] // minutos desde a meia-noite, horário local
+  closingMinutes: number
+}
+
+export interface OccupiedRange {
+  start_time: string // ISO
+  end_time: string // ISO
+}
+
+export interface IntervalWindowParams {
+  from: string // ISO
+  to: string // ISO
+  timezone: string
+  durationMinutes: number
+  now: string // ISO
+  minLeadMinutes?: number
+  bufferBeforeMinutes?: number
+  bufferAfterMinutes?: number
+  occupiedStartTimes?: Set<string>
+  occupiedRanges?: OccupiedRange[] // faixas já bloqueadas na agenda (incluindo buffers de outros bookings)
+  resolveDay: (localDate: DateTime) => DayRules
+}
+
+/**
+ * Dias locais (início do dia no timezone) entre `from` e `to`, inclusive
+ */
+export function eachLocalDay(from: string, to: string, timezone: string): DateTime[] {
+  const endDate = DateTime.fromISO(to, { zone: 'utc' }).setZone(timezone).startOf('day')
+  const days: DateTime[] = []
+
+  let currentDate = DateTime.fromISO(from, { zone: 'utc' }).setZone(timezone).startOf('day')
+  while (currentDate <= endDate) {
+    days.push(currentDate)
+    currentDate = currentDate.plus({ days: 1 })
+  }
+
+  return days
+}
+
+/**
+ * Horário local do dia a partir de minutos desde a meia-noite.
+ * Horários inexistentes (gap de horário de verão) são empurrados para frente pelo luxon.
+ */
+export function atLocalMinutes(date: DateTime, minutes: number): DateTime {
+  return date.set({ hour: Math.floor(minutes / 60), minute: minutes % 60, second: 0, millisecond: 0 })
+}
+
+/**
+ * Gera janelas de serviço (sem sobreposição) a partir dos intervalos de trabalho de cada dia local.
+ * Cada janela, com os buffers antes e depois, precisa caber no intervalo e terminar antes do horário
+ * de fechamento do dia. A janela retornada é só o atendimento; os buffers ficam como folga entre janelas.
+ */
+export function buildServiceWindowsFromIntervals({ from, to, timezone, durationMinutes, now, minLeadMinutes, bufferBeforeMinutes = 0, bufferAfterMinutes = 0, occupiedStartTimes, occupiedRanges, resolveDay }: IntervalWindowParams): Window[] {
+  const fromUtc = DateTime.fromISO(from, { zone: 'utc' })
+  const toUtc = DateTime.fromISO(to, { zone: 'utc' })
+  const nowWithLead = DateTime.fromISO(now, { zone: 'utc' }).setZone(timezone).plus({ minutes: minLeadMinutes || 0 })
+  const occupied = (occupiedRanges || []).map(r => ({ start: Date.parse(r.start_time), end: Date.parse(r.end_time) }))
+  const windows: Window[] = []
+
+  for (const currentDate of eachLocalDay(from, to, timezone)) {
+    const { intervals, closingMinutes } = resolveDay(currentDate)
+    const dayClosing = atLocalMinutes(currentDate, closingMinutes)
+
+    for (const interval of intervals) {
+      const dayStart = atLocalMinutes(currentDate, interval.start)
+      const dayEnd = atLocalMinutes(currentDate, interval.end)
+
+      // Gerar slots diretamente com a duração do serviço
+      let slotStart = dayStart.plus({ minutes: bufferBeforeMinutes })
+
+      while (slotStart < dayEnd) {
+        const slotEnd = slotStart.plus({ minutes: durationMinutes })
+        const blockStart = slotStart.minus({ minutes: bufferBeforeMinutes })
+        const blockEnd = slotEnd.plus({ minutes: bufferAfterMinutes })
+
+        // Verificar se o slot (com o buffer depois) termina antes do fim do intervalo (ex.: início do almoço)
+        // e antes do horário de fechamento
+        if (blockEnd > dayEnd || blockEnd > dayClosing) {
+          break
+        }
+
+        // Verificar se o slot está dentro do intervalo solicitado
+        const slotStartUtc = slotStart.toUTC()
+        if (slotStartUtc >= fromUtc && slotStartUtc <= toUtc) {
+          // Verificar se não está no passado (com lead time)
+          // Se for no mesmo dia, verificar se está no futuro com arredondamento
+          const isFuture = slotStart.hasSame(nowWithLead, 'day')
+            ? slotStart >= nowWithLead
+            : slotStart > nowWithLead
+
+          if (isFuture) {
+            const slotStartIso = slotStartUtc.toISO()
+            const slotEndIso = slotEnd.toUTC().toISO()
+
+            // Verificar se não está ocupado: nem o início nem a faixa com buffers podem cruzar outra reserva
+            const overlapsOccupied = occupied.some(
+              r => r.start < blockEnd.toMillis() && r.end > blockStart.toMillis()
+            )
+
+            if (slotStartIso && slotEndIso && !occupiedStartTimes?.has(slotStartIso) && !overlapsOccupied) {
+              windows.push({
+                start_time: slotStartIso,
+                end_time: slotEndIso,
+                slot_ids: [`virtual-${slotStartIso}`]
+              })
+            }
+          }
+        }
+
+        // Avançar pela duração do serviço e pelos buffers (sem sobreposição)
+        slotStart = blockEnd.plus({ minutes: bufferBeforeMinutes })
+      }
+    }
+  }
+
+  return windows
+}
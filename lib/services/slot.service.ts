@@ -1,8 +1,25 @@
 import {createServiceClient} from "@/lib/supabase/server"
 import {logger} from "@/lib/logger"
-import { serviceService } from "./service.service"
-import { buildServiceWindowsFromBaseSlots } from "./slot-windows.util"
+import { professionalServicesService } from "./professional-services.service"
+import { atLocalMinutes, buildServiceWindowsFromIntervals, type OccupiedRange } from "./slot-windows.util"
 import { availabilityService } from "./availability.service"
+import { availabilityExceptionService } from "./availability-exception.service"
+import { applyAvailabilityExceptions, fitsWithinIntervals, mergeIntervals, timeToMinutes, type TimeInterval } from "./availability-intervals.util"
+import { resolveTimezone } from "./timezone.util"
+import { groupSessions, withRemainingSpots, type GroupSession } from "./group-session.util"
+import { heldRanges, heldSessionBookings } from "./booking-hold.util"
+import { companyService } from "./company.service"
+import { latestBookableStart } from "./booking-policy.util"
+import { ACTIVE_BOOKING_STATUSES } from "./booking-status.util"
+import {
+  DEFAULT_NEXT_AVAILABLE_COUNT,
+  DEFAULT_NEXT_AVAILABLE_HORIZON_DAYS,
+  DEFAULT_SLOT_SEARCH_LIMIT,
+  forwardSearchRanges,
+  mergeProfessionalWindows,
+  type ProfessionalWindows,
+  type SlotSearchMode
+} from "./slot-search.util"
 import { DateTime } from 'luxon'
 
 export interface GetSlotsParams {
@@ -11,6 +28,7 @@ export interface GetSlotsParams {
   from: string // ISO date string
   to: string // ISO date string
   companyId: string
+  timezone?: string // Sobrepõe o timezone do profissional/company
 }
 
 export interface Slot {
@@ -34,9 +52,41 @@ export interface ServiceWindowParams {
   timezone?: string
 }
 
+export interface TimeRangeParams {
+  professionalId: string
+  companyId: string
+  start: string // ISO
+  end: string // ISO
+}
+
 export interface ServiceWindowsResult {
   service: any
-  slots: Array<{ start_time: string; end_time: string; label?: string; slot_ids: string[] }>
+  timezone: string
+  slots: Array<{ start_time: string; end_time: string; label?: string; slot_ids: string[]; remaining_spots: number }>
+}
+
+export interface SearchServiceWindowsParams {
+  companyId: string
+  serviceId: string
+  from: string
+  to: string
+  professionalId?: string // restringe a busca a um profissional
+  mode?: SlotSearchMode
+  limit?: number
+  slotStepMinutes?: number
+  minLeadMinutes?: number
+  timezone?: string
+}
+
+export interface NextAvailableParams {
+  professionalId: string
+  serviceId: string
+  companyId: string
+  count?: number
+  horizonDays?: number // até quantos dias à frente procurar
+  slotStepMinutes?: number
+  minLeadMinutes?: number
+  timezone?: string
 }
 
 export class SlotService {
@@ -46,7 +96,7 @@ export class SlotService {
     // Verificar se o professional pertence à company
     const {data: professional} = await supabase
       .from("professionals")
-      .select("id")
+      .select("id, timezone")
       .eq("id", params.professionalId)
       .eq("company_id", params.companyId)
       .single()
@@ -97,16 +147,105 @@ export class SlotService {
       professionalId: params.professionalId
     })
 
-    return await this.generateSlotsFromAvailabilities(params)
+    const timezone = await this.resolveTimezone(params.companyId, professional.timezone, params.timezone)
+
+    return await this.generateSlotsFromAvailabilities(params, timezone)
   }
 
-  private async generateSlotsFromAvailabilities(params: GetSlotsParams): Promise<Slot[]> {
+  /**
+   * Grade de slots (passo de 15 minutos, sem serviço) calculada a partir das availabilities e exceções,
+   * sem consultar a tabela slots. Usada pela materialização.
+   */
+  async generateSlotGrid(params: GetSlotsParams): Promise<Slot[]> {
+    const supabase = await createServiceClient()
+
+    const {data: professional} = await supabase
+      .from("professionals")
+      .select("id, timezone")
+      .eq("id", params.professionalId)
+      .eq("company_id", params.companyId)
+      .single()
+
+    if (!professional) {
+      throw new Error("Professional not found or doesn't belong to company")
+    }
+
+    const timezone = await this.resolveTimezone(params.companyId, professional.timezone, params.timezone)
+
+    return await this.generateSlotsFromAvailabilities({...params, serviceId: undefined}, timezone)
+  }
+
+  /**
+   * Verifica se a faixa [start, end) cabe inteira em um intervalo de trabalho do profissional
+   * (availabilities semanais + exceções da data), no timezone do profissional/company
+   */
+  async isWithinAvailability(params: TimeRangeParams): Promise<boolean> {
+    const supabase = await createServiceClient()
+
+    const {data: professional} = await supabase
+      .from("professionals")
+      .select("id, timezone")
+      .eq("id", params.professionalId)
+      .eq("company_id", params.companyId)
+      .single()
+
+    if (!professional) {
+      throw new Error("Professional not found")
+    }
+
+    const timezone = await this.resolveTimezone(params.companyId, professional.timezone)
+    const startDt = DateTime.fromISO(params.start, { zone: 'utc' }).setZone(timezone)
+    const endDt = DateTime.fromISO(params.end, { zone: 'utc' }).setZone(timezone)
+    const day = startDt.startOf('day')
+
+    // Atendimentos não atravessam a meia-noite; terminar exatamente às 00:00 do dia seguinte é permitido
+    const endMinutes = endDt.hasSame(startDt, 'day')
+      ? endDt.hour * 60 + endDt.minute
+      : endDt.toMillis() === day.plus({ days: 1 }).toMillis() ? 24 * 60 : -1
+
+    const { availabilities, exceptionsByDate } = await this.loadAvailabilityRules(
+      params.companyId,
+      params.professionalId,
+      day,
+      day
+    )
+
+    const intervals = this.getDayIntervals(day, availabilities, exceptionsByDate)
+
+    return fitsWithinIntervals(intervals, { start: startDt.hour * 60 + startDt.minute, end: endMinutes })
+  }
+
+  /**
+   * Timezone da agenda do profissional (profissional → company → padrão)
+   */
+  async getProfessionalTimezone(companyId: string, professionalId: string): Promise<string> {
+    const supabase = await createServiceClient()
+
+    const {data: professional} = await supabase
+      .from("professionals")
+      .select("id, timezone")
+      .eq("id", professionalId)
+      .eq("company_id", companyId)
+      .single()
+
+    if (!professional) {
+      throw new Error("Professional not found")
+    }
+
+    return await this.resolveTimezone(companyId, professional.timezone)
+  }
+
+  private async generateSlotsFromAvailabilities(params: GetSlotsParams, timezone: string): Promise<Slot[]> {
     const slotStepMinutes = 15 // Default slot step
+    const fromDt = DateTime.fromISO(params.from, { zone: 'utc' }).setZone(timezone)
+    const toDt = DateTime.fromISO(params.to, { zone: 'utc' }).setZone(timezone)
 
-    // Buscar availabilities do profissional
-    const availabilities = await availabilityService.getAllAvailabilities(
+    // Buscar availabilities e exceções por data do profissional
+    const { availabilities, exceptionsByDate } = await this.loadAvailabilityRules(
       params.companyId,
-      params.professionalId
+      params.professionalId,
+      fromDt,
+      toDt
     )
 
     logger.debug({
@@ -120,7 +259,7 @@ export class SlotService {
       professionalId: params.professionalId
     })
 
-    if (!availabilities || availabilities.length === 0) {
+    if (availabilities.length === 0 && exceptionsByDate.size === 0) {
       logger.debug({
         message: "No availabilities found for professional",
         professionalId: params.professionalId
@@ -128,9 +267,6 @@ export class SlotService {
       return []
     }
 
-    const timezone = 'America/Sao_Paulo' // Default timezone
-    const fromDt = DateTime.fromISO(params.from, { zone: 'utc' }).setZone(timezone)
-    const toDt = DateTime.fromISO(params.to, { zone: 'utc' }).setZone(timezone)
     const generatedSlots: Slot[] = []
 
     logger.debug({
@@ -161,56 +297,54 @@ export class SlotService {
         dayName: currentDate.toFormat('cccc')
       })
       
-      // Encontrar availability para este dia da semana
-      const availability = availabilities.find(av => av.day_of_week === dayOfWeek)
+      // Intervalos de trabalho do dia (availability semanal + exceções da data)
+      const intervals = this.getDayIntervals(currentDate, availabilities, exceptionsByDate)
       
-      if (availability) {
-        const [startHour, startMinute] = availability.start_time.split(':').map(Number)
-        const [endHour, endMinute] = availability.end_time.split(':').map(Number)
-        
-        const dayStart = currentDate.set({ hour: startHour, minute: startMinute, second: 0, millisecond: 0 })
-        const dayEnd = currentDate.set({ hour: endHour, minute: endMinute, second: 0, millisecond: 0 })
-        
-        logger.debug({
-          message: "Found availability for day",
-          date: currentDate.toFormat('yyyy-MM-dd'),
-          dayOfWeek,
-          availabilityStart: availability.start_time,
-          availabilityEnd: availability.end_time,
-          dayStart: dayStart.toFormat('yyyy-MM-dd HH:mm'),
-          dayEnd: dayEnd.toFormat('yyyy-MM-dd HH:mm')
-        })
-        
-        // Gerar slots de slotStepMinutes em slotStepMinutes
-        let slotStart = dayStart
+      if (intervals.length > 0) {
         let slotCount = 0
-        while (slotStart < dayEnd) {
-          const slotEnd = slotStart.plus({ minutes: slotStepMinutes })
-          
-          // Verificar se o slot está dentro do intervalo solicitado (usando UTC para comparação)
-          const slotStartUtc = slotStart.toUTC()
-          const fromDtUtc = fromDt.toUTC()
-          const toDtUtc = toDt.toUTC()
-          
-          if (slotStartUtc >= fromDtUtc && slotStartUtc <= toDtUtc) {
-            const slotStartIso = slotStartUtc.toISO()
-            const slotEndIso = slotEnd.toUTC().toISO()
-            
-            if (slotStartIso && slotEndIso) {
-              // Criar slot virtual (não salvo na base)
-              generatedSlots.push({
-                id: `virtual-${slotStartIso}`, // ID virtual para slots gerados
-                professional_id: params.professionalId,
-                service_id: params.serviceId || null,
-                start_time: slotStartIso,
-                end_time: slotEndIso,
-                is_available: true
-              })
-              slotCount++
+
+        for (const interval of intervals) {
+          const dayStart = atLocalMinutes(currentDate, interval.start)
+          const dayEnd = atLocalMinutes(currentDate, interval.end)
+
+          logger.debug({
+            message: "Found availability for day",
+            date: currentDate.toFormat('yyyy-MM-dd'),
+            dayOfWeek,
+            dayStart: dayStart.toFormat('yyyy-MM-dd HH:mm'),
+            dayEnd: dayEnd.toFormat('yyyy-MM-dd HH:mm')
+          })
+
+          // Gerar slots de slotStepMinutes em slotStepMinutes
+          let slotStart = dayStart
+          while (slotStart < dayEnd) {
+            const slotEnd = slotStart.plus({ minutes: slotStepMinutes })
+
+            // Verificar se o slot está dentro do intervalo solicitado (usando UTC para comparação)
+            const slotStartUtc = slotStart.toUTC()
+            const fromDtUtc = fromDt.toUTC()
+            const toDtUtc = toDt.toUTC()
+
+            if (slotStartUtc >= fromDtUtc && slotStartUtc <= toDtUtc) {
+              const slotStartIso = slotStartUtc.toISO()
+              const slotEndIso = slotEnd.toUTC().toISO()
+
+              if (slotStartIso && slotEndIso) {
+                // Criar slot virtual (não salvo na base)
+                generatedSlots.push({
+                  id: `virtual-${slotStartIso}`, // ID virtual para slots gerados
+                  professional_id: params.professionalId,
+                  service_id: params.serviceId || null,
+                  start_time: slotStartIso,
+                  end_time: slotEndIso,
+                  is_available: true
+                })
+                slotCount++
+              }
             }
+
+            slotStart = slotEnd
           }
-          
-          slotStart = slotEnd
         }
         
         logger.debug({
@@ -252,99 +386,114 @@ export class SlotService {
     timezone: string
     closingTime: string
     occupiedStartTimes: Set<string>
+    occupiedRanges: OccupiedRange[]
     minLeadMinutes: number
+    bufferBeforeMinutes: number
+    bufferAfterMinutes: number
   }): Promise<Array<{ start_time: string; end_time: string; slot_ids: string[] }>> {
-    // Buscar availabilities do profissional
-    const availabilities = await availabilityService.getAllAvailabilities(
+    const fromDt = DateTime.fromISO(params.from, { zone: 'utc' }).setZone(params.timezone)
+    const toDt = DateTime.fromISO(params.to, { zone: 'utc' }).setZone(params.timezone)
+
+    // Buscar availabilities e exceções por data do profissional
+    const { availabilities, exceptionsByDate } = await this.loadAvailabilityRules(
       params.companyId,
-      params.professionalId
+      params.professionalId,
+      fromDt,
+      toDt
     )
 
-    if (!availabilities || availabilities.length === 0) {
+    if (availabilities.length === 0 && exceptionsByDate.size === 0) {
       return []
     }
 
-    const fromDt = DateTime.fromISO(params.from, { zone: 'utc' }).setZone(params.timezone)
-    const toDt = DateTime.fromISO(params.to, { zone: 'utc' }).setZone(params.timezone)
-    const nowDt = DateTime.now().setZone(params.timezone)
-    const nowWithLead = nowDt.plus({ minutes: params.minLeadMinutes })
-    
-    const windows: Array<{ start_time: string; end_time: string; slot_ids: string[] }> = []
-    const [closingHour, closingMinute] = params.closingTime.split(':').map(Number)
-
-    // Gerar slots para cada dia no intervalo
-    let currentDate = fromDt.startOf('day')
-    const endDate = toDt.startOf('day')
+    const closingMinutes = timeToMinutes(params.closingTime)
 
-    while (currentDate <= endDate) {
-      // Luxon weekday: 1=Monday, 2=Tuesday, ..., 7=Sunday
-      // Sistema: 0=Sunday, 1=Monday, 2=Tuesday, ..., 6=Saturday
-      const luxonWeekday = currentDate.weekday
-      const dayOfWeek = luxonWeekday === 7 ? 0 : luxonWeekday
-      
-      // Encontrar availability para este dia da semana
-      const availability = availabilities.find(av => av.day_of_week === dayOfWeek)
-      
-      if (availability) {
-        const [startHour, startMinute] = availability.start_time.split(':').map(Number)
-        const [endHour, endMinute] = availability.end_time.split(':').map(Number)
-        
-        const dayStart = currentDate.set({ hour: startHour, minute: startMinute, second: 0, millisecond: 0 })
-        const dayEnd = currentDate.set({ hour: endHour, minute: endMinute, second: 0, millisecond: 0 })
-        const dayClosing = currentDate.set({ hour: closingHour, minute: closingMinute, second: 0, millisecond: 0 })
-        
-        // Gerar slots diretamente com a duração do serviço
-        let slotStart = dayStart
-        
-        while (slotStart < dayEnd) {
-          const slotEnd = slotStart.plus({ minutes: params.duration })
-          
-          // Verificar se o slot termina antes do horário de fechamento
-          if (slotEnd > dayClosing) {
-            break
-          }
-          
-          // Verificar se o slot está dentro do intervalo solicitado
-          const slotStartUtc = slotStart.toUTC()
-          if (slotStartUtc >= fromDt.toUTC() && slotStartUtc <= toDt.toUTC()) {
-            // Verificar se não está no passado (com lead time)
-            // Se for no mesmo dia, verificar se está no futuro com arredondamento
-            let isFuture = true
-            
-            if (slotStart.hasSame(nowWithLead, 'day')) {
-              // Mesmo dia: verificar se está no futuro
-              isFuture = slotStart >= nowWithLead
-            } else {
-              // Dia diferente: verificar se é futuro
-              isFuture = slotStart > nowWithLead
-            }
-            
-            if (isFuture) {
-              const slotStartIso = slotStartUtc.toISO()
-              
-              // Verificar se não está ocupado
-              if (slotStartIso && !params.occupiedStartTimes.has(slotStartIso)) {
-                const slotEndIso = slotEnd.toUTC().toISO()
-                if (slotEndIso) {
-                  windows.push({
-                    start_time: slotStartIso,
-                    end_time: slotEndIso,
-                    slot_ids: [`virtual-${slotStartIso}`]
-                  })
-                }
-              }
-            }
-          }
-          
-          // Avançar pela duração do serviço (sem sobreposição)
-          slotStart = slotEnd
+    return buildServiceWindowsFromIntervals({
+      from: params.from,
+      to: params.to,
+      timezone: params.timezone,
+      durationMinutes: params.duration,
+      now: DateTime.now().toUTC().toISO() as string,
+      minLeadMinutes: params.minLeadMinutes,
+      bufferBeforeMinutes: params.bufferBeforeMinutes,
+      bufferAfterMinutes: params.bufferAfterMinutes,
+      occupiedStartTimes: params.occupiedStartTimes,
+      occupiedRanges: params.occupiedRanges,
+      resolveDay: (currentDate) => {
+        // Intervalos de trabalho do dia (availabilities semanais + exceções da data)
+        const intervals = this.getDayIntervals(currentDate, availabilities, exceptionsByDate)
+
+        // Horário especial aberto por exceção prevalece sobre o horário de fechamento padrão
+        const openedByException = (exceptionsByDate.get(currentDate.toFormat('yyyy-MM-dd')) || [])
+          .some(e => e.type === 'available')
+
+        return {
+          intervals,
+          closingMinutes: openedByException
+            ? Math.max(closingMinutes, ...intervals.map(i => i.end))
+            : closingMinutes
         }
       }
-      
-      currentDate = currentDate.plus({ days: 1 })
+    })
+  }
+
+  /**
+   * Busca availabilities semanais e exceções por data (agrupadas por YYYY-MM-DD local) do profissional
+   */
+  private async loadAvailabilityRules(companyId: string, professionalId: string, fromDt: DateTime, toDt: DateTime) {
+    const [availabilities, exceptions] = await Promise.all([
+      availabilityService.getAllAvailabilities(companyId, professionalId),
+      availabilityExceptionService.getExceptions(companyId, professionalId, {
+        from: fromDt.toFormat('yyyy-MM-dd'),
+        to: toDt.toFormat('yyyy-MM-dd')
+      })
+    ])
+
+    const exceptionsByDate = new Map<string, any[]>()
+    for (const exception of exceptions) {
+      const list = exceptionsByDate.get(exception.date) || []
+      list.push(exception)
+      exceptionsByDate.set(exception.date, list)
+    }
+
+    return { availabilities: availabilities || [], exceptionsByDate }
+  }
+
+  /**
+   * Intervalos de trabalho de um dia: availabilities do dia da semana com as exceções da data aplicadas
+   */
+  private getDayIntervals(date: DateTime, availabilities: any[], exceptionsByDate: Map<string, any[]>): TimeInterval[] {
+    // Luxon weekday: 1=Monday, 2=Tuesday, ..., 7=Sunday
+    // Sistema: 0=Sunday, 1=Monday, 2=Tuesday, ..., 6=Saturday
+    const dayOfWeek = date.weekday === 7 ? 0 : date.weekday
+
+    // Todos os intervalos deste dia da semana (ex.: 08:00–12:00 e 14:00–18:00)
+    const weekly: TimeInterval[] = mergeIntervals(
+      availabilities
+        .filter(av => av.day_of_week === dayOfWeek)
+        .map(av => ({ start: timeToMinutes(av.start_time), end: timeToMinutes(av.end_time) }))
+    )
+
+    const exceptions = exceptionsByDate.get(date.toFormat('yyyy-MM-dd')) || []
+    return applyAvailabilityExceptions(weekly, exceptions)
+  }
+
+  /**
+   * Timezone usado para montar e rotular as janelas: override explícito → profissional → company → padrão
+   */
+  private async resolveTimezone(companyId: string, professionalTimezone?: string | null, override?: string) {
+    if (override) {
+      return resolveTimezone(override)
     }
 
-    return windows
+    if (professionalTimezone) {
+      return resolveTimezone(professionalTimezone)
+    }
+
+    const supabase = await createServiceClient()
+    const {data: company} = await supabase.from("companies").select("timezone").eq("id", companyId).single()
+
+    return resolveTimezone(company?.timezone)
   }
 
   async getServiceWindows(params: ServiceWindowParams): Promise<ServiceWindowsResult> {
@@ -353,7 +502,7 @@ export class SlotService {
     // verify professional
     const {data: professional} = await supabase
       .from("professionals")
-      .select("id")
+      .select("id, timezone")
       .eq("id", params.professionalId)
       .eq("company_id", params.companyId)
       .single()
@@ -362,10 +511,15 @@ export class SlotService {
       throw new Error("Professional not found or doesn't belong to company")
     }
 
-    // fetch service (will throw if not found)
-    const service = await serviceService.getServiceById(params.serviceId, params.companyId)
+    // Serviço como oferecido pelo profissional (lança se não existe ou não é oferecido);
+    // a janela usa a duração do profissional quando definida
+    const service = await professionalServicesService.getOfferedService(
+      params.companyId,
+      params.professionalId,
+      params.serviceId
+    )
 
-    const duration = (service as any).duration_minutes
+    const duration = service.duration_minutes
     if (duration === null || duration === undefined) {
       const err = new Error("Service duration missing")
       ;(err as any).status = 422
@@ -373,7 +527,20 @@ export class SlotService {
     }
 
     const slotStep = params.slotStepMinutes || 15
-    const timezone = params.timezone || 'America/Sao_Paulo'
+    const timezone = await this.resolveTimezone(params.companyId, professional.timezone, params.timezone)
+
+    // Política de agendamento da company/serviço: a antecedência mínima e a janela máxima valem por padrão,
+    // e minLeadMinutes da query só pode ser mais restritivo
+    const policy = await companyService.getBookingPolicy(params.companyId, service)
+    const minLeadMinutes = Math.max(params.minLeadMinutes || 0, policy.minNoticeMinutes)
+    const latestStart = latestBookableStart(policy, new Date().toISOString())
+    if (latestStart && Date.parse(params.to) > Date.parse(latestStart)) {
+      params = {...params, to: latestStart}
+    }
+
+    if (Date.parse(params.from) > Date.parse(params.to)) {
+      return {service, timezone, slots: []}
+    }
     
     // Se closingTime não foi fornecido, buscar das availabilities
     let closingTime: string | undefined = params.closingTime
@@ -418,19 +585,35 @@ export class SlotService {
       to: params.to
     })
 
-    // Buscar slots ocupados na base de dados (para marcar como indisponíveis)
+    const bufferBeforeMinutes = service.buffer_before_minutes || 0
+    const bufferAfterMinutes = service.buffer_after_minutes || 0
+
+    // Buscar slots ocupados na base de dados (para marcar como indisponíveis). A faixa considera os buffers:
+    // uma janela no início de `from` ou no fim de `to` pode cruzar slots fora do período pedido
+    const occupiedFrom = DateTime.fromISO(params.from, { zone: 'utc' }).minus({ minutes: bufferBeforeMinutes }).toISO() as string
+    const occupiedTo = DateTime.fromISO(params.to, { zone: 'utc' }).plus({ minutes: duration + bufferAfterMinutes }).toISO() as string
     const {data: occupiedSlots} = await supabase
       .from("slots")
       .select("start_time, end_time, is_available")
       .eq("professional_id", params.professionalId)
       .eq("is_available", false)
-      .gte("start_time", params.from)
-      .lte("start_time", params.to)
+      .lt("start_time", occupiedTo)
+      .gt("end_time", occupiedFrom)
 
     const occupiedStartTimes = new Set(
       (occupiedSlots || []).map(s => s.start_time)
     )
 
+    // Holds ativas (checkout em andamento) escondem a faixa como um booking até vencerem
+    const now = new Date().toISOString()
+    const {data: holds} = await supabase
+      .from("booking_holds")
+      .select("service_id, start_time, end_time, blocked_start_time, blocked_end_time, session_key, expires_at")
+      .eq("professional_id", params.professionalId)
+      .gt("expires_at", now)
+      .lt("blocked_start_time", occupiedTo)
+      .gt("blocked_end_time", occupiedFrom)
+
     logger.debug({
       message: "Occupied slots from database",
       count: occupiedSlots?.length || 0
@@ -502,7 +685,10 @@ export class SlotService {
       timezone,
       closingTime,
       occupiedStartTimes,
-      minLeadMinutes: params.minLeadMinutes || 0
+      occupiedRanges: [...(occupiedSlots || []), ...heldRanges(holds || [], now)],
+      minLeadMinutes,
+      bufferBeforeMinutes,
+      bufferAfterMinutes
     })
 
     // Mapear IDs reais aos slots gerados quando existirem
@@ -697,17 +883,156 @@ export class SlotService {
       }))
     })
 
+    // Serviços em grupo: sessões já abertas continuam reserváveis até lotar; janelas livres têm todas as vagas
+    const capacity = service.capacity || 1
+    let sessions: GroupSession[] = []
+    if (capacity > 1) {
+      const {data: sessionBookings} = await supabase
+        .from("bookings")
+        .select("session_key, start_time, end_time, slot_id")
+        .eq("professional_id", params.professionalId)
+        .eq("service_id", params.serviceId)
+        .in("status", ACTIVE_BOOKING_STATUSES)
+        .not("session_key", "is", null)
+        .gte("start_time", params.from)
+        .lte("start_time", params.to)
+
+      // Cada hold da sessão ocupa uma vaga, como um booking
+      const sessionHolds = heldSessionBookings(holds || [], params.serviceId, now).filter(
+        hold => Date.parse(hold.start_time) >= Date.parse(params.from) && Date.parse(hold.start_time) <= Date.parse(params.to)
+      )
+
+      const earliestStart = DateTime.now().plus({ minutes: minLeadMinutes }).toMillis()
+      sessions = Array.from(groupSessions([...(sessionBookings || []), ...sessionHolds]).values()).filter(
+        session => Date.parse(session.start_time) >= earliestStart
+      )
+    }
+
+    const withSpots = withRemainingSpots(windowsWithRealIds, sessions, capacity)
+
     // add simple label in pt-BR short format
-    const labeled = windowsWithRealIds.map(w => ({
+    const labeled = withSpots.map(w => ({
       ...w,
       label: DateTime.fromISO(w.start_time).setZone(timezone).toFormat("ccc dd/MM HH:mm") + '–' + DateTime.fromISO(w.end_time).setZone(timezone).toFormat('HH:mm')
     }))
 
     return {
       service,
+      timezone,
       slots: labeled
     }
   }
+
+  /**
+   * Busca horários do serviço em todos os profissionais que o oferecem e retorna as janelas mais cedo.
+   * Um profissional que falhar (ex.: sem availabilities) é ignorado em vez de derrubar a busca.
+   */
+  async searchServiceWindows(params: SearchServiceWindowsParams) {
+    const mode = params.mode || "any"
+    const limit = params.limit || DEFAULT_SLOT_SEARCH_LIMIT
+
+    const {service, professionals: offering} = await professionalServicesService.getProfessionalsOfferingService(
+      params.companyId,
+      params.serviceId
+    )
+
+    const professionals = params.professionalId
+      ? offering.filter((professional) => professional.id === params.professionalId)
+      : offering
+
+    if (params.professionalId && professionals.length === 0) {
+      const err = new Error("Professional does not offer this service")
+      ;(err as any).status = 422
+      throw err
+    }
+
+    const results = await Promise.allSettled(
+      professionals.map((professional) =>
+        this.getServiceWindows({
+          professionalId: professional.id,
+          serviceId: params.serviceId,
+          from: params.from,
+          to: params.to,
+          companyId: params.companyId,
+          slotStepMinutes: params.slotStepMinutes,
+          minLeadMinutes: params.minLeadMinutes,
+          timezone: params.timezone
+        })
+      )
+    )
+
+    const entries: ProfessionalWindows[] = []
+    results.forEach((result, index) => {
+      const professional = professionals[index]
+      if (result.status === "rejected") {
+        logger.warn({
+          message: "Skipping professional in slot search",
+          professionalId: professional.id,
+          serviceId: params.serviceId,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        })
+        return
+      }
+
+      entries.push({professional, timezone: result.value.timezone, windows: result.value.slots})
+    })
+
+    return {
+      service,
+      mode,
+      professionalsSearched: professionals.length,
+      windows: mergeProfessionalWindows(entries, mode, limit)
+    }
+  }
+
+  /**
+   * Primeiros horários livres a partir de agora, avançando em blocos de dias até o horizonte.
+   * minLeadMinutes é respeitado por getServiceWindows.
+   */
+  async getNextAvailableWindows(params: NextAvailableParams) {
+    const count = params.count || DEFAULT_NEXT_AVAILABLE_COUNT
+    const horizonDays = params.horizonDays || DEFAULT_NEXT_AVAILABLE_HORIZON_DAYS
+    const ranges = forwardSearchRanges(new Date().toISOString(), horizonDays)
+
+    let service: any = null
+    let timezone: string | null = null
+    const windows: ServiceWindowsResult["slots"] = []
+    const seenStarts = new Set<number>()
+
+    for (const range of ranges) {
+      const result = await this.getServiceWindows({
+        professionalId: params.professionalId,
+        serviceId: params.serviceId,
+        from: range.from,
+        to: range.to,
+        companyId: params.companyId,
+        slotStepMinutes: params.slotStepMinutes,
+        minLeadMinutes: params.minLeadMinutes,
+        timezone: params.timezone
+      })
+
+      service = result.service
+      timezone = result.timezone
+
+      const sorted = [...result.slots].sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+      for (const window of sorted) {
+        // Blocos vizinhos compartilham o limite, então o mesmo início pode aparecer duas vezes
+        const start = Date.parse(window.start_time)
+        if (seenStarts.has(start)) continue
+        seenStarts.add(start)
+        windows.push(window)
+      }
+
+      if (windows.length >= count) break
+    }
+
+    return {
+      service,
+      timezone,
+      horizonDays,
+      windows: windows.slice(0, count)
+    }
+  }
 }
 
 export const slotService = new SlotService()
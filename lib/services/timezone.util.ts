@@ -0,0 +1,24 @@
+import { DateTime } from 'luxon'
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo'
+
+/**
+ * Valida um timezone IANA (ex.: America/Manaus, Europe/Lisbon)
+ */
+export function isValidTimezone(timezone: string): boolean {
+  return DateTime.now().setZone(timezone).isValid
+}
+
+/**
+ * Retorna o primeiro timezone válido da lista, em ordem de prioridade
+ * (ex.: query param → profissional → company), ou o timezone padrão
+ */
+export function resolveTimezone(...candidates: Array<string | null | undefined>): string {
+  for (const candidate of candidates) {
+    if (candidate && isValidTimezone(candidate)) {
+      return candidate
+    }
+  }
+
+  return DEFAULT_TIMEZONE
+}
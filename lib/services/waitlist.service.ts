@@ -0,0 +1,622 @@
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {bookingService} from "./booking.service"
+import {customerService} from "./customer.service"
+import {professionalServicesService} from "./professional-services.service"
+import {serviceService} from "./service.service"
+import {webhookService} from "./webhook.service"
+import {
+  MAX_WAITLIST_RANGE_DAYS,
+  isOfferExpired,
+  matchesWaitlistWindow,
+  offerHoldMinutes,
+  type WaitlistStatus,
+  type WaitlistWindow
+} from "./waitlist.util"
+import {
+  decodeCursor,
+  keysetFilter,
+  pageLimit,
+  resolveSort,
+  toPage,
+  type PageParams,
+  type SortOptions
+} from "./pagination.util"
+
+export interface JoinWaitlistParams {
+  companyId: string
+  serviceId: string
+  professionalId?: string | null // Sem profissional, qualquer um que ofereça o serviço
+  from: string // ISO; início do período aceito pelo cliente
+  to: string // ISO; fim do período (o atendimento inteiro precisa caber)
+  customerId?: string | null
+  customerName?: string // Obrigatório sem customerId
+  customerEmail?: string | null
+  customerPhone?: string | null
+}
+
+export interface ListWaitlistParams extends PageParams {
+  serviceId?: string
+  professionalId?: string
+  customerId?: string
+  status?: WaitlistStatus[]
+}
+
+export interface ProcessWaitlistOffersParams {
+  companyId?: string
+  limit?: number
+}
+
+export interface ProcessWaitlistOffersResult {
+  expired: number
+  offered: number
+}
+
+export const WAITLIST_SORT_OPTIONS: SortOptions = {
+  createdAt: [{column: "created_at", ascending: true}]
+}
+
+// Entradas avaliadas por horário liberado (a primeira que ainda estiver aguardando recebe a oferta)
+const OFFER_CANDIDATES = 20
+const DEFAULT_PROCESS_LIMIT = 100
+
+export class WaitlistService {
+  async joinWaitlist(params: JoinWaitlistParams) {
+    const supabase = await createServiceClient()
+
+    const from = Date.parse(params.from)
+    const to = Date.parse(params.to)
+    if (to <= from) {
+      throw this.validationError("to must be after from")
+    }
+
+    if (to - from > MAX_WAITLIST_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw this.validationError(`The waitlist range must be at most ${MAX_WAITLIST_RANGE_DAYS} days`)
+    }
+
+    if (to <= Date.now()) {
+      throw this.validationError("to must be in the future")
+    }
+
+    // O serviço precisa existir e, com profissional, ser oferecido por ele
+    if (params.professionalId) {
+      await professionalServicesService.getOfferedService(params.companyId, params.professionalId, params.serviceId)
+    } else {
+      await serviceService.getServiceById(params.serviceId, params.companyId)
+    }
+
+    // O cliente é resolvido (ou criado) só quando a oferta vira booking
+    let customer = {
+      id: null as string | null,
+      name: params.customerName,
+      email: params.customerEmail || null,
+      phone: params.customerPhone || null
+    }
+    if (params.customerId) {
+      const existing = await customerService.getCustomerById(params.customerId, params.companyId)
+      customer = {
+        id: existing.id,
+        name: params.customerName || existing.name,
+        email: params.customerEmail || existing.email || null,
+        phone: params.customerPhone || existing.phone || null
+      }
+    }
+
+    if (!customer.name) {
+      throw this.validationError("customerName or customerId is required")
+    }
+
+    const {data, error} = await supabase
+      .from("waitlist_entries")
+      .insert({
+        company_id: params.companyId,
+        service_id: params.serviceId,
+        professional_id: params.professionalId || null,
+        customer_id: customer.id,
+        customer_name: customer.name,
+        customer_email: customer.email,
+        customer_phone: customer.phone,
+        from_time: new Date(from).toISOString(),
+        to_time: new Date(to).toISOString()
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to join waitlist",
+        error,
+        companyId: params.companyId,
+        serviceId: params.serviceId
+      })
+      throw new Error("Failed to join waitlist")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      action: "waitlist_joined",
+      resourceType: "waitlist_entry",
+      resourceId: data.id,
+      metadata: {
+        serviceId: params.serviceId,
+        professionalId: params.professionalId || null,
+        from: data.from_time,
+        to: data.to_time
+      }
+    })
+
+    logger.info({
+      message: "Waitlist entry created successfully",
+      waitlistEntryId: data.id,
+      companyId: params.companyId
+    })
+
+    return data
+  }
+
+  async listWaitlist(companyId: string, params: ListWaitlistParams = {}) {
+    const supabase = await createServiceClient()
+
+    const sort = resolveSort(WAITLIST_SORT_OPTIONS, params.sort, "-createdAt")
+    const limit = pageLimit(params.limit)
+
+    let query = supabase.from("waitlist_entries").select("*").eq("company_id", companyId)
+
+    if (params.serviceId) {
+      query = query.eq("service_id", params.serviceId)
+    }
+
+    if (params.professionalId) {
+      query = query.eq("professional_id", params.professionalId)
+    }
+
+    if (params.customerId) {
+      query = query.eq("customer_id", params.customerId)
+    }
+
+    if (params.status && params.status.length > 0) {
+      query = query.in("status", params.status)
+    }
+
+    if (params.cursor) {
+      query = query.or(keysetFilter(sort, decodeCursor(sort, params.cursor)))
+    }
+
+    for (const {column, ascending} of sort.columns) {
+      query = query.order(column, {ascending})
+    }
+
+    const {data, error} = await query.limit(limit + 1)
+
+    if (error) {
+      logger.error({
+        message: "Failed to get waitlist entries",
+        error,
+        companyId,
+        params
+      })
+      throw new Error("Failed to get waitlist entries")
+    }
+
+    return toPage(data || [], sort, limit)
+  }
+
+  async getWaitlistEntryById(id: string, companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("waitlist_entries")
+      .select("*")
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Waitlist entry not found",
+        error,
+        waitlistEntryId: id,
+        companyId
+      })
+      throw new Error("Waitlist entry not found")
+    }
+
+    return data
+  }
+
+  /**
+   * Tira a entrada da lista. Uma oferta pendente é repassada para a próxima entrada.
+   */
+  async cancelWaitlistEntry(id: string, companyId: string) {
+    const entry = await this.getWaitlistEntryById(id, companyId)
+
+    if (entry.status !== "waiting" && entry.status !== "offered") {
+      throw this.conflictError(`Waitlist entry cannot be cancelled in status '${entry.status}'`)
+    }
+
+    const cancelled = await this.transition(entry, {status: "cancelled"})
+    if (!cancelled) {
+      throw this.conflictError("Waitlist entry changed concurrently")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "waitlist_cancelled",
+      resourceType: "waitlist_entry",
+      resourceId: id,
+      metadata: {fromStatus: entry.status}
+    })
+
+    logger.info({
+      message: "Waitlist entry cancelled successfully",
+      waitlistEntryId: id,
+      companyId
+    })
+
+    if (entry.status === "offered") {
+      await this.releaseOfferHold(entry)
+      await this.offerFreedWindow(companyId, this.offeredWindow(entry))
+    }
+
+    return cancelled
+  }
+
+  /**
+   * Converte a oferta pendente em booking. Se o horário não puder mais ser reservado, a entrada volta a aguardar.
+   */
+  async acceptOffer(id: string, companyId: string) {
+    const entry = await this.getWaitlistEntryById(id, companyId)
+
+    if (entry.status !== "offered") {
+      throw this.conflictError(`Waitlist entry has no pending offer (status '${entry.status}')`)
+    }
+
+    if (isOfferExpired(entry, new Date().toISOString())) {
+      await this.expireOffer(entry)
+      throw this.conflictError("Waitlist offer has expired")
+    }
+
+    // A entrada é marcada antes de reservar, para duas confirmações simultâneas não gerarem dois bookings
+    const claimed = await this.transition(entry, {status: "booked"})
+    if (!claimed) {
+      throw this.conflictError("Waitlist entry changed concurrently")
+    }
+
+    let booking: any
+    try {
+      booking = await bookingService.createBooking({
+        companyId,
+        professionalId: entry.offer_professional_id,
+        serviceId: entry.service_id,
+        startTime: entry.offer_start_time,
+        customerId: entry.customer_id,
+        customerName: entry.customer_name,
+        customerEmail: entry.customer_email,
+        customerPhone: entry.customer_phone,
+        holdId: entry.offer_hold_id // A hold da oferta é convertida no booking
+      })
+    } catch (error) {
+      const status = (error as any)?.status
+      if (status === 409 || status === 422) {
+        // O horário deixou de ser reservável: a entrada volta para a fila e a hold da oferta é liberada
+        await this.transition(claimed, {
+          status: "waiting",
+          offer_professional_id: null,
+          offer_start_time: null,
+          offer_end_time: null,
+          offer_expires_at: null,
+          offer_hold_id: null
+        })
+        await this.releaseOfferHold(entry)
+
+        await activityLogService.log({
+          companyId,
+          action: "waitlist_offer_unavailable",
+          resourceType: "waitlist_entry",
+          resourceId: id,
+          metadata: {
+            startTime: entry.offer_start_time,
+            professionalId: entry.offer_professional_id,
+            reason: error instanceof Error ? error.message : null
+          }
+        })
+      } else {
+        await this.transition(claimed, {status: "offered"})
+      }
+
+      throw error
+    }
+
+    const supabase = await createServiceClient()
+    const {data: updated, error} = await supabase
+      .from("waitlist_entries")
+      .update({booking_id: booking.id, updated_at: new Date().toISOString()})
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error || !updated) {
+      logger.error({
+        message: "Failed to link booking to waitlist entry",
+        error,
+        waitlistEntryId: id,
+        bookingId: booking.id,
+        companyId
+      })
+      throw new Error("Failed to accept waitlist offer")
+    }
+
+    await activityLogService.log({
+      companyId,
+      action: "waitlist_booked",
+      resourceType: "waitlist_entry",
+      resourceId: id,
+      metadata: {
+        bookingId: booking.id,
+        startTime: booking.start_time,
+        professionalId: booking.professional_id
+      }
+    })
+
+    logger.info({
+      message: "Waitlist offer accepted successfully",
+      waitlistEntryId: id,
+      bookingId: booking.id,
+      companyId
+    })
+
+    return {...updated, booking}
+  }
+
+  /**
+   * Oferece um horário liberado (booking cancelado ou removido) à entrada mais antiga compatível. A oferta segura
+   * o horário com uma hold até offer_expires_at: nenhum outro booking ou hold ocupa a janela nesse período.
+   * Nunca lança: uma falha aqui não pode desfazer o cancelamento que liberou o horário.
+   */
+  async offerFreedWindow(companyId: string, window: WaitlistWindow) {
+    try {
+      const now = new Date().toISOString()
+      if (!window.professional_id || Date.parse(window.start_time) <= Date.parse(now)) {
+        return null
+      }
+
+      const supabase = await createServiceClient()
+
+      const {data: candidates, error} = await supabase
+        .from("waitlist_entries")
+        .select("*")
+        .eq("company_id", companyId)
+        .eq("service_id", window.service_id)
+        .eq("status", "waiting")
+        .lte("from_time", window.start_time)
+        .gte("to_time", window.end_time)
+        .order("created_at", {ascending: true})
+        .limit(OFFER_CANDIDATES)
+
+      if (error) {
+        throw error
+      }
+
+      const matching = (candidates || []).filter((entry: any) => matchesWaitlistWindow(entry, window))
+      const ttlMinutes = offerHoldMinutes(now, window.start_time)
+      if (matching.length === 0 || ttlMinutes < 1) {
+        return null
+      }
+
+      // Validada como um booking: se a janela já foi ocupada ou não é mais reservável, não há o que oferecer
+      const hold = await bookingService.createHold({
+        companyId,
+        professionalId: window.professional_id,
+        serviceId: window.service_id,
+        startTime: window.start_time,
+        ttlMinutes
+      })
+
+      for (const candidate of matching) {
+        const offered = await this.transition(candidate, {
+          status: "offered",
+          offer_professional_id: window.professional_id,
+          offer_start_time: window.start_time,
+          offer_end_time: window.end_time,
+          offer_expires_at: hold.expires_at,
+          offer_hold_id: hold.id
+        })
+
+        // Outra liberação concorrente já fez uma oferta para esta entrada
+        if (!offered) continue
+
+        await activityLogService.log({
+          companyId,
+          action: "waitlist_offered",
+          resourceType: "waitlist_entry",
+          resourceId: offered.id,
+          metadata: {
+            professionalId: window.professional_id,
+            startTime: window.start_time,
+            endTime: window.end_time,
+            expiresAt: offered.offer_expires_at
+          }
+        })
+
+        logger.info({
+          message: "Waitlist offer created",
+          waitlistEntryId: offered.id,
+          companyId,
+          startTime: window.start_time
+        })
+
+        await webhookService.emit(companyId, "waitlist.offered", {waitlistEntry: offered})
+
+        return offered
+      }
+
+      await this.releaseOfferHold({company_id: companyId, offer_hold_id: hold.id})
+      return null
+    } catch (error) {
+      logger.warn({
+        message: "Failed to offer freed window to waitlist",
+        error: error instanceof Error ? error.message : error,
+        companyId,
+        serviceId: window.service_id,
+        startTime: window.start_time
+      })
+      return null
+    }
+  }
+
+  /**
+   * Expira as ofertas vencidas e repassa cada horário para a próxima entrada compatível; sem companyId, de todas
+   * as companies (chamado pelo cron da plataforma)
+   */
+  async processExpiredOffers(params: ProcessWaitlistOffersParams = {}): Promise<ProcessWaitlistOffersResult> {
+    const supabase = await createServiceClient()
+
+    let query = supabase
+      .from("waitlist_entries")
+      .select("*")
+      .eq("status", "offered")
+      .lte("offer_expires_at", new Date().toISOString())
+      .order("offer_expires_at", {ascending: true})
+      .limit(params.limit || DEFAULT_PROCESS_LIMIT)
+
+    if (params.companyId) {
+      query = query.eq("company_id", params.companyId)
+    }
+
+    const {data: entries, error} = await query
+
+    if (error) {
+      logger.error({
+        message: "Failed to get expired waitlist offers",
+        error,
+        companyId: params.companyId
+      })
+      throw new Error("Failed to process waitlist offers")
+    }
+
+    const result: ProcessWaitlistOffersResult = {expired: 0, offered: 0}
+
+    for (const entry of entries || []) {
+      const next = await this.expireOffer(entry)
+      if (next === undefined) continue
+
+      result.expired += 1
+      if (next) result.offered += 1
+    }
+
+    logger.info({
+      message: "Expired waitlist offers processed",
+      companyId: params.companyId,
+      ...result
+    })
+
+    return result
+  }
+
+  /**
+   * Marca a oferta como expirada e repassa o horário. Retorna a nova oferta (ou null) e undefined se a
+   * entrada já tinha mudado de status.
+   */
+  private async expireOffer(entry: any) {
+    const expired = await this.transition(entry, {status: "expired"})
+    if (!expired) {
+      return undefined
+    }
+
+    await activityLogService.log({
+      companyId: entry.company_id,
+      action: "waitlist_offer_expired",
+      resourceType: "waitlist_entry",
+      resourceId: entry.id,
+      metadata: {
+        startTime: entry.offer_start_time,
+        professionalId: entry.offer_professional_id,
+        expiresAt: entry.offer_expires_at
+      }
+    })
+
+    await webhookService.emit(entry.company_id, "waitlist.expired", {waitlistEntry: expired})
+
+    await this.releaseOfferHold(entry)
+    return await this.offerFreedWindow(entry.company_id, this.offeredWindow(entry))
+  }
+
+  /**
+   * Apaga a hold da oferta, se ainda existir (já vencida ou convertida, não há o que liberar).
+   * Nunca lança: a hold vencida deixa de bloquear a janela de qualquer forma.
+   */
+  private async releaseOfferHold(entry: {company_id: string; offer_hold_id: string | null}) {
+    if (!entry.offer_hold_id) {
+      return
+    }
+
+    const supabase = await createServiceClient()
+    const {error} = await supabase
+      .from("booking_holds")
+      .delete()
+      .eq("id", entry.offer_hold_id)
+      .eq("company_id", entry.company_id)
+
+    if (error) {
+      logger.warn({
+        message: "Failed to release waitlist offer hold",
+        error: error.message,
+        holdId: entry.offer_hold_id,
+        companyId: entry.company_id
+      })
+    }
+  }
+
+  /**
+   * Atualiza a entrada somente se o status ainda for o lido (evita sobrescrever uma mudança concorrente).
+   * Retorna null quando a entrada já mudou.
+   */
+  private async transition(entry: any, changes: Record<string, unknown>) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("waitlist_entries")
+      .update({...changes, updated_at: new Date().toISOString()})
+      .eq("id", entry.id)
+      .eq("status", entry.status)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error({
+        message: "Failed to update waitlist entry",
+        error,
+        waitlistEntryId: entry.id,
+        fromStatus: entry.status,
+        changes
+      })
+      throw new Error("Failed to update waitlist entry")
+    }
+
+    return data
+  }
+
+  private offeredWindow(entry: any): WaitlistWindow {
+    return {
+      professional_id: entry.offer_professional_id,
+      service_id: entry.service_id,
+      start_time: entry.offer_start_time,
+      end_time: entry.offer_end_time
+    }
+  }
+
+  private conflictError(message: string): Error {
+    const err = new Error(message)
+    ;(err as any).status = 409
+    return err
+  }
+
+  private validationError(message: string): Error {
+    const err = new Error(message)
+    ;(err as any).status = 400
+    return err
+  }
+}
+
+export const waitlistService = new WaitlistService()
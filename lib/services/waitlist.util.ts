@@ -0,0 +1,63 @@
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'booked', 'expired', 'cancelled'] as const
+
+/**
+ * waiting: aguardando um horário; offered: recebeu a oferta de um horário liberado e pode aceitá-la até offer_expires_at;
+ * booked: aceitou a oferta (booking_id); expired: deixou a oferta vencer; cancelled: saiu da lista
+ */
+export type WaitlistStatus = (typeof WAITLIST_STATUSES)[number]
+
+// Tempo que a entrada tem para aceitar a oferta antes de o horário passar para a próxima
+export const WAITLIST_OFFER_HOLD_MINUTES = 30
+// Período máximo de espera de uma entrada
+export const MAX_WAITLIST_RANGE_DAYS = 90
+
+export interface WaitlistWindow {
+  professional_id: string
+  service_id: string
+  start_time: string
+  end_time: string
+}
+
+export interface WaitlistCriteria {
+  professional_id: string | null
+  service_id: string
+  from_time: string
+  to_time: string
+}
+
+/**
+ * A entrada aceita o horário liberado: mesmo serviço, profissional (ou qualquer um) e o atendimento inteiro
+ * dentro do período pedido
+ */
+export function matchesWaitlistWindow(entry: WaitlistCriteria, window: WaitlistWindow): boolean {
+  if (entry.service_id !== window.service_id) return false
+  if (entry.professional_id && entry.professional_id !== window.professional_id) return false
+
+  return (
+    Date.parse(entry.from_time) <= Date.parse(window.start_time) &&
+    Date.parse(window.end_time) <= Date.parse(entry.to_time)
+  )
+}
+
+/**
+ * Vencimento da oferta: o prazo de hold a partir de agora, mas nunca depois do início do horário oferecido
+ */
+export function offerExpiresAt(now: string, startTime: string, holdMinutes = WAITLIST_OFFER_HOLD_MINUTES): string {
+  const expiresAt = Math.min(Date.parse(now) + holdMinutes * 60 * 1000, Date.parse(startTime))
+  return new Date(expiresAt).toISOString()
+}
+
+/**
+ * Duração (em minutos inteiros) da hold que segura o horário durante a oferta, até offerExpiresAt.
+ * 0 quando não há mais tempo para oferecer o horário.
+ */
+export function offerHoldMinutes(now: string, startTime: string, holdMinutes = WAITLIST_OFFER_HOLD_MINUTES): number {
+  const remaining = Date.parse(offerExpiresAt(now, startTime, holdMinutes)) - Date.parse(now)
+  return Math.max(0, Math.floor(remaining / (60 * 1000)))
+}
+
+export function isOfferExpired(entry: { status: string; offer_expires_at: string | null }, now: string): boolean {
+  return (
+    entry.status === 'offered' && !!entry.offer_expires_at && Date.parse(entry.offer_expires_at) <= Date.parse(now)
+  )
+}
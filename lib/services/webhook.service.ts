@@ -0,0 +1,601 @@
+import http from "http"
+import https from "https"
+import {createServiceClient} from "@/lib/supabase/server"
+import {logger} from "@/lib/logger"
+import {activityLogService} from "./activity-log.service"
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookEvent,
+  generateWebhookSecret,
+  isSuccessfulWebhookResponse,
+  nextWebhookAttemptAt,
+  publicWebhookLookup,
+  signWebhookPayload,
+  webhookUrlError
+} from "./webhook.util"
+import type {Database} from "@/types/database"
+
+type WebhookSubscriptionRow = Database["public"]["Tables"]["webhook_subscriptions"]["Row"]
+type WebhookDeliveryRow = Database["public"]["Tables"]["webhook_deliveries"]["Row"]
+
+// Tempo máximo de espera pela resposta do endpoint do cliente
+const DELIVERY_TIMEOUT_MS = 10000
+
+export interface CreateWebhookSubscriptionParams {
+  companyId: string
+  url: string
+  events: WebhookEvent[]
+  description?: string
+  userId?: string
+}
+
+export interface UpdateWebhookSubscriptionParams {
+  url?: string
+  events?: WebhookEvent[]
+  description?: string | null
+  isActive?: boolean
+  userId?: string
+}
+
+export interface ProcessDeliveriesParams {
+  companyId?: string
+  deliveryIds?: string[]
+  limit?: number
+}
+
+export interface ProcessDeliveriesResult {
+  processed: number
+  succeeded: number
+  retrying: number
+  failed: number
+}
+
+export class WebhookService {
+  /**
+   * Cria uma assinatura de webhook para a company
+   * Retorna o secret de assinatura (apenas uma vez)
+   */
+  async createSubscription(params: CreateWebhookSubscriptionParams) {
+    const supabase = await createServiceClient()
+    const secret = generateWebhookSecret()
+
+    await this.assertPublicUrl(params.url)
+
+    const {data, error} = await supabase
+      .from("webhook_subscriptions")
+      .insert({
+        company_id: params.companyId,
+        url: params.url,
+        description: params.description || null,
+        events: params.events,
+        secret
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to create webhook subscription",
+        error,
+        companyId: params.companyId
+      })
+      throw new Error("Failed to create webhook subscription")
+    }
+
+    await activityLogService.log({
+      companyId: params.companyId,
+      userId: params.userId || null,
+      action: "webhook_subscription_created",
+      resourceType: "webhook_subscription",
+      resourceId: data.id,
+      metadata: {url: data.url, events: data.events}
+    })
+
+    logger.info({
+      message: "Webhook subscription created successfully",
+      companyId: params.companyId,
+      subscriptionId: data.id
+    })
+
+    return {...this.toSubscription(data), secret}
+  }
+
+  /**
+   * Lista as assinaturas da company (sem o secret)
+   */
+  async listSubscriptions(companyId: string) {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("company_id", companyId)
+      .order("created_at", {ascending: false})
+
+    if (error) {
+      logger.error({
+        message: "Failed to list webhook subscriptions",
+        error,
+        companyId
+      })
+      throw new Error("Failed to list webhook subscriptions")
+    }
+
+    return (data || []).map((row) => this.toSubscription(row))
+  }
+
+  async getSubscription(id: string, companyId: string) {
+    const row = await this.getSubscriptionRow(id, companyId)
+    return this.toSubscription(row)
+  }
+
+  async updateSubscription(id: string, companyId: string, params: UpdateWebhookSubscriptionParams) {
+    const supabase = await createServiceClient()
+
+    await this.getSubscriptionRow(id, companyId)
+
+    if (params.url !== undefined) {
+      await this.assertPublicUrl(params.url)
+    }
+
+    const updateData: Database["public"]["Tables"]["webhook_subscriptions"]["Update"] = {
+      updated_at: new Date().toISOString()
+    }
+    if (params.url !== undefined) updateData.url = params.url
+    if (params.events !== undefined) updateData.events = params.events
+    if (params.description !== undefined) updateData.description = params.description
+    if (params.isActive !== undefined) updateData.is_active = params.isActive
+
+    const {data, error} = await supabase
+      .from("webhook_subscriptions")
+      .update(updateData)
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error({
+        message: "Failed to update webhook subscription",
+        error,
+        subscriptionId: id,
+        companyId
+      })
+      throw new Error("Failed to update webhook subscription")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: params.userId || null,
+      action: "webhook_subscription_updated",
+      resourceType: "webhook_subscription",
+      resourceId: id,
+      metadata: {
+        url: params.url,
+        events: params.events,
+        isActive: params.isActive
+      }
+    })
+
+    logger.info({
+      message: "Webhook subscription updated successfully",
+      subscriptionId: id,
+      companyId
+    })
+
+    return this.toSubscription(data)
+  }
+
+  async deleteSubscription(id: string, companyId: string, userId?: string) {
+    const supabase = await createServiceClient()
+
+    await this.getSubscriptionRow(id, companyId)
+
+    const {error} = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", id)
+      .eq("company_id", companyId)
+
+    if (error) {
+      logger.error({
+        message: "Failed to delete webhook subscription",
+        error,
+        subscriptionId: id,
+        companyId
+      })
+      throw new Error("Failed to delete webhook subscription")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: userId || null,
+      action: "webhook_subscription_deleted",
+      resourceType: "webhook_subscription",
+      resourceId: id
+    })
+
+    logger.info({
+      message: "Webhook subscription deleted successfully",
+      subscriptionId: id,
+      companyId
+    })
+  }
+
+  /**
+   * Enfileira o evento para todas as assinaturas ativas da company. A entrega é feita por processDueDeliveries
+   * (POST /webhooks/process, cron da plataforma que atende todas as companies), fora do caminho da requisição.
+   * Nunca lança erro: a operação que originou o evento já foi persistida.
+   */
+  async emit(companyId: string, event: WebhookEvent, data: Record<string, unknown>) {
+    try {
+      const supabase = await createServiceClient()
+
+      const {data: subscriptions, error} = await supabase
+        .from("webhook_subscriptions")
+        .select("id")
+        .eq("company_id", companyId)
+        .eq("is_active", true)
+        .contains("events", [event])
+
+      if (error) {
+        throw error
+      }
+
+      if (!subscriptions || subscriptions.length === 0) {
+        return
+      }
+
+      const occurredAt = new Date().toISOString()
+
+      const {data: deliveries, error: insertError} = await supabase
+        .from("webhook_deliveries")
+        .insert(
+          subscriptions.map((subscription) => ({
+            subscription_id: subscription.id,
+            company_id: companyId,
+            event,
+            payload: {event, occurredAt, companyId, data}
+          }))
+        )
+        .select("id")
+
+      if (insertError || !deliveries) {
+        throw insertError
+      }
+
+      logger.debug({
+        message: "Webhook event enqueued",
+        companyId,
+        event,
+        deliveries: deliveries.length
+      })
+    } catch (error) {
+      logger.error({
+        message: "Failed to emit webhook event",
+        error,
+        companyId,
+        event
+      })
+    }
+  }
+
+  /**
+   * Entrega as entregas vencidas (pendentes ou aguardando retry); sem companyId, de todas as companies.
+   * Deve ser chamado periodicamente (cron) para que os retries com backoff aconteçam.
+   */
+  async processDueDeliveries(params: ProcessDeliveriesParams = {}): Promise<ProcessDeliveriesResult> {
+    const supabase = await createServiceClient()
+
+    const {data: claimed, error} = await supabase.rpc("claim_webhook_deliveries", {
+      p_company_id: params.companyId ?? null,
+      p_delivery_ids: params.deliveryIds ?? null,
+      p_limit: params.limit ?? 50
+    })
+
+    if (error) {
+      logger.error({
+        message: "Failed to claim webhook deliveries",
+        error,
+        companyId: params.companyId
+      })
+      throw new Error("Failed to process webhook deliveries")
+    }
+
+    const result: ProcessDeliveriesResult = {processed: 0, succeeded: 0, retrying: 0, failed: 0}
+
+    for (const delivery of (claimed || []) as WebhookDeliveryRow[]) {
+      const status = await this.attemptDelivery(delivery)
+      result.processed++
+      if (status === "succeeded") result.succeeded++
+      else if (status === "pending") result.retrying++
+      else result.failed++
+    }
+
+    return result
+  }
+
+  /**
+   * Log de entregas de uma assinatura (mais recentes primeiro)
+   */
+  async listDeliveries(subscriptionId: string, companyId: string, limit = 50) {
+    const supabase = await createServiceClient()
+
+    await this.getSubscriptionRow(subscriptionId, companyId)
+
+    const {data, error} = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("subscription_id", subscriptionId)
+      .eq("company_id", companyId)
+      .order("created_at", {ascending: false})
+      .limit(limit)
+
+    if (error) {
+      logger.error({
+        message: "Failed to list webhook deliveries",
+        error,
+        subscriptionId,
+        companyId
+      })
+      throw new Error("Failed to list webhook deliveries")
+    }
+
+    return (data || []).map((row) => this.toDelivery(row))
+  }
+
+  /**
+   * Reenvia o payload de uma entrega como uma nova entrega (a original permanece no log)
+   */
+  async replayDelivery(deliveryId: string, subscriptionId: string, companyId: string, userId?: string) {
+    const supabase = await createServiceClient()
+
+    const subscription = await this.getSubscriptionRow(subscriptionId, companyId)
+
+    const {data: original, error: originalError} = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("id", deliveryId)
+      .eq("subscription_id", subscription.id)
+      .single()
+
+    if (originalError || !original) {
+      throw new Error("Webhook delivery not found")
+    }
+
+    const {data: replay, error} = await supabase
+      .from("webhook_deliveries")
+      .insert({
+        subscription_id: subscription.id,
+        company_id: companyId,
+        event: original.event,
+        payload: original.payload
+      })
+      .select()
+      .single()
+
+    if (error || !replay) {
+      logger.error({
+        message: "Failed to replay webhook delivery",
+        error,
+        deliveryId,
+        companyId
+      })
+      throw new Error("Failed to replay webhook delivery")
+    }
+
+    await activityLogService.log({
+      companyId,
+      userId: userId || null,
+      action: "webhook_delivery_replayed",
+      resourceType: "webhook_delivery",
+      resourceId: replay.id,
+      metadata: {originalDeliveryId: deliveryId, subscriptionId}
+    })
+
+    await this.processDueDeliveries({companyId, deliveryIds: [replay.id]})
+
+    const {data: delivered} = await supabase.from("webhook_deliveries").select("*").eq("id", replay.id).single()
+
+    return this.toDelivery(delivered || replay)
+  }
+
+  /**
+   * Faz uma tentativa de entrega e registra o resultado. Retorna o novo status da entrega.
+   */
+  private async attemptDelivery(delivery: WebhookDeliveryRow): Promise<WebhookDeliveryRow["status"]> {
+    const supabase = await createServiceClient()
+
+    const {data: subscription} = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("id", delivery.subscription_id)
+      .single()
+
+    const attempts = delivery.attempts + 1
+    const now = new Date()
+
+    let responseStatus: number | null = null
+    let lastError: string | null = null
+
+    if (!subscription || !subscription.is_active) {
+      lastError = "Subscription is inactive"
+    } else {
+      const body = JSON.stringify({id: delivery.id, ...delivery.payload})
+      const timestamp = Math.floor(now.getTime() / 1000)
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+
+      try {
+        responseStatus = await this.post(
+          subscription.url,
+          {
+            "Content-Type": "application/json",
+            "User-Agent": "Agendamento-Webhooks/1.0",
+            "X-Webhook-Id": delivery.id,
+            "X-Webhook-Event": delivery.event,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body)
+          },
+          body,
+          controller.signal
+        )
+
+        if (!isSuccessfulWebhookResponse(responseStatus)) {
+          lastError = `Endpoint responded with status ${responseStatus}`
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+      } finally {
+        clearTimeout(timeout)
+      }
+    }
+
+    const succeeded = responseStatus !== null && isSuccessfulWebhookResponse(responseStatus)
+    // Assinatura desativada não tem retry; a entrega pode ser reenviada manualmente depois
+    const nextAttemptAt = succeeded || !subscription?.is_active ? null : nextWebhookAttemptAt(attempts, now)
+    const status: WebhookDeliveryRow["status"] = succeeded ? "succeeded" : nextAttemptAt ? "pending" : "failed"
+
+    const {error} = await supabase
+      .from("webhook_deliveries")
+      .update({
+        status,
+        attempts,
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: nextAttemptAt ? nextAttemptAt.toISOString() : null,
+        response_status: responseStatus,
+        last_error: lastError,
+        delivered_at: succeeded ? new Date().toISOString() : null
+      })
+      .eq("id", delivery.id)
+
+    if (error) {
+      logger.error({
+        message: "Failed to record webhook delivery attempt",
+        error,
+        deliveryId: delivery.id
+      })
+    }
+
+    const logData = {
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscription_id,
+      companyId: delivery.company_id,
+      event: delivery.event,
+      attempts,
+      status,
+      responseStatus
+    }
+    if (succeeded) {
+      logger.info({message: "Webhook delivered successfully", ...logData})
+    } else {
+      logger.warn({message: "Webhook delivery failed", error: lastError, ...logData})
+    }
+
+    return status
+  }
+
+  /**
+   * POST no endpoint do cliente; retorna o status HTTP. A conexão passa por publicWebhookLookup, que recusa
+   * endereços internos, redirecionamentos não são seguidos e o corpo da resposta é descartado sem ser lido.
+   */
+  private post(url: string, headers: Record<string, string>, body: string, signal: AbortSignal): Promise<number> {
+    const urlError = webhookUrlError(url)
+    if (urlError) {
+      return Promise.reject(new Error(urlError))
+    }
+
+    const target = new URL(url)
+    const client = target.protocol === "https:" ? https : http
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        target,
+        {
+          method: "POST",
+          headers: {...headers, "Content-Length": Buffer.byteLength(body)},
+          lookup: publicWebhookLookup,
+          signal
+        },
+        (response) => {
+          response.resume()
+          resolve(response.statusCode || 0)
+        }
+      )
+
+      request.on("error", reject)
+      request.end(body)
+    })
+  }
+
+  /**
+   * Recusa URLs que não usam http(s) ou cujo host é (ou resolve para) um endereço interno
+   */
+  private async assertPublicUrl(url: string) {
+    let message = webhookUrlError(url)
+
+    if (!message) {
+      const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "")
+      const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+        publicWebhookLookup(hostname, {all: true}, (lookupError) => resolve(lookupError))
+      )
+
+      if (error) {
+        message = error.code === "EWEBHOOKTARGET" ? "URL must point to a public host" : "URL host could not be resolved"
+      }
+    }
+
+    if (message) {
+      const err = new Error(message)
+      ;(err as any).status = 400
+      throw err
+    }
+  }
+
+  private async getSubscriptionRow(id: string, companyId: string): Promise<WebhookSubscriptionRow> {
+    const supabase = await createServiceClient()
+
+    const {data, error} = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("id", id)
+      .eq("company_id", companyId)
+      .single()
+
+    if (error || !data) {
+      throw new Error("Webhook subscription not found")
+    }
+
+    return data
+  }
+
+  private toSubscription(row: WebhookSubscriptionRow) {
+    return {
+      id: row.id,
+      url: row.url,
+      description: row.description,
+      events: row.events,
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  private toDelivery(row: WebhookDeliveryRow) {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.status === "pending" ? row.next_attempt_at : null,
+      lastAttemptAt: row.last_attempt_at,
+      responseStatus: row.response_status,
+      lastError: row.last_error,
+      deliveredAt: row.delivered_at,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const webhookService = new WebhookService()
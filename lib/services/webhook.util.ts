@@ -0,0 +1,190 @@
+import crypto from 'crypto'
+import dns from 'dns'
+import net from 'net'
+
+export const WEBHOOK_EVENTS = [
+  'booking.created',
+  'booking.updated',
+  'booking.status_changed',
+  'booking.cancelled',
+  'booking.rescheduled',
+  'professional.created',
+  'professional.updated',
+  'professional.deleted',
+  'service.created',
+  'service.updated',
+  'service.deleted',
+  'availability.created',
+  'availability.updated',
+  'availability.deleted',
+  'waitlist.offered',
+  'waitlist.expired'
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+// Espera (em segundos) antes de cada nova tentativa; depois da última a entrega é marcada como failed
+export const WEBHOOK_RETRY_DELAYS_SECONDS = [60, 300, 1800, 7200, 21600]
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_SECONDS.length + 1
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
+
+/**
+ * Gera o secret de assinatura de uma subscription (exibido apenas na criação)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Assina `<timestamp>.<body>` com HMAC-SHA256. O receptor recalcula com o mesmo secret e compara com `v1`.
+ * O timestamp entra na assinatura para permitir rejeitar reenvios antigos (replay attack).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${digest}`
+}
+
+/**
+ * Verifica um header X-Webhook-Signature. `toleranceSeconds` limita a idade do timestamp.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=')
+      return [key, rest.join('=')]
+    })
+  )
+
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return false
+  }
+
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex')
+  const received = Buffer.from(parts.v1, 'hex')
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * Próximo horário de tentativa depois de `attempts` tentativas sem sucesso, ou null se esgotou
+ */
+export function nextWebhookAttemptAt(attempts: number, from: Date = new Date()): Date | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    return null
+  }
+
+  const delay = WEBHOOK_RETRY_DELAYS_SECONDS[Math.max(0, attempts - 1)]
+  return new Date(from.getTime() + delay * 1000)
+}
+
+export function isSuccessfulWebhookResponse(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+// Destinos que um webhook não pode atingir: rede local, loopback, link-local (inclui o metadata
+// 169.254.169.254 das clouds), CGNAT, multicast e faixas reservadas. IPv4 mapeado em IPv6 também é coberto.
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+]
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+]
+
+const blockedWebhookAddresses = new net.BlockList()
+BLOCKED_IPV4_SUBNETS.forEach(([address, prefix]) => blockedWebhookAddresses.addSubnet(address, prefix, 'ipv4'))
+BLOCKED_IPV6_SUBNETS.forEach(([address, prefix]) => blockedWebhookAddresses.addSubnet(address, prefix, 'ipv6'))
+
+const BLOCKED_WEBHOOK_HOSTNAMES = ['localhost', 'metadata.google.internal']
+
+export function isPublicIpAddress(address: string): boolean {
+  const version = net.isIP(address)
+  if (!version) {
+    return false
+  }
+
+  return !blockedWebhookAddresses.check(address, version === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Motivo pelo qual a URL não pode receber webhooks, ou null. Confere o esquema e o host literal;
+ * hosts com nome são conferidos na resolução (publicWebhookLookup).
+ */
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'Invalid URL'
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must use http or https'
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (
+    BLOCKED_WEBHOOK_HOSTNAMES.includes(hostname) ||
+    hostname.endsWith('.localhost') ||
+    (net.isIP(hostname) && !isPublicIpAddress(hostname))
+  ) {
+    return 'URL must point to a public host'
+  }
+
+  return null
+}
+
+/**
+ * dns.lookup que recusa hosts resolvidos para endereços não públicos. Usado na conexão da entrega,
+ * então vale para o IP efetivamente conectado (um DNS que muda depois do cadastro não contorna a regra).
+ */
+export const publicWebhookLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0)
+      return
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => !isPublicIpAddress(entry.address))) {
+      const blocked = new Error(`Webhook host ${hostname} resolves to a non-public address`) as NodeJS.ErrnoException
+      blocked.code = 'EWEBHOOKTARGET'
+      callback(blocked, '', 0)
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
@@ -0,0 +1,191 @@
+-- Ciclo de vida dos bookings: pending → confirmed → checked_in → completed / cancelled / no_show
+-- Registra quem fez cada mudança de status e por quê, e adiciona RPCs atômicas para cancelar e remarcar
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'confirmed', 'checked_in', 'completed', 'cancelled', 'no_show'));
+
+-- Histórico de mudanças de status e remarcações
+CREATE TABLE IF NOT EXISTS booking_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+  from_slot_id UUID,
+  to_slot_id UUID,
+  reason TEXT,
+  actor_type VARCHAR(50) NOT NULL CHECK (actor_type IN ('api_key', 'user', 'system')),
+  actor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking_id ON booking_status_history(booking_id);
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_company_id ON booking_status_history(company_id);
+
+ALTER TABLE booking_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_status_history_select_for_admin" ON booking_status_history
+  FOR SELECT
+  USING (company_id = public.user_company_id());
+
+-- RPC Function: change_booking_status
+-- Muda o status de um booking de forma atômica. A validação das transições é feita na aplicação;
+-- aqui garantimos que o status não mudou desde a leitura (p_from_status) e liberamos o slot ao cancelar.
+CREATE OR REPLACE FUNCTION change_booking_status(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_from_status VARCHAR,
+  p_to_status VARCHAR,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status IS DISTINCT FROM p_from_status THEN
+    RAISE EXCEPTION 'Booking status changed concurrently';
+  END IF;
+
+  UPDATE bookings
+  SET status = p_to_status,
+      updated_at = NOW(),
+      cancelled_at = CASE WHEN p_to_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      cancellation_reason = CASE WHEN p_to_status = 'cancelled' THEN p_reason ELSE cancellation_reason END
+  WHERE id = p_booking_id;
+
+  -- Booking cancelado libera o slot
+  IF p_to_status = 'cancelled' THEN
+    UPDATE slots
+    SET is_available = TRUE
+    WHERE id = v_booking.slot_id;
+  END IF;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    p_from_status,
+    p_to_status,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
+
+-- RPC Function: reschedule_booking_safely
+-- Libera o slot antigo e reserva o novo na mesma transação (mesmo princípio de create_booking_safely)
+CREATE OR REPLACE FUNCTION reschedule_booking_safely(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_slot_available BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+  END IF;
+
+  IF v_booking.slot_id = p_new_slot_id THEN
+    RAISE EXCEPTION 'Booking is already in this slot';
+  END IF;
+
+  -- Check if new slot is available (locking it until the end of the transaction)
+  SELECT is_available INTO v_slot_available
+  FROM slots
+  WHERE id = p_new_slot_id AND professional_id = v_booking.professional_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  IF NOT v_slot_available THEN
+    RAISE EXCEPTION 'Slot is not available';
+  END IF;
+
+  -- Free old slot and reserve the new one
+  UPDATE slots
+  SET is_available = TRUE
+  WHERE id = v_booking.slot_id;
+
+  UPDATE slots
+  SET is_available = FALSE
+  WHERE id = p_new_slot_id;
+
+  UPDATE bookings
+  SET slot_id = p_new_slot_id,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    from_slot_id,
+    to_slot_id,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    v_booking.status,
+    v_booking.status,
+    v_booking.slot_id,
+    p_new_slot_id,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Exceções de disponibilidade por data (feriados, folgas e horários especiais)
+-- type = 'unavailable' sem horário fecha o dia inteiro; com horário bloqueia apenas o intervalo
+-- type = 'available' adiciona um intervalo de atendimento naquela data
+
+CREATE TABLE IF NOT EXISTS availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('available', 'unavailable')),
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT availability_exceptions_times_check CHECK (
+    (start_time IS NULL AND end_time IS NULL AND type = 'unavailable')
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_professional_date ON availability_exceptions(professional_id, date);
+
+ALTER TABLE availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "availability_exceptions_all_for_admin" ON availability_exceptions
+  FOR ALL
+  USING (
+    professional_id IN (
+      SELECT id FROM professionals WHERE company_id = public.user_company_id()
+    )
+  )
+  WITH CHECK (
+    professional_id IN (
+      SELECT id FROM professionals WHERE company_id = public.user_company_id()
+    )
+  );
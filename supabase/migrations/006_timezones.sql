@@ -0,0 +1,8 @@
+-- Timezone (IANA) usado para montar e rotular os horários disponíveis
+-- A company define o padrão; o profissional pode sobrescrever (ex.: atende em outra cidade)
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'America/Sao_Paulo';
+
+ALTER TABLE professionals
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
@@ -0,0 +1,9 @@
+-- Materialização da grade de slots (service_id nulo) a partir das availabilities
+-- Garante que execuções repetidas ou concorrentes do gerador não dupliquem horários
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slots_professional_grid_start
+  ON slots(professional_id, start_time)
+  WHERE service_id IS NULL;
+
+-- Acelera a busca de slots futuros de um profissional (materialização e listagem)
+CREATE INDEX IF NOT EXISTS idx_slots_professional_start_time ON slots(professional_id, start_time);
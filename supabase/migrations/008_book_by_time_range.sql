@@ -0,0 +1,327 @@
+-- Agendamento por faixa de horário (professional + service + início), em vez de um único slot_id
+-- O booking passa a guardar o intervalo reservado e todos os slots cobertos pela duração do serviço são bloqueados
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS start_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_professional_start_time ON bookings(professional_id, start_time);
+
+-- Function: reserve_slot_range
+-- Bloqueia [p_start, p_end) na agenda do profissional. Cria os slots da grade que faltarem (service_id nulo)
+-- e marca como indisponíveis todos os slots que se sobrepõem à faixa. Retorna o slot que começa em p_start.
+-- Deve ser chamada dentro de uma transação (RPC); o lock no profissional serializa reservas concorrentes.
+CREATE OR REPLACE FUNCTION reserve_slot_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_slot_id UUID;
+BEGIN
+  IF p_end <= p_start THEN
+    RAISE EXCEPTION 'Invalid time range';
+  END IF;
+
+  PERFORM 1 FROM professionals WHERE id = p_professional_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots
+    WHERE professional_id = p_professional_id
+      AND is_available = FALSE
+      AND start_time < p_end
+      AND end_time > p_start
+  ) THEN
+    RAISE EXCEPTION 'Time range is not available';
+  END IF;
+
+  INSERT INTO slots (professional_id, service_id, start_time, end_time, is_available)
+  SELECT p_professional_id, NULL, t, t + make_interval(mins => p_slot_step_minutes), TRUE
+  FROM generate_series(p_start, p_end - INTERVAL '1 second', make_interval(mins => p_slot_step_minutes)) AS t
+  ON CONFLICT DO NOTHING;
+
+  UPDATE slots
+  SET is_available = FALSE
+  WHERE professional_id = p_professional_id
+    AND start_time < p_end
+    AND end_time > p_start;
+
+  SELECT id INTO v_slot_id
+  FROM slots
+  WHERE professional_id = p_professional_id AND start_time = p_start
+  ORDER BY (service_id IS NULL) DESC
+  LIMIT 1;
+
+  RETURN v_slot_id;
+END;
+$$;
+
+-- Function: release_slot_range
+-- Libera os slots de [p_start, p_end) que não estão cobertos por outro booking ativo do profissional
+CREATE OR REPLACE FUNCTION release_slot_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_booking_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE slots s
+  SET is_available = TRUE
+  WHERE s.professional_id = p_professional_id
+    AND s.start_time < p_end
+    AND s.end_time > p_start
+    AND NOT EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.professional_id = p_professional_id
+        AND b.id <> p_booking_id
+        AND b.status IN ('pending', 'confirmed', 'checked_in')
+        AND (
+          b.slot_id = s.id
+          OR (b.start_time < s.end_time AND b.end_time > s.start_time)
+        )
+    );
+END;
+$$;
+
+-- RPC Function: create_booking_by_time
+-- Substitui create_booking_safely (mantida para compatibilidade): reserva todos os slots cobertos por
+-- [p_start_time, p_end_time) e cria o booking na mesma transação
+CREATE OR REPLACE FUNCTION create_booking_by_time(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking_id UUID;
+  v_slot_id UUID;
+BEGIN
+  PERFORM 1 FROM professionals WHERE id = p_professional_id AND company_id = p_company_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  v_slot_id := reserve_slot_range(p_professional_id, p_start_time, p_end_time, p_slot_step_minutes);
+
+  -- Quando o cliente escolheu um slot específico, ele é o slot de referência do booking
+  IF p_slot_id IS NOT NULL THEN
+    v_slot_id := p_slot_id;
+  END IF;
+
+  INSERT INTO bookings (
+    company_id,
+    professional_id,
+    service_id,
+    slot_id,
+    start_time,
+    end_time,
+    customer_name,
+    customer_email,
+    customer_phone,
+    status
+  ) VALUES (
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    v_slot_id,
+    p_start_time,
+    p_end_time,
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    'confirmed'
+  ) RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Cancelamento libera todos os slots cobertos pelo booking
+CREATE OR REPLACE FUNCTION change_booking_status(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_from_status VARCHAR,
+  p_to_status VARCHAR,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status IS DISTINCT FROM p_from_status THEN
+    RAISE EXCEPTION 'Booking status changed concurrently';
+  END IF;
+
+  UPDATE bookings
+  SET status = p_to_status,
+      updated_at = NOW(),
+      cancelled_at = CASE WHEN p_to_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      cancellation_reason = CASE WHEN p_to_status = 'cancelled' THEN p_reason ELSE cancellation_reason END
+  WHERE id = p_booking_id;
+
+  -- Booking cancelado libera o(s) slot(s)
+  IF p_to_status = 'cancelled' THEN
+    IF v_booking.start_time IS NOT NULL THEN
+      PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, p_booking_id);
+    ELSE
+      UPDATE slots
+      SET is_available = TRUE
+      WHERE id = v_booking.slot_id;
+    END IF;
+  END IF;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    p_from_status,
+    p_to_status,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
+
+-- Remarcação de bookings por faixa: a duração é mantida e a nova faixa começa no início do novo slot
+CREATE OR REPLACE FUNCTION reschedule_booking_safely(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_slot slots%ROWTYPE;
+  v_new_start TIMESTAMP WITH TIME ZONE;
+  v_new_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+  END IF;
+
+  IF v_booking.slot_id = p_new_slot_id THEN
+    RAISE EXCEPTION 'Booking is already in this slot';
+  END IF;
+
+  -- Check if new slot exists (locking it until the end of the transaction)
+  SELECT * INTO v_slot
+  FROM slots
+  WHERE id = p_new_slot_id AND professional_id = v_booking.professional_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  IF v_booking.start_time IS NOT NULL THEN
+    v_new_start := v_slot.start_time;
+    v_new_end := v_slot.start_time + (v_booking.end_time - v_booking.start_time);
+
+    -- Libera a faixa atual antes de reservar a nova; qualquer erro desfaz as duas operações
+    PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, p_booking_id);
+    PERFORM reserve_slot_range(v_booking.professional_id, v_new_start, v_new_end);
+  ELSE
+    IF NOT v_slot.is_available THEN
+      RAISE EXCEPTION 'Slot is not available';
+    END IF;
+
+    -- Free old slot and reserve the new one
+    UPDATE slots
+    SET is_available = TRUE
+    WHERE id = v_booking.slot_id;
+
+    UPDATE slots
+    SET is_available = FALSE
+    WHERE id = p_new_slot_id;
+  END IF;
+
+  UPDATE bookings
+  SET slot_id = p_new_slot_id,
+      start_time = v_new_start,
+      end_time = v_new_end,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    from_slot_id,
+    to_slot_id,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    v_booking.status,
+    v_booking.status,
+    v_booking.slot_id,
+    p_new_slot_id,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
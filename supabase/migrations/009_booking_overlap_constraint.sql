@@ -0,0 +1,105 @@
+-- Impede bookings sobrepostos do mesmo profissional no nível do banco
+-- Toda reserva passa a ter start_time/end_time e uma exclusion constraint sobre tstzrange garante a não sobreposição,
+-- mesmo que a verificação de slots seja contornada (ex.: serviço de 60 min reservado em um único slot de 15 min)
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Preenche a faixa dos bookings antigos a partir do slot + duração do serviço
+UPDATE bookings b
+SET start_time = s.start_time,
+    end_time = s.start_time + make_interval(mins => sv.duration_minutes)
+FROM slots s, services sv
+WHERE b.start_time IS NULL
+  AND s.id = b.slot_id
+  AND sv.id = b.service_id;
+
+-- Bookings cujo serviço não existe mais usam a duração do próprio slot
+UPDATE bookings b
+SET start_time = s.start_time,
+    end_time = s.end_time
+FROM slots s
+WHERE b.start_time IS NULL
+  AND s.id = b.slot_id;
+
+ALTER TABLE bookings
+  ALTER COLUMN start_time SET NOT NULL,
+  ALTER COLUMN end_time SET NOT NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_time_range_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_time_range_check CHECK (end_time > start_time);
+
+-- Bookings ativos já sobrepostos impedem a criação da constraint: a migration para com a lista
+-- para que sejam remarcados ou cancelados manualmente antes de rodar novamente
+DO $$
+DECLARE
+  v_conflicts TEXT;
+BEGIN
+  SELECT string_agg(a.id || ' x ' || b.id, ', ') INTO v_conflicts
+  FROM bookings a
+  JOIN bookings b
+    ON a.professional_id = b.professional_id
+   AND a.id < b.id
+   AND tstzrange(a.start_time, a.end_time, '[)') && tstzrange(b.start_time, b.end_time, '[)')
+  WHERE a.status IN ('pending', 'confirmed', 'checked_in')
+    AND b.status IN ('pending', 'confirmed', 'checked_in');
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Overlapping active bookings must be resolved before applying this migration: %', v_conflicts;
+  END IF;
+END
+$$;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tstzrange(start_time, end_time, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed', 'checked_in'));
+
+-- RPC Function: create_booking_safely
+-- Mantida para compatibilidade: a faixa é calculada a partir do slot + duração do serviço e a reserva
+-- segue o mesmo caminho de create_booking_by_time
+CREATE OR REPLACE FUNCTION create_booking_safely(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_slot_id UUID,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_slot slots%ROWTYPE;
+  v_duration INTEGER;
+BEGIN
+  SELECT * INTO v_slot
+  FROM slots
+  WHERE id = p_slot_id AND professional_id = p_professional_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  SELECT duration_minutes INTO v_duration
+  FROM services
+  WHERE id = p_service_id AND company_id = p_company_id;
+
+  RETURN create_booking_by_time(
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    v_slot.start_time,
+    COALESCE(v_slot.start_time + make_interval(mins => v_duration), v_slot.end_time),
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    p_slot_id
+  );
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Webhooks de saída: assinaturas por company e fila de entregas com retry/backoff
+-- O payload é assinado com HMAC-SHA256 usando o secret da assinatura (header X-Webhook-Signature)
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description VARCHAR(255),
+  events TEXT[] NOT NULL,
+  secret VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT webhook_subscriptions_events_check CHECK (cardinality(events) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_company_id ON webhook_subscriptions(company_id);
+
+-- Cada evento gera uma entrega por assinatura; a linha é o log consultável e reenviável
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  event VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_id ON webhook_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhook_subscriptions_all_for_admin" ON webhook_subscriptions
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
+
+CREATE POLICY "webhook_deliveries_select_for_admin" ON webhook_deliveries
+  FOR SELECT
+  USING (company_id = public.user_company_id());
+
+-- RPC Function: claim_webhook_deliveries
+-- Reserva entregas vencidas para envio. SKIP LOCKED evita que duas instâncias entreguem a mesma linha;
+-- entregas presas em 'delivering' (processo caiu no meio) voltam a ser elegíveis após p_lease_seconds.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_company_id UUID DEFAULT NULL,
+  p_delivery_ids UUID[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'delivering',
+      next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE d.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE status IN ('pending', 'delivering')
+      AND next_attempt_at <= NOW()
+      AND (p_company_id IS NULL OR company_id = p_company_id)
+      AND (p_delivery_ids IS NULL OR id = ANY(p_delivery_ids))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Idempotency-Key nas rotas de escrita autenticadas por API Key
+-- A primeira resposta é guardada por api_client + chave e devolvida nas repetições com o mesmo corpo
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  api_client_id UUID NOT NULL REFERENCES api_clients(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  request_hash VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT idempotency_keys_client_key_unique UNIQUE (api_client_id, idempotency_key)
+);
+
+-- Chaves expiradas (retenção de 24h) são reaproveitadas pela API e podem ser limpas periodicamente:
+-- DELETE FROM idempotency_keys WHERE created_at < NOW() - INTERVAL '24 hours';
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+
+-- Acesso apenas pelo service role (sem policies)
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
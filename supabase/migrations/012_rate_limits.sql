@@ -0,0 +1,10 @@
+-- Limites de requisições por API client (key) e por company
+-- NULL usa o padrão das variáveis de ambiente (API_RATE_LIMIT_*, API_DAILY_QUOTA...); 0 desativa o limite
+
+ALTER TABLE api_clients
+  ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute >= 0),
+  ADD COLUMN IF NOT EXISTS daily_quota INTEGER CHECK (daily_quota >= 0);
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute >= 0),
+  ADD COLUMN IF NOT EXISTS daily_quota INTEGER CHECK (daily_quota >= 0);
@@ -0,0 +1,24 @@
+-- Scopes (permissões) de cada API Key no formato <recurso>:<read|write>
+-- Keys existentes recebem todos os scopes para manter o acesso que já tinham
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY[
+    'professionals:read', 'professionals:write',
+    'services:read', 'services:write',
+    'availabilities:read', 'availabilities:write',
+    'slots:read', 'slots:write',
+    'bookings:read', 'bookings:write',
+    'webhooks:write'
+  ]::TEXT[];
+
+ALTER TABLE api_keys
+  ADD CONSTRAINT api_keys_scopes_valid CHECK (
+    scopes <@ ARRAY[
+      'professionals:read', 'professionals:write',
+      'services:read', 'services:write',
+      'availabilities:read', 'availabilities:write',
+      'slots:read', 'slots:write',
+      'bookings:read', 'bookings:write',
+      'webhooks:write'
+    ]::TEXT[]
+  );
@@ -0,0 +1,8 @@
+-- Identificador público da API Key, embutido no token (sk_<apiClientId>_<keyIdentifier>_<random>)
+-- Permite buscar a key pelo índice e verificar um único hash argon2 por requisição
+-- Keys legadas ficam com NULL e continuam sendo verificadas pelo formato antigo
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS key_identifier TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_identifier ON api_keys(key_identifier);
@@ -0,0 +1,11 @@
+-- Expiração, rotação e registro de uso das API Keys
+-- expires_at NULL = key sem expiração; na rotação a key antiga recebe expires_at = fim do período de carência
+-- last_used_at/last_used_ip são atualizados no máximo uma vez por minuto por key
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_used_ip TEXT,
+  ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_expires_at ON api_keys(expires_at);
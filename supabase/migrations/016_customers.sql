@@ -0,0 +1,176 @@
+-- Clientes por company, deduplicados por email ou telefone normalizados
+-- normalized_email = lower(trim(email)); normalized_phone = apenas os dígitos do telefone
+-- (mesma normalização de lib/services/customer.util.ts)
+
+CREATE TABLE IF NOT EXISTS customers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  normalized_email VARCHAR(255),
+  normalized_phone VARCHAR(50),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_company_id ON customers(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_company_email ON customers(company_id, normalized_email)
+  WHERE normalized_email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_company_phone ON customers(company_id, normalized_phone)
+  WHERE normalized_phone IS NOT NULL;
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "customers_all_for_admin" ON customers
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
+
+-- Bookings passam a referenciar o cliente; os campos customer_* continuam como cópia do contato usado
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_customer_id ON bookings(customer_id, start_time DESC);
+
+-- Backfill: um cliente por email normalizado (contato do booking mais recente) e, para bookings
+-- sem email, um por telefone. Conflitos de telefone entre emails diferentes ficam no primeiro cliente.
+INSERT INTO customers (company_id, name, email, phone, normalized_email, normalized_phone)
+SELECT DISTINCT ON (company_id, lower(trim(customer_email)))
+  company_id,
+  customer_name,
+  trim(customer_email),
+  customer_phone,
+  lower(trim(customer_email)),
+  NULLIF(regexp_replace(COALESCE(customer_phone, ''), '\D', '', 'g'), '')
+FROM bookings
+WHERE NULLIF(trim(customer_email), '') IS NOT NULL
+ORDER BY company_id, lower(trim(customer_email)), created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE bookings b
+SET customer_id = c.id
+FROM customers c
+WHERE b.customer_id IS NULL
+  AND c.company_id = b.company_id
+  AND c.normalized_email = lower(trim(b.customer_email));
+
+INSERT INTO customers (company_id, name, phone, normalized_phone)
+SELECT DISTINCT ON (company_id, regexp_replace(customer_phone, '\D', '', 'g'))
+  company_id,
+  customer_name,
+  customer_phone,
+  regexp_replace(customer_phone, '\D', '', 'g')
+FROM bookings
+WHERE customer_id IS NULL
+  AND regexp_replace(COALESCE(customer_phone, ''), '\D', '', 'g') <> ''
+ORDER BY company_id, regexp_replace(customer_phone, '\D', '', 'g'), created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE bookings b
+SET customer_id = c.id
+FROM customers c
+WHERE b.customer_id IS NULL
+  AND c.company_id = b.company_id
+  AND c.normalized_phone = NULLIF(regexp_replace(COALESCE(b.customer_phone, ''), '\D', '', 'g'), '');
+
+-- create_booking_by_time ganha p_customer_id (a assinatura muda, então a versão anterior é removida)
+DROP FUNCTION IF EXISTS create_booking_by_time(UUID, UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, VARCHAR, VARCHAR, VARCHAR, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION create_booking_by_time(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15,
+  p_customer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking_id UUID;
+  v_slot_id UUID;
+BEGIN
+  PERFORM 1 FROM professionals WHERE id = p_professional_id AND company_id = p_company_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  v_slot_id := reserve_slot_range(p_professional_id, p_start_time, p_end_time, p_slot_step_minutes);
+
+  -- Quando o cliente escolheu um slot específico, ele é o slot de referência do booking
+  IF p_slot_id IS NOT NULL THEN
+    v_slot_id := p_slot_id;
+  END IF;
+
+  INSERT INTO bookings (
+    company_id,
+    professional_id,
+    service_id,
+    slot_id,
+    start_time,
+    end_time,
+    customer_id,
+    customer_name,
+    customer_email,
+    customer_phone,
+    status
+  ) VALUES (
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    v_slot_id,
+    p_start_time,
+    p_end_time,
+    p_customer_id,
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    'confirmed'
+  ) RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Clientes passam a ter scopes próprios; keys que já acessavam bookings (e, por eles, os dados
+-- de contato) recebem o scope equivalente de customers
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+
+UPDATE api_keys SET scopes = array_append(scopes, 'customers:read')
+WHERE 'bookings:read' = ANY(scopes) AND NOT 'customers:read' = ANY(scopes);
+
+UPDATE api_keys SET scopes = array_append(scopes, 'customers:write')
+WHERE 'bookings:write' = ANY(scopes) AND NOT 'customers:write' = ANY(scopes);
+
+ALTER TABLE api_keys
+  ALTER COLUMN scopes SET DEFAULT ARRAY[
+    'professionals:read', 'professionals:write',
+    'services:read', 'services:write',
+    'availabilities:read', 'availabilities:write',
+    'slots:read', 'slots:write',
+    'bookings:read', 'bookings:write',
+    'customers:read', 'customers:write',
+    'webhooks:write'
+  ]::TEXT[];
+
+ALTER TABLE api_keys
+  ADD CONSTRAINT api_keys_scopes_valid CHECK (
+    scopes <@ ARRAY[
+      'professionals:read', 'professionals:write',
+      'services:read', 'services:write',
+      'availabilities:read', 'availabilities:write',
+      'slots:read', 'slots:write',
+      'bookings:read', 'bookings:write',
+      'customers:read', 'customers:write',
+      'webhooks:write'
+    ]::TEXT[]
+  );
@@ -0,0 +1,9 @@
+-- Índices para a paginação por cursor das listagens da API (ordenação + id como desempate)
+-- Cada página filtra "depois do cursor" e ordena pelas mesmas colunas, então o Postgres percorre o índice
+
+CREATE INDEX IF NOT EXISTS idx_bookings_company_created_at ON bookings(company_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_bookings_company_start_time ON bookings(company_id, start_time, id);
+CREATE INDEX IF NOT EXISTS idx_professionals_company_created_at ON professionals(company_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_services_company_created_at ON services(company_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_customers_company_created_at ON customers(company_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_availabilities_professional_day ON availabilities(professional_id, day_of_week, start_time, id);
@@ -0,0 +1,40 @@
+-- Serviços oferecidos por cada profissional, com duração e preço opcionais por profissional
+-- (NULL usa os valores do serviço). Slots e bookings só aceitam serviços atribuídos ao profissional.
+
+CREATE TABLE IF NOT EXISTS professional_services (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  price DECIMAL(10, 2) CHECK (price IS NULL OR price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (professional_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_professional_services_service_id ON professional_services(service_id);
+CREATE INDEX IF NOT EXISTS idx_professional_services_professional_created_at
+  ON professional_services(professional_id, created_at, id);
+
+ALTER TABLE professional_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "professional_services_all_for_admin" ON professional_services
+  FOR ALL
+  USING (
+    professional_id IN (
+      SELECT id FROM professionals WHERE company_id = public.user_company_id()
+    )
+  )
+  WITH CHECK (
+    professional_id IN (
+      SELECT id FROM professionals WHERE company_id = public.user_company_id()
+    )
+  );
+
+-- Mantém o comportamento atual: todo profissional passa a oferecer todos os serviços da sua company.
+-- Remova as atribuições que não fazem sentido via DELETE /api/v1/professionals/{id}/services/{serviceId}.
+INSERT INTO professional_services (professional_id, service_id)
+SELECT p.id, s.id
+FROM professionals p
+JOIN services s ON s.company_id = p.company_id
+ON CONFLICT (professional_id, service_id) DO NOTHING;
@@ -0,0 +1,260 @@
+-- Buffers antes/depois do atendimento (preparação e limpeza)
+-- O horário do booking (start_time/end_time) continua sendo só o atendimento; a faixa bloqueada na agenda
+-- (blocked_start_time/blocked_end_time) inclui os buffers e é ela que impede sobreposição entre bookings
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE services DROP CONSTRAINT IF EXISTS services_buffers_check;
+ALTER TABLE services
+  ADD CONSTRAINT services_buffers_check CHECK (buffer_before_minutes >= 0 AND buffer_after_minutes >= 0);
+
+-- A faixa bloqueada é gravada no booking (snapshot dos buffers no momento da reserva): alterar os buffers
+-- do serviço não muda bookings já feitos. timestamptz ± interval não é IMMUTABLE, então a faixa não pode
+-- ser calculada dentro da exclusion constraint.
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS blocked_start_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS blocked_end_time TIMESTAMP WITH TIME ZONE;
+
+UPDATE bookings
+SET blocked_start_time = start_time,
+    blocked_end_time = end_time
+WHERE blocked_start_time IS NULL;
+
+ALTER TABLE bookings
+  ALTER COLUMN blocked_start_time SET NOT NULL,
+  ALTER COLUMN blocked_end_time SET NOT NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_blocked_range_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_blocked_range_check
+  CHECK (blocked_start_time <= start_time AND blocked_end_time >= end_time);
+
+-- A não sobreposição passa a considerar os buffers (o nome é mantido: a API traduz a violação em 409)
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tstzrange(blocked_start_time, blocked_end_time, '[)') WITH &&
+  )
+  WHERE (status IN ('pending', 'confirmed', 'checked_in'));
+
+-- Function: release_slot_range
+-- Libera os slots de [p_start, p_end) (ampliada para a faixa bloqueada do booking) que não estão cobertos
+-- pela faixa bloqueada de outro booking ativo do profissional
+CREATE OR REPLACE FUNCTION release_slot_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_booking_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_start TIMESTAMP WITH TIME ZONE := p_start;
+  v_end TIMESTAMP WITH TIME ZONE := p_end;
+BEGIN
+  -- Chamadores (cancelamento, remarcação) passam o horário do atendimento; os buffers também são liberados
+  SELECT LEAST(p_start, blocked_start_time), GREATEST(p_end, blocked_end_time)
+  INTO v_start, v_end
+  FROM bookings
+  WHERE id = p_booking_id;
+
+  IF v_start IS NULL THEN
+    v_start := p_start;
+    v_end := p_end;
+  END IF;
+
+  UPDATE slots s
+  SET is_available = TRUE
+  WHERE s.professional_id = p_professional_id
+    AND s.start_time < v_end
+    AND s.end_time > v_start
+    AND NOT EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.professional_id = p_professional_id
+        AND b.id <> p_booking_id
+        AND b.status IN ('pending', 'confirmed', 'checked_in')
+        AND (
+          b.slot_id = s.id
+          OR (b.blocked_start_time < s.end_time AND b.blocked_end_time > s.start_time)
+        )
+    );
+END;
+$$;
+
+-- create_booking_by_time ganha os buffers (a assinatura muda, então a versão anterior é removida)
+DROP FUNCTION IF EXISTS create_booking_by_time(UUID, UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, VARCHAR, VARCHAR, VARCHAR, UUID, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION create_booking_by_time(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15,
+  p_customer_id UUID DEFAULT NULL,
+  p_buffer_before_minutes INTEGER DEFAULT 0,
+  p_buffer_after_minutes INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking_id UUID;
+  v_slot_id UUID;
+  v_blocked_start TIMESTAMP WITH TIME ZONE;
+  v_blocked_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM 1 FROM professionals WHERE id = p_professional_id AND company_id = p_company_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  v_blocked_start := p_start_time - make_interval(mins => COALESCE(p_buffer_before_minutes, 0));
+  v_blocked_end := p_end_time + make_interval(mins => COALESCE(p_buffer_after_minutes, 0));
+
+  PERFORM reserve_slot_range(p_professional_id, v_blocked_start, v_blocked_end, p_slot_step_minutes);
+
+  -- O slot de referência é o que começa no atendimento (não no buffer), ou o escolhido pelo cliente
+  IF p_slot_id IS NOT NULL THEN
+    v_slot_id := p_slot_id;
+  ELSE
+    SELECT id INTO v_slot_id
+    FROM slots
+    WHERE professional_id = p_professional_id AND start_time <= p_start_time AND end_time > p_start_time
+    ORDER BY (service_id IS NULL) DESC, start_time DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO bookings (
+    company_id,
+    professional_id,
+    service_id,
+    slot_id,
+    start_time,
+    end_time,
+    blocked_start_time,
+    blocked_end_time,
+    customer_id,
+    customer_name,
+    customer_email,
+    customer_phone,
+    status
+  ) VALUES (
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    v_slot_id,
+    p_start_time,
+    p_end_time,
+    v_blocked_start,
+    v_blocked_end,
+    p_customer_id,
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    'confirmed'
+  ) RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Remarcação mantém a duração e os buffers do booking: a faixa bloqueada acompanha o novo início
+CREATE OR REPLACE FUNCTION reschedule_booking_safely(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_slot slots%ROWTYPE;
+  v_new_start TIMESTAMP WITH TIME ZONE;
+  v_new_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+  END IF;
+
+  IF v_booking.slot_id = p_new_slot_id THEN
+    RAISE EXCEPTION 'Booking is already in this slot';
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM slots
+  WHERE id = p_new_slot_id AND professional_id = v_booking.professional_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  v_new_start := v_slot.start_time;
+  v_new_end := v_slot.start_time + (v_booking.end_time - v_booking.start_time);
+
+  -- Libera a faixa atual antes de reservar a nova; qualquer erro desfaz as duas operações
+  PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, p_booking_id);
+  PERFORM reserve_slot_range(
+    v_booking.professional_id,
+    v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+    v_new_end + (v_booking.blocked_end_time - v_booking.end_time)
+  );
+
+  UPDATE bookings
+  SET slot_id = p_new_slot_id,
+      start_time = v_new_start,
+      end_time = v_new_end,
+      blocked_start_time = v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+      blocked_end_time = v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    from_slot_id,
+    to_slot_id,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    v_booking.status,
+    v_booking.status,
+    v_booking.slot_id,
+    p_new_slot_id,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
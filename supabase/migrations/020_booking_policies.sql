@@ -0,0 +1,28 @@
+-- Política de agendamento: antecedência mínima, janela máxima e prazo de cancelamento/remarcação
+-- Definida por company, com override opcional por serviço (NULL no serviço usa o valor da company)
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS min_notice_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_advance_days INTEGER, -- NULL = sem limite
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS companies_booking_policy_check;
+ALTER TABLE companies
+  ADD CONSTRAINT companies_booking_policy_check CHECK (
+    min_notice_minutes >= 0
+    AND (max_advance_days IS NULL OR max_advance_days > 0)
+    AND cancellation_cutoff_minutes >= 0
+  );
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS min_notice_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS max_advance_days INTEGER,
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_minutes INTEGER;
+
+ALTER TABLE services DROP CONSTRAINT IF EXISTS services_booking_policy_check;
+ALTER TABLE services
+  ADD CONSTRAINT services_booking_policy_check CHECK (
+    (min_notice_minutes IS NULL OR min_notice_minutes >= 0)
+    AND (max_advance_days IS NULL OR max_advance_days > 0)
+    AND (cancellation_cutoff_minutes IS NULL OR cancellation_cutoff_minutes >= 0)
+  );
@@ -0,0 +1,233 @@
+-- Bookings recorrentes: as ocorrências de uma série compartilham series_id
+-- A série guarda a RRULE e o timezone usados para gerar as ocorrências; cada ocorrência continua sendo
+-- um booking comum (status, cancelamento e remarcação individuais continuam valendo)
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  rrule VARCHAR(255) NOT NULL,
+  timezone VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_company_id ON booking_series(company_id);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_series_all_for_admin" ON booking_series
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings(series_id, start_time)
+  WHERE series_id IS NOT NULL;
+
+-- Function: create_booking_series
+-- Cria a série e todas as ocorrências na mesma transação: se qualquer faixa estiver ocupada, nada é criado
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_rrule VARCHAR,
+  p_timezone VARCHAR,
+  p_start_times TIMESTAMP WITH TIME ZONE[],
+  p_duration_minutes INTEGER,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_buffer_before_minutes INTEGER DEFAULT 0,
+  p_buffer_after_minutes INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_series_id UUID;
+  v_booking_id UUID;
+  v_start TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO booking_series (company_id, professional_id, service_id, customer_id, rrule, timezone)
+  VALUES (p_company_id, p_professional_id, p_service_id, p_customer_id, p_rrule, p_timezone)
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_start IN ARRAY p_start_times LOOP
+    v_booking_id := create_booking_by_time(
+      p_company_id,
+      p_professional_id,
+      p_service_id,
+      v_start,
+      v_start + make_interval(mins => p_duration_minutes),
+      p_customer_name,
+      p_customer_email,
+      p_customer_phone,
+      NULL,
+      15,
+      p_customer_id,
+      p_buffer_before_minutes,
+      p_buffer_after_minutes
+    );
+
+    UPDATE bookings SET series_id = v_series_id WHERE id = v_booking_id;
+  END LOOP;
+
+  RETURN v_series_id;
+END;
+$$;
+
+-- Function: cancel_booking_series
+-- Cancela as ocorrências informadas de uma série (toda a série ou "esta e as seguintes") atomicamente
+CREATE OR REPLACE FUNCTION cancel_booking_series(
+  p_series_id UUID,
+  p_company_id UUID,
+  p_booking_ids UUID[],
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  FOR v_booking IN
+    SELECT * FROM bookings
+    WHERE id = ANY(p_booking_ids) AND series_id = p_series_id AND company_id = p_company_id
+    ORDER BY start_time
+    FOR UPDATE
+  LOOP
+    IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'Booking status changed concurrently';
+    END IF;
+
+    PERFORM change_booking_status(
+      v_booking.id,
+      p_company_id,
+      v_booking.status,
+      'cancelled',
+      p_reason,
+      p_actor_type,
+      p_actor_id
+    );
+  END LOOP;
+END;
+$$;
+
+-- Function: reschedule_booking_series
+-- Move as ocorrências informadas para os novos inícios (mesma posição nos arrays), mantendo a duração e os
+-- buffers de cada booking (arrays em ordem de início). Todas as faixas atuais são liberadas antes de reservar
+-- as novas, então as ocorrências podem ir para horários que cruzam os antigos da própria série.
+CREATE OR REPLACE FUNCTION reschedule_booking_series(
+  p_series_id UUID,
+  p_company_id UUID,
+  p_booking_ids UUID[],
+  p_new_start_times TIMESTAMP WITH TIME ZONE[],
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_count INTEGER := COALESCE(array_length(p_booking_ids, 1), 0);
+  v_forward BOOLEAN;
+  v_position INTEGER;
+  v_index INTEGER;
+  v_new_start TIMESTAMP WITH TIME ZONE;
+  v_new_end TIMESTAMP WITH TIME ZONE;
+  v_slot_id UUID;
+BEGIN
+  IF array_length(p_booking_ids, 1) IS DISTINCT FROM array_length(p_new_start_times, 1) THEN
+    RAISE EXCEPTION 'Invalid time range';
+  END IF;
+
+  FOR v_index IN 1 .. v_count LOOP
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_ids[v_index] AND series_id = p_series_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+    END IF;
+
+    PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, v_booking.id);
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  -- bookings_no_overlap é verificada linha a linha: ao adiantar a série, a última ocorrência é movida
+  -- primeiro (e a primeira ao antecipar), para nenhuma ocupar a faixa antiga de outra ainda não movida
+  SELECT p_new_start_times[1] > start_time INTO v_forward FROM bookings WHERE id = p_booking_ids[1];
+
+  FOR v_position IN 1 .. v_count LOOP
+    v_index := CASE WHEN v_forward THEN v_count - v_position + 1 ELSE v_position END;
+
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_ids[v_index];
+
+    v_new_start := p_new_start_times[v_index];
+    v_new_end := v_new_start + (v_booking.end_time - v_booking.start_time);
+
+    PERFORM reserve_slot_range(
+      v_booking.professional_id,
+      v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+      v_new_end + (v_booking.blocked_end_time - v_booking.end_time)
+    );
+
+    SELECT id INTO v_slot_id
+    FROM slots
+    WHERE professional_id = v_booking.professional_id AND start_time <= v_new_start AND end_time > v_new_start
+    ORDER BY (service_id IS NULL) DESC, start_time DESC
+    LIMIT 1;
+
+    UPDATE bookings
+    SET slot_id = v_slot_id,
+        start_time = v_new_start,
+        end_time = v_new_end,
+        blocked_start_time = v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+        blocked_end_time = v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+        updated_at = NOW()
+    WHERE id = v_booking.id;
+
+    INSERT INTO booking_status_history (
+      booking_id,
+      company_id,
+      from_status,
+      to_status,
+      from_slot_id,
+      to_slot_id,
+      reason,
+      actor_type,
+      actor_id
+    ) VALUES (
+      v_booking.id,
+      p_company_id,
+      v_booking.status,
+      v_booking.status,
+      v_booking.slot_id,
+      v_slot_id,
+      p_reason,
+      p_actor_type,
+      p_actor_id
+    );
+  END LOOP;
+
+  UPDATE booking_series SET updated_at = NOW() WHERE id = p_series_id;
+END;
+$$;
@@ -0,0 +1,411 @@
+-- Serviços em grupo (aulas): uma sessão comporta até `capacity` bookings
+-- Bookings da mesma sessão (mesmo serviço e mesmo início) compartilham session_key e podem ocupar a mesma
+-- faixa; o primeiro booking da sessão reserva os slots e os seguintes apenas ocupam uma vaga.
+-- Serviços individuais continuam com capacity = 1 e session_key NULL.
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS capacity INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE services DROP CONSTRAINT IF EXISTS services_capacity_check;
+ALTER TABLE services
+  ADD CONSTRAINT services_capacity_check CHECK (capacity >= 1);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS session_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_session_key ON bookings(professional_id, session_key)
+  WHERE session_key IS NOT NULL;
+
+-- Bookings só podem se sobrepor quando são da mesma sessão; sem session_key, cada booking é a própria sessão
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tstzrange(blocked_start_time, blocked_end_time, '[)') WITH &&,
+    (COALESCE(session_key, id::text)) WITH <>
+  )
+  WHERE (status IN ('pending', 'confirmed', 'checked_in'));
+
+-- Function: group_session_key
+-- Mesmo formato de groupSessionKey em lib/services/group-session.util.ts
+CREATE OR REPLACE FUNCTION group_session_key(
+  p_service_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_service_id::text || '@' || floor(extract(epoch FROM p_start))::bigint::text;
+$$;
+
+-- Function: reserve_booking_range
+-- Reserva a faixa de um booking. Sem sessão, é reserve_slot_range. Em sessões de grupo, conta as vagas
+-- ocupadas com o profissional travado (o mesmo lock de reserve_slot_range), então duas reservas concorrentes
+-- das últimas vagas são serializadas e a segunda recebe 'Session is full'.
+CREATE OR REPLACE FUNCTION reserve_booking_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_session_key TEXT DEFAULT NULL,
+  p_capacity INTEGER DEFAULT 1,
+  p_booking_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_taken INTEGER;
+BEGIN
+  IF p_session_key IS NULL THEN
+    PERFORM reserve_slot_range(p_professional_id, p_start, p_end, p_slot_step_minutes);
+    RETURN;
+  END IF;
+
+  PERFORM 1 FROM professionals WHERE id = p_professional_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM bookings
+  WHERE professional_id = p_professional_id
+    AND session_key = p_session_key
+    AND status IN ('pending', 'confirmed', 'checked_in')
+    AND (p_booking_id IS NULL OR id <> p_booking_id);
+
+  IF v_taken >= p_capacity THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  -- A sessão já existe: os slots foram reservados pelo primeiro booking
+  IF v_taken = 0 THEN
+    PERFORM reserve_slot_range(p_professional_id, p_start, p_end, p_slot_step_minutes);
+  END IF;
+END;
+$$;
+
+-- create_booking_by_time passa a ocupar uma vaga da sessão em serviços com capacity > 1
+-- (mesma assinatura de 019; a capacidade é lida do serviço dentro da transação)
+CREATE OR REPLACE FUNCTION create_booking_by_time(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15,
+  p_customer_id UUID DEFAULT NULL,
+  p_buffer_before_minutes INTEGER DEFAULT 0,
+  p_buffer_after_minutes INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking_id UUID;
+  v_slot_id UUID;
+  v_blocked_start TIMESTAMP WITH TIME ZONE;
+  v_blocked_end TIMESTAMP WITH TIME ZONE;
+  v_capacity INTEGER;
+  v_session_key TEXT;
+BEGIN
+  PERFORM 1 FROM professionals WHERE id = p_professional_id AND company_id = p_company_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  SELECT capacity INTO v_capacity FROM services WHERE id = p_service_id;
+  v_capacity := COALESCE(v_capacity, 1);
+
+  IF v_capacity > 1 THEN
+    v_session_key := group_session_key(p_service_id, p_start_time);
+  END IF;
+
+  v_blocked_start := p_start_time - make_interval(mins => COALESCE(p_buffer_before_minutes, 0));
+  v_blocked_end := p_end_time + make_interval(mins => COALESCE(p_buffer_after_minutes, 0));
+
+  PERFORM reserve_booking_range(
+    p_professional_id,
+    v_blocked_start,
+    v_blocked_end,
+    v_session_key,
+    v_capacity,
+    NULL,
+    p_slot_step_minutes
+  );
+
+  -- O slot de referência é o que começa no atendimento (não no buffer), ou o escolhido pelo cliente
+  IF p_slot_id IS NOT NULL THEN
+    v_slot_id := p_slot_id;
+  ELSE
+    SELECT id INTO v_slot_id
+    FROM slots
+    WHERE professional_id = p_professional_id AND start_time <= p_start_time AND end_time > p_start_time
+    ORDER BY (service_id IS NULL) DESC, start_time DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO bookings (
+    company_id,
+    professional_id,
+    service_id,
+    slot_id,
+    start_time,
+    end_time,
+    blocked_start_time,
+    blocked_end_time,
+    session_key,
+    customer_id,
+    customer_name,
+    customer_email,
+    customer_phone,
+    status
+  ) VALUES (
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    v_slot_id,
+    p_start_time,
+    p_end_time,
+    v_blocked_start,
+    v_blocked_end,
+    v_session_key,
+    p_customer_id,
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    'confirmed'
+  ) RETURNING id INTO v_booking_id;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- Remarcação de um booking de grupo entra na sessão do novo horário (ou abre uma nova)
+CREATE OR REPLACE FUNCTION reschedule_booking_safely(
+  p_booking_id UUID,
+  p_company_id UUID,
+  p_new_slot_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_slot slots%ROWTYPE;
+  v_new_start TIMESTAMP WITH TIME ZONE;
+  v_new_end TIMESTAMP WITH TIME ZONE;
+  v_capacity INTEGER;
+  v_session_key TEXT;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE id = p_booking_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+  END IF;
+
+  IF v_booking.slot_id = p_new_slot_id THEN
+    RAISE EXCEPTION 'Booking is already in this slot';
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM slots
+  WHERE id = p_new_slot_id AND professional_id = v_booking.professional_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  v_new_start := v_slot.start_time;
+  v_new_end := v_slot.start_time + (v_booking.end_time - v_booking.start_time);
+
+  SELECT capacity INTO v_capacity FROM services WHERE id = v_booking.service_id;
+  v_capacity := COALESCE(v_capacity, 1);
+
+  IF v_capacity > 1 THEN
+    v_session_key := group_session_key(v_booking.service_id, v_new_start);
+  END IF;
+
+  -- Libera a faixa atual antes de reservar a nova; qualquer erro desfaz as duas operações
+  PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, p_booking_id);
+  PERFORM reserve_booking_range(
+    v_booking.professional_id,
+    v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+    v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+    v_session_key,
+    v_capacity,
+    p_booking_id
+  );
+
+  UPDATE bookings
+  SET slot_id = p_new_slot_id,
+      start_time = v_new_start,
+      end_time = v_new_end,
+      blocked_start_time = v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+      blocked_end_time = v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+      session_key = v_session_key,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_status_history (
+    booking_id,
+    company_id,
+    from_status,
+    to_status,
+    from_slot_id,
+    to_slot_id,
+    reason,
+    actor_type,
+    actor_id
+  ) VALUES (
+    p_booking_id,
+    p_company_id,
+    v_booking.status,
+    v_booking.status,
+    v_booking.slot_id,
+    p_new_slot_id,
+    p_reason,
+    p_actor_type,
+    p_actor_id
+  );
+
+  RETURN p_booking_id;
+END;
+$$;
+
+-- Remarcação de séries segue a mesma regra: cada ocorrência de grupo entra na sessão do novo horário
+CREATE OR REPLACE FUNCTION reschedule_booking_series(
+  p_series_id UUID,
+  p_company_id UUID,
+  p_booking_ids UUID[],
+  p_new_start_times TIMESTAMP WITH TIME ZONE[],
+  p_reason TEXT DEFAULT NULL,
+  p_actor_type VARCHAR DEFAULT 'system',
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_count INTEGER := COALESCE(array_length(p_booking_ids, 1), 0);
+  v_forward BOOLEAN;
+  v_position INTEGER;
+  v_index INTEGER;
+  v_new_start TIMESTAMP WITH TIME ZONE;
+  v_new_end TIMESTAMP WITH TIME ZONE;
+  v_slot_id UUID;
+  v_capacity INTEGER;
+  v_session_key TEXT;
+BEGIN
+  IF array_length(p_booking_ids, 1) IS DISTINCT FROM array_length(p_new_start_times, 1) THEN
+    RAISE EXCEPTION 'Invalid time range';
+  END IF;
+
+  FOR v_index IN 1 .. v_count LOOP
+    SELECT * INTO v_booking
+    FROM bookings
+    WHERE id = p_booking_ids[v_index] AND series_id = p_series_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking not found';
+    END IF;
+
+    IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+      RAISE EXCEPTION 'Booking cannot be rescheduled in status %', v_booking.status;
+    END IF;
+
+    PERFORM release_slot_range(v_booking.professional_id, v_booking.start_time, v_booking.end_time, v_booking.id);
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  -- bookings_no_overlap é verificada linha a linha: ao adiantar a série, a última ocorrência é movida
+  -- primeiro (e a primeira ao antecipar), para nenhuma ocupar a faixa antiga de outra ainda não movida
+  SELECT p_new_start_times[1] > start_time INTO v_forward FROM bookings WHERE id = p_booking_ids[1];
+
+  FOR v_position IN 1 .. v_count LOOP
+    v_index := CASE WHEN v_forward THEN v_count - v_position + 1 ELSE v_position END;
+
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_ids[v_index];
+
+    v_new_start := p_new_start_times[v_index];
+    v_new_end := v_new_start + (v_booking.end_time - v_booking.start_time);
+
+    SELECT capacity INTO v_capacity FROM services WHERE id = v_booking.service_id;
+    v_capacity := COALESCE(v_capacity, 1);
+    v_session_key := CASE WHEN v_capacity > 1 THEN group_session_key(v_booking.service_id, v_new_start) END;
+
+    PERFORM reserve_booking_range(
+      v_booking.professional_id,
+      v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+      v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+      v_session_key,
+      v_capacity,
+      v_booking.id
+    );
+
+    SELECT id INTO v_slot_id
+    FROM slots
+    WHERE professional_id = v_booking.professional_id AND start_time <= v_new_start AND end_time > v_new_start
+    ORDER BY (service_id IS NULL) DESC, start_time DESC
+    LIMIT 1;
+
+    UPDATE bookings
+    SET slot_id = v_slot_id,
+        start_time = v_new_start,
+        end_time = v_new_end,
+        blocked_start_time = v_new_start - (v_booking.start_time - v_booking.blocked_start_time),
+        blocked_end_time = v_new_end + (v_booking.blocked_end_time - v_booking.end_time),
+        session_key = v_session_key,
+        updated_at = NOW()
+    WHERE id = v_booking.id;
+
+    INSERT INTO booking_status_history (
+      booking_id,
+      company_id,
+      from_status,
+      to_status,
+      from_slot_id,
+      to_slot_id,
+      reason,
+      actor_type,
+      actor_id
+    ) VALUES (
+      v_booking.id,
+      p_company_id,
+      v_booking.status,
+      v_booking.status,
+      v_booking.slot_id,
+      v_slot_id,
+      p_reason,
+      p_actor_type,
+      p_actor_id
+    );
+  END LOOP;
+
+  UPDATE booking_series SET updated_at = NOW() WHERE id = p_series_id;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Lista de espera: clientes aguardam um horário de um serviço (opcionalmente de um profissional) dentro de um período
+-- Quando um booking é cancelado ou removido, a entrada mais antiga compatível recebe uma oferta do horário liberado,
+-- válida até offer_expires_at; depois disso a oferta expira e o horário passa para a próxima entrada
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  professional_id UUID REFERENCES professionals(id) ON DELETE CASCADE, -- NULL = qualquer profissional
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  customer_name VARCHAR(255) NOT NULL,
+  customer_email VARCHAR(255),
+  customer_phone VARCHAR(50),
+  from_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  to_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  offer_professional_id UUID REFERENCES professionals(id) ON DELETE SET NULL,
+  offer_start_time TIMESTAMP WITH TIME ZONE,
+  offer_end_time TIMESTAMP WITH TIME ZONE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT waitlist_entries_status_check CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  CONSTRAINT waitlist_entries_range_check CHECK (to_time > from_time)
+);
+
+-- Busca das entradas compatíveis com um horário liberado (a mais antiga primeiro)
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_waiting ON waitlist_entries(company_id, service_id, created_at)
+  WHERE status = 'waiting';
+
+-- Processamento das ofertas vencidas
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offer_expires_at ON waitlist_entries(offer_expires_at)
+  WHERE status = 'offered';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_company_created_at ON waitlist_entries(company_id, created_at, id);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "waitlist_entries_all_for_admin" ON waitlist_entries
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
@@ -0,0 +1,256 @@
+-- Holds: reserva temporária de uma janela durante o checkout (entre exibir os horários e confirmar o booking)
+-- A hold não marca slots: ela bloqueia a faixa enquanto expires_at não passou. Holds vencidas deixam de valer
+-- imediatamente (todas as verificações comparam com NOW()) e são apagadas na criação das holds seguintes.
+
+CREATE TABLE IF NOT EXISTS booking_holds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  blocked_start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  blocked_end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  session_key TEXT, -- serviços em grupo: a hold ocupa uma vaga da sessão
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT booking_holds_range_check CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_holds_professional ON booking_holds(professional_id, blocked_start_time, expires_at);
+CREATE INDEX IF NOT EXISTS idx_booking_holds_session_key ON booking_holds(professional_id, session_key)
+  WHERE session_key IS NOT NULL;
+
+ALTER TABLE booking_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_holds_all_for_admin" ON booking_holds
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
+
+-- Function: reserve_booking_range
+-- Como em 022, agora respeitando as holds ativas: a faixa segurada por outro checkout não pode ser reservada
+-- ('Time range is held') e, em sessões de grupo, as holds da sessão contam como vagas ocupadas.
+-- A hold que está sendo convertida é apagada antes (create_booking_from_hold), então não conflita consigo mesma.
+CREATE OR REPLACE FUNCTION reserve_booking_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_session_key TEXT DEFAULT NULL,
+  p_capacity INTEGER DEFAULT 1,
+  p_booking_id UUID DEFAULT NULL,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booked INTEGER;
+  v_held INTEGER;
+BEGIN
+  PERFORM 1 FROM professionals WHERE id = p_professional_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM booking_holds
+    WHERE professional_id = p_professional_id
+      AND expires_at > NOW()
+      AND blocked_start_time < p_end
+      AND blocked_end_time > p_start
+      AND session_key IS DISTINCT FROM p_session_key
+  ) THEN
+    RAISE EXCEPTION 'Time range is held';
+  END IF;
+
+  IF p_session_key IS NULL THEN
+    PERFORM reserve_slot_range(p_professional_id, p_start, p_end, p_slot_step_minutes);
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_booked
+  FROM bookings
+  WHERE professional_id = p_professional_id
+    AND session_key = p_session_key
+    AND status IN ('pending', 'confirmed', 'checked_in')
+    AND (p_booking_id IS NULL OR id <> p_booking_id);
+
+  SELECT COUNT(*) INTO v_held
+  FROM booking_holds
+  WHERE professional_id = p_professional_id
+    AND session_key = p_session_key
+    AND expires_at > NOW();
+
+  IF v_booked + v_held >= p_capacity THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  -- A sessão já existe: os slots foram reservados pelo primeiro booking
+  IF v_booked = 0 THEN
+    PERFORM reserve_slot_range(p_professional_id, p_start, p_end, p_slot_step_minutes);
+  END IF;
+END;
+$$;
+
+-- Function: create_booking_hold
+-- Segura [p_start_time, p_end_time) (com os buffers) por p_ttl_minutes. Faz as mesmas verificações de uma reserva,
+-- sem marcar slots, com o profissional travado: duas holds (ou hold e booking) concorrentes são serializadas.
+CREATE OR REPLACE FUNCTION create_booking_hold(
+  p_company_id UUID,
+  p_professional_id UUID,
+  p_service_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE,
+  p_end_time TIMESTAMP WITH TIME ZONE,
+  p_ttl_minutes INTEGER,
+  p_buffer_before_minutes INTEGER DEFAULT 0,
+  p_buffer_after_minutes INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_hold_id UUID;
+  v_blocked_start TIMESTAMP WITH TIME ZONE;
+  v_blocked_end TIMESTAMP WITH TIME ZONE;
+  v_capacity INTEGER;
+  v_session_key TEXT;
+  v_booked INTEGER := 0;
+  v_held INTEGER := 0;
+BEGIN
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Invalid time range';
+  END IF;
+
+  PERFORM 1 FROM professionals WHERE id = p_professional_id AND company_id = p_company_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  -- Limpeza das holds vencidas do profissional
+  DELETE FROM booking_holds WHERE professional_id = p_professional_id AND expires_at <= NOW();
+
+  v_blocked_start := p_start_time - make_interval(mins => p_buffer_before_minutes);
+  v_blocked_end := p_end_time + make_interval(mins => p_buffer_after_minutes);
+
+  SELECT capacity INTO v_capacity FROM services WHERE id = p_service_id AND company_id = p_company_id;
+
+  IF COALESCE(v_capacity, 1) > 1 THEN
+    v_session_key := group_session_key(p_service_id, p_start_time);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM booking_holds
+    WHERE professional_id = p_professional_id
+      AND blocked_start_time < v_blocked_end
+      AND blocked_end_time > v_blocked_start
+      AND session_key IS DISTINCT FROM v_session_key
+  ) THEN
+    RAISE EXCEPTION 'Time range is held';
+  END IF;
+
+  IF v_session_key IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_booked
+    FROM bookings
+    WHERE professional_id = p_professional_id
+      AND session_key = v_session_key
+      AND status IN ('pending', 'confirmed', 'checked_in');
+
+    SELECT COUNT(*) INTO v_held
+    FROM booking_holds
+    WHERE professional_id = p_professional_id
+      AND session_key = v_session_key;
+
+    IF v_booked + v_held >= v_capacity THEN
+      RAISE EXCEPTION 'Session is full';
+    END IF;
+  END IF;
+
+  -- Sessão já aberta: a faixa já está reservada pelos bookings da sessão
+  IF v_booked = 0 AND EXISTS (
+    SELECT 1 FROM slots
+    WHERE professional_id = p_professional_id
+      AND is_available = FALSE
+      AND start_time < v_blocked_end
+      AND end_time > v_blocked_start
+  ) THEN
+    RAISE EXCEPTION 'Time range is not available';
+  END IF;
+
+  INSERT INTO booking_holds (
+    company_id,
+    professional_id,
+    service_id,
+    start_time,
+    end_time,
+    blocked_start_time,
+    blocked_end_time,
+    session_key,
+    expires_at
+  ) VALUES (
+    p_company_id,
+    p_professional_id,
+    p_service_id,
+    p_start_time,
+    p_end_time,
+    v_blocked_start,
+    v_blocked_end,
+    v_session_key,
+    NOW() + make_interval(mins => p_ttl_minutes)
+  )
+  RETURNING id INTO v_hold_id;
+
+  RETURN v_hold_id;
+END;
+$$;
+
+-- Function: create_booking_from_hold
+-- Converte a hold em booking na mesma transação: a hold é apagada e a faixa segurada é reservada
+CREATE OR REPLACE FUNCTION create_booking_from_hold(
+  p_hold_id UUID,
+  p_company_id UUID,
+  p_customer_name VARCHAR,
+  p_customer_email VARCHAR DEFAULT NULL,
+  p_customer_phone VARCHAR DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_hold booking_holds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_hold
+  FROM booking_holds
+  WHERE id = p_hold_id AND company_id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found';
+  END IF;
+
+  IF v_hold.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Hold has expired';
+  END IF;
+
+  DELETE FROM booking_holds WHERE id = p_hold_id;
+
+  RETURN create_booking_by_time(
+    p_company_id,
+    v_hold.professional_id,
+    v_hold.service_id,
+    v_hold.start_time,
+    v_hold.end_time,
+    p_customer_name,
+    p_customer_email,
+    p_customer_phone,
+    NULL,
+    15,
+    p_customer_id,
+    (EXTRACT(EPOCH FROM v_hold.start_time - v_hold.blocked_start_time) / 60)::INTEGER,
+    (EXTRACT(EPOCH FROM v_hold.blocked_end_time - v_hold.end_time) / 60)::INTEGER
+  );
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Feeds iCalendar (.ics) somente leitura para assinar a agenda no Google/Apple Calendar
+-- A URL do feed leva um token aleatório; o banco guarda apenas o hash SHA-256 do token
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  professional_id UUID REFERENCES professionals(id) ON DELETE CASCADE, -- NULL: agenda de toda a company
+  name VARCHAR(255),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_company_id ON calendar_feeds(company_id);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "calendar_feeds_all_for_admin" ON calendar_feeds
+  FOR ALL
+  USING (company_id = public.user_company_id())
+  WITH CHECK (company_id = public.user_company_id());
@@ -0,0 +1,9 @@
+-- Unicidade da grade de slots utilizável como alvo de ON CONFLICT
+-- O índice parcial da 007 (WHERE service_id IS NULL) não é inferido por um upsert sem o predicado, então a
+-- materialização não conseguia ignorar horários já criados por uma execução concorrente. Com NULLS NOT DISTINCT,
+-- (professional_id, service_id, start_time) também é único quando service_id é nulo e cobre o índice antigo.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slots_professional_service_start
+  ON slots(professional_id, service_id, start_time) NULLS NOT DISTINCT;
+
+DROP INDEX IF EXISTS idx_slots_professional_grid_start;
@@ -0,0 +1,4 @@
+-- O log de entregas não guarda mais o corpo da resposta do endpoint: exibir o conteúdo de uma URL escolhida
+-- pela company permitia ler respostas de serviços que o servidor alcança. Fica apenas o status HTTP.
+
+ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body;
@@ -0,0 +1,40 @@
+-- Impede availabilities sobrepostas do mesmo profissional no mesmo dia da semana no nível do banco
+-- A verificação do serviço (leitura antes da escrita) não cobre duas gravações simultâneas; a exclusion constraint
+-- cobre. TIME não tem tipo de range próprio, então a faixa é montada sobre uma data fixa.
+-- Intervalos que apenas se tocam (08:00-12:00 e 12:00-18:00) continuam permitidos.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE availabilities DROP CONSTRAINT IF EXISTS availabilities_time_range_check;
+ALTER TABLE availabilities
+  ADD CONSTRAINT availabilities_time_range_check CHECK (end_time > start_time);
+
+-- Intervalos já sobrepostos impedem a criação da constraint: a migration para com a lista
+-- para que sejam ajustados ou removidos manualmente antes de rodar novamente
+DO $$
+DECLARE
+  v_conflicts TEXT;
+BEGIN
+  SELECT string_agg(a.id || ' x ' || b.id, ', ') INTO v_conflicts
+  FROM availabilities a
+  JOIN availabilities b
+    ON a.professional_id = b.professional_id
+   AND a.day_of_week = b.day_of_week
+   AND a.id < b.id
+   AND a.start_time < b.end_time
+   AND b.start_time < a.end_time;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Overlapping availabilities must be resolved before applying this migration: %', v_conflicts;
+  END IF;
+END
+$$;
+
+ALTER TABLE availabilities DROP CONSTRAINT IF EXISTS availabilities_no_overlap;
+ALTER TABLE availabilities
+  ADD CONSTRAINT availabilities_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    day_of_week WITH =,
+    tsrange(DATE '2000-01-01' + start_time, DATE '2000-01-01' + end_time, '[)') WITH &&
+  );
@@ -0,0 +1,9 @@
+-- booking.deleted deixou de existir: DELETE /bookings/{id} cancela o booking e emite booking.cancelled.
+-- Subscriptions que assinavam booking.deleted passam a assinar booking.cancelled (events nunca fica vazio).
+
+UPDATE webhook_subscriptions
+SET events = CASE
+  WHEN 'booking.cancelled' = ANY(events) THEN array_remove(events, 'booking.deleted')
+  ELSE array_replace(events, 'booking.deleted', 'booking.cancelled')
+END
+WHERE 'booking.deleted' = ANY(events);
@@ -0,0 +1,129 @@
+-- reserve_slot_range alinhada à grade de slots
+-- A faixa bloqueada (atendimento + buffers) costuma começar fora da grade (09:50, 10:40...). A versão de 008
+-- gerava os slots a partir de p_start, criando linhas como 09:50–10:05 sobrepostas aos slots 09:45/10:00 da
+-- grade; depois de um cancelamento elas eram liberadas e apareciam como horários disponíveis sobrepostos.
+-- Agora a faixa é arredondada para a grade no timezone do profissional (início para baixo, fim para cima) e
+-- só são criados os slots da grade que ainda não existem.
+
+-- Function: slot_grid_floor
+-- Início do slot da grade (passos de p_slot_step_minutes a partir da meia-noite local) que contém p_time
+CREATE OR REPLACE FUNCTION slot_grid_floor(
+  p_time TIMESTAMP WITH TIME ZONE,
+  p_timezone TEXT,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_time AT TIME ZONE p_timezone;
+  v_day TIMESTAMP := date_trunc('day', p_time AT TIME ZONE p_timezone);
+BEGIN
+  RETURN (
+    v_day + make_interval(
+      mins => (floor(EXTRACT(EPOCH FROM v_local - v_day) / 60 / p_slot_step_minutes) * p_slot_step_minutes)::INTEGER
+    )
+  ) AT TIME ZONE p_timezone;
+END;
+$$;
+
+-- Function: reserve_slot_range
+-- Bloqueia [p_start, p_end) na agenda do profissional. Cria os slots da grade que faltarem (service_id nulo)
+-- entre o início arredondado para baixo e o fim arredondado para cima, e marca como indisponíveis todos os
+-- slots que se sobrepõem à faixa. Retorna o slot da grade que contém p_start.
+-- Deve ser chamada dentro de uma transação (RPC); o lock no profissional serializa reservas concorrentes.
+CREATE OR REPLACE FUNCTION reserve_slot_range(
+  p_professional_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_slot_step_minutes INTEGER DEFAULT 15
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_slot_id UUID;
+  v_timezone TEXT;
+  v_step INTERVAL := make_interval(mins => p_slot_step_minutes);
+  v_grid_start TIMESTAMP WITH TIME ZONE;
+  v_grid_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_end <= p_start THEN
+    RAISE EXCEPTION 'Invalid time range';
+  END IF;
+
+  -- Mesmo timezone da grade materializada: profissional → company → padrão
+  SELECT COALESCE(p.timezone, c.timezone, 'America/Sao_Paulo') INTO v_timezone
+  FROM professionals p
+  JOIN companies c ON c.id = p.company_id
+  WHERE p.id = p_professional_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Professional not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots
+    WHERE professional_id = p_professional_id
+      AND is_available = FALSE
+      AND start_time < p_end
+      AND end_time > p_start
+  ) THEN
+    RAISE EXCEPTION 'Time range is not available';
+  END IF;
+
+  v_grid_start := slot_grid_floor(p_start, v_timezone, p_slot_step_minutes);
+  v_grid_end := slot_grid_floor(p_end, v_timezone, p_slot_step_minutes);
+  IF v_grid_end < p_end THEN
+    v_grid_end := v_grid_end + v_step;
+  END IF;
+
+  -- Horários já cobertos por um slot da grade (inclusive de uma availability que começa fora do passo) ficam como estão
+  INSERT INTO slots (professional_id, service_id, start_time, end_time, is_available)
+  SELECT p_professional_id, NULL, t, t + v_step, TRUE
+  FROM generate_series(v_grid_start, v_grid_end - INTERVAL '1 second', v_step) AS t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.professional_id = p_professional_id
+      AND s.service_id IS NULL
+      AND s.start_time < t + v_step
+      AND s.end_time > t
+  )
+  ON CONFLICT DO NOTHING;
+
+  UPDATE slots
+  SET is_available = FALSE
+  WHERE professional_id = p_professional_id
+    AND start_time < p_end
+    AND end_time > p_start;
+
+  SELECT id INTO v_slot_id
+  FROM slots
+  WHERE professional_id = p_professional_id AND start_time <= p_start AND end_time > p_start
+  ORDER BY (service_id IS NULL) DESC, start_time DESC
+  LIMIT 1;
+
+  RETURN v_slot_id;
+END;
+$$;
+
+-- Remove os slots fora da grade criados pela versão anterior que estão livres, não são referenciados por
+-- booking e se sobrepõem a outro slot da grade do profissional
+DELETE FROM slots s
+USING professionals p, companies c
+WHERE p.id = s.professional_id
+  AND c.id = p.company_id
+  AND s.service_id IS NULL
+  AND s.is_available = TRUE
+  AND s.start_time <> slot_grid_floor(s.start_time, COALESCE(p.timezone, c.timezone, 'America/Sao_Paulo'), 15)
+  AND NOT EXISTS (SELECT 1 FROM bookings b WHERE b.slot_id = s.id)
+  AND EXISTS (
+    SELECT 1 FROM slots other
+    WHERE other.professional_id = s.professional_id
+      AND other.id <> s.id
+      AND other.service_id IS NULL
+      AND other.start_time < s.end_time
+      AND other.end_time > s.start_time
+  );
@@ -0,0 +1,29 @@
+-- POST /webhooks/process e POST /waitlist/process passam a ser jobs da plataforma: um único cron, autenticado
+-- pelo CRON_SECRET do servidor, processa todas as companies. O scope webhooks:write, que só liberava esse
+-- endpoint para a própria company, deixa de existir.
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+
+UPDATE api_keys SET scopes = array_remove(scopes, 'webhooks:write')
+WHERE 'webhooks:write' = ANY(scopes);
+
+ALTER TABLE api_keys
+  ALTER COLUMN scopes SET DEFAULT ARRAY[
+    'professionals:read', 'professionals:write',
+    'services:read', 'services:write',
+    'availabilities:read', 'availabilities:write',
+    'slots:read', 'slots:write',
+    'bookings:read', 'bookings:write',
+    'customers:read', 'customers:write'
+  ]::TEXT[];
+
+ALTER TABLE api_keys
+  ADD CONSTRAINT api_keys_scopes_valid CHECK (
+    scopes <@ ARRAY[
+      'professionals:read', 'professionals:write',
+      'services:read', 'services:write',
+      'availabilities:read', 'availabilities:write',
+      'slots:read', 'slots:write',
+      'bookings:read', 'bookings:write',
+      'customers:read', 'customers:write'
+    ]::TEXT[]
+  );
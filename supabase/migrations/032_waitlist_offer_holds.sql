@@ -0,0 +1,8 @@
+-- A oferta da lista de espera passa a segurar o horário: ao oferecer, uma hold (booking_holds) cobre a janela
+-- liberada até offer_expires_at, e reserve_booking_range recusa outros bookings e holds na faixa ('Time range
+-- is held'). Aceitar a oferta converte a hold no booking; expirar, cancelar ou não conseguir reservar a libera.
+-- A hold vencida deixa de bloquear sozinha (as verificações comparam com NOW()), mesmo antes de o job da
+-- plataforma expirar a oferta.
+
+ALTER TABLE waitlist_entries
+  ADD COLUMN IF NOT EXISTS offer_hold_id UUID REFERENCES booking_holds(id) ON DELETE SET NULL;
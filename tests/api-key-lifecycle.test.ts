@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getClientIp,
+  isApiKeyExpired,
+  rotationGraceExpiry,
+  shouldRecordApiKeyUse
+} from '@/lib/api-key/lifecycle'
+
+const now = Date.UTC(2026, 4, 10, 12, 0, 0)
+
+describe('isApiKeyExpired', () => {
+  it('never expires keys without expires_at', () => {
+    expect(isApiKeyExpired(null, now)).toBe(false)
+  })
+
+  it('expires keys at expires_at', () => {
+    expect(isApiKeyExpired('2026-05-10T12:00:01Z', now)).toBe(false)
+    expect(isApiKeyExpired('2026-05-10T12:00:00Z', now)).toBe(true)
+  })
+})
+
+describe('rotationGraceExpiry', () => {
+  it('keeps the old key valid for the grace period', () => {
+    expect(rotationGraceExpiry(null, 24, now)).toBe('2026-05-11T12:00:00.000Z')
+  })
+
+  it('does not extend an earlier expiration', () => {
+    expect(rotationGraceExpiry('2026-05-10T18:00:00Z', 24, now)).toBe('2026-05-10T18:00:00.000Z')
+  })
+
+  it('expires the old key immediately with zero grace', () => {
+    expect(rotationGraceExpiry(null, 0, now)).toBe('2026-05-10T12:00:00.000Z')
+  })
+})
+
+describe('shouldRecordApiKeyUse', () => {
+  it('records the first use and then at most once a minute', () => {
+    expect(shouldRecordApiKeyUse(null, now)).toBe(true)
+    expect(shouldRecordApiKeyUse('2026-05-10T11:59:30Z', now)).toBe(false)
+    expect(shouldRecordApiKeyUse('2026-05-10T11:59:00Z', now)).toBe(true)
+  })
+})
+
+describe('getClientIp', () => {
+  it('uses the X-Forwarded-For address appended by the proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.9, 203.0.113.7', 'x-real-ip': '10.0.0.1' })
+    expect(getClientIp(headers, undefined)).toBe('203.0.113.7')
+  })
+
+  it('ignores spoofed left-most X-Forwarded-For addresses', () => {
+    const spoofed = ['1.1.1.1', '2.2.2.2, 3.3.3.3'].map((client) =>
+      getClientIp(new Headers({ 'x-forwarded-for': `${client}, 203.0.113.7` }), undefined)
+    )
+    expect(spoofed).toEqual(['203.0.113.7', '203.0.113.7'])
+  })
+
+  it('reads only the configured header when one is trusted', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.1.1.1, 10.0.0.1', 'x-real-ip': '203.0.113.7' })
+    expect(getClientIp(headers, 'x-real-ip')).toBe('203.0.113.7')
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '1.1.1.1' }), 'x-real-ip')).toBeNull()
+  })
+
+  it('falls back to X-Real-IP or null', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.2' }), undefined)).toBe('198.51.100.2')
+    expect(getClientIp(new Headers(), undefined)).toBeNull()
+  })
+})
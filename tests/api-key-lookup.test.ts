@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { generateApiKey, parseApiKey } from '@/lib/api-key/generator'
+import { ApiKeyVerificationCache } from '@/lib/api-key/verification-cache'
+
+const apiClientId = '123e4567-e89b-12d3-a456-426614174000'
+
+describe('parseApiKey', () => {
+  it('extracts the client and key identifier from generated keys', () => {
+    const generated = generateApiKey(apiClientId)
+
+    expect(generated.fullKey).toBe(`sk_${apiClientId}_${generated.keyIdentifier}_${generated.randomPart}`)
+    expect(parseApiKey(generated.fullKey)).toEqual({
+      apiClientId,
+      keyIdentifier: generated.keyIdentifier
+    })
+  })
+
+  it('accepts legacy keys without identifier', () => {
+    expect(parseApiKey(`sk_${apiClientId}_a1b2c3`)).toEqual({ apiClientId, keyIdentifier: null })
+  })
+
+  it('rejects malformed keys', () => {
+    expect(parseApiKey(`pk_${apiClientId}_a1b2c3`)).toBeNull()
+    expect(parseApiKey(`sk_${apiClientId}`)).toBeNull()
+    expect(parseApiKey(`sk_${apiClientId}__a1b2c3`)).toBeNull()
+    expect(parseApiKey(`sk_${apiClientId}_a_b_c`)).toBeNull()
+  })
+})
+
+describe('ApiKeyVerificationCache', () => {
+  const now = Date.UTC(2026, 0, 1)
+
+  it('remembers a verification until the TTL expires', () => {
+    const cache = new ApiKeyVerificationCache(60_000)
+    cache.set('sk_token', 'hash-1', now)
+
+    expect(cache.has('sk_token', 'hash-1', now + 59_999)).toBe(true)
+    expect(cache.has('sk_token', 'hash-1', now + 60_000)).toBe(false)
+  })
+
+  it('only matches the hash that was verified', () => {
+    const cache = new ApiKeyVerificationCache(60_000)
+    cache.set('sk_token', 'hash-1', now)
+
+    expect(cache.has('sk_token', 'hash-2', now)).toBe(false)
+    expect(cache.has('sk_other', 'hash-1', now)).toBe(false)
+  })
+
+  it('evicts the oldest entry when full', () => {
+    const cache = new ApiKeyVerificationCache(60_000, 2)
+    cache.set('sk_a', 'hash-a', now)
+    cache.set('sk_b', 'hash-b', now)
+    cache.set('sk_c', 'hash-c', now)
+
+    expect(cache.size).toBe(2)
+    expect(cache.has('sk_a', 'hash-a', now)).toBe(false)
+    expect(cache.has('sk_c', 'hash-c', now)).toBe(true)
+  })
+
+  it('is disabled with a zero TTL', () => {
+    const cache = new ApiKeyVerificationCache(0)
+    cache.set('sk_token', 'hash-1', now)
+
+    expect(cache.has('sk_token', 'hash-1', now)).toBe(false)
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import {
+  API_KEY_SCOPES,
+  hasApiKeyScope,
+  isApiKeyScope,
+  normalizeApiKeyScopes,
+  WIDGET_API_KEY_SCOPES
+} from '@/lib/api-key/scopes'
+
+describe('hasApiKeyScope', () => {
+  it('grants only the scopes stored with the key', () => {
+    const scopes = ['slots:read', 'bookings:write']
+
+    expect(hasApiKeyScope(scopes, 'slots:read')).toBe(true)
+    expect(hasApiKeyScope(scopes, 'bookings:write')).toBe(true)
+    expect(hasApiKeyScope(scopes, 'professionals:write')).toBe(false)
+  })
+
+  it('does not treat write as implying read', () => {
+    expect(hasApiKeyScope(['bookings:write'], 'bookings:read')).toBe(false)
+  })
+})
+
+describe('normalizeApiKeyScopes', () => {
+  it('drops unknown and duplicated scopes and keeps the canonical order', () => {
+    expect(normalizeApiKeyScopes(['bookings:write', 'admin', 'services:read', 'bookings:write'])).toEqual([
+      'services:read',
+      'bookings:write'
+    ])
+  })
+})
+
+describe('scope lists', () => {
+  it('widget preset reads only the public catalog, never bookings or customers', () => {
+    expect(WIDGET_API_KEY_SCOPES).toEqual(['professionals:read', 'services:read', 'availabilities:read', 'slots:read'])
+    expect(WIDGET_API_KEY_SCOPES).not.toContain('bookings:read')
+    expect(WIDGET_API_KEY_SCOPES).not.toContain('customers:read')
+  })
+
+  it('validates scope names', () => {
+    expect(API_KEY_SCOPES.every(isApiKeyScope)).toBe(true)
+    expect(isApiKeyScope('bookings:delete')).toBe(false)
+  })
+})
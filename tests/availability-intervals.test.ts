@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { applyAvailabilityExceptions, fitsWithinIntervals, intervalsOverlap, mergeIntervals, timeToMinutes } from '@/lib/services/availability-intervals.util'
+
+const weekly = [{ start: timeToMinutes('08:00'), end: timeToMinutes('18:00') }]
+
+describe('applyAvailabilityExceptions', () => {
+  it('keeps weekly hours when there are no exceptions', () => {
+    expect(applyAvailabilityExceptions(weekly, [])).toEqual(weekly)
+  })
+
+  it('keeps every interval of a split shift', () => {
+    const split = [
+      { start: timeToMinutes('08:00'), end: timeToMinutes('12:00') },
+      { start: timeToMinutes('14:00'), end: timeToMinutes('18:00') }
+    ]
+
+    expect(applyAvailabilityExceptions(split, [
+      { type: 'unavailable', start_time: '15:00', end_time: '16:00' }
+    ])).toEqual([
+      { start: timeToMinutes('08:00'), end: timeToMinutes('12:00') },
+      { start: timeToMinutes('14:00'), end: timeToMinutes('15:00') },
+      { start: timeToMinutes('16:00'), end: timeToMinutes('18:00') }
+    ])
+  })
+
+  it('closes the whole day for an unavailable exception without times', () => {
+    const intervals = applyAvailabilityExceptions(weekly, [
+      { type: 'unavailable', start_time: null, end_time: null }
+    ])
+
+    expect(intervals).toEqual([])
+  })
+
+  it('blocks only the given interval for a partial unavailable exception', () => {
+    const intervals = applyAvailabilityExceptions(weekly, [
+      { type: 'unavailable', start_time: '12:00:00', end_time: '13:30:00' }
+    ])
+
+    expect(intervals).toEqual([
+      { start: timeToMinutes('08:00'), end: timeToMinutes('12:00') },
+      { start: timeToMinutes('13:30'), end: timeToMinutes('18:00') }
+    ])
+  })
+
+  it('opens a day without weekly availability (one-off Saturday)', () => {
+    const intervals = applyAvailabilityExceptions([], [
+      { type: 'available', start_time: '09:00', end_time: '13:00' }
+    ])
+
+    expect(intervals).toEqual([{ start: timeToMinutes('09:00'), end: timeToMinutes('13:00') }])
+  })
+
+  it('replaces weekly hours with special hours when combined with a full-day closure', () => {
+    const intervals = applyAvailabilityExceptions(weekly, [
+      { type: 'unavailable', start_time: null, end_time: null },
+      { type: 'available', start_time: '10:00', end_time: '14:00' }
+    ])
+
+    expect(intervals).toEqual([{ start: timeToMinutes('10:00'), end: timeToMinutes('14:00') }])
+  })
+})
+
+describe('mergeIntervals', () => {
+  it('merges overlapping and adjacent intervals', () => {
+    expect(mergeIntervals([
+      { start: 600, end: 720 },
+      { start: 480, end: 600 },
+      { start: 840, end: 900 }
+    ])).toEqual([
+      { start: 480, end: 720 },
+      { start: 840, end: 900 }
+    ])
+  })
+})
+
+describe('intervalsOverlap', () => {
+  it('detects overlapping intervals but allows back-to-back ones', () => {
+    const morning = { start: timeToMinutes('08:00'), end: timeToMinutes('12:00') }
+
+    expect(intervalsOverlap(morning, { start: timeToMinutes('11:00'), end: timeToMinutes('13:00') })).toBe(true)
+    expect(intervalsOverlap(morning, { start: timeToMinutes('09:00'), end: timeToMinutes('10:00') })).toBe(true)
+    expect(intervalsOverlap(morning, { start: timeToMinutes('12:00'), end: timeToMinutes('14:00') })).toBe(false)
+    expect(intervalsOverlap(morning, { start: timeToMinutes('14:00'), end: timeToMinutes('18:00') })).toBe(false)
+  })
+})
+
+describe('fitsWithinIntervals', () => {
+  const split = [
+    { start: timeToMinutes('08:00'), end: timeToMinutes('12:00') },
+    { start: timeToMinutes('14:00'), end: timeToMinutes('18:00') }
+  ]
+
+  it('accepts a range inside a single interval, including its edges', () => {
+    expect(fitsWithinIntervals(split, { start: timeToMinutes('11:00'), end: timeToMinutes('12:00') })).toBe(true)
+  })
+
+  it('rejects a range that crosses the lunch break', () => {
+    expect(fitsWithinIntervals(split, { start: timeToMinutes('11:30'), end: timeToMinutes('12:30') })).toBe(false)
+  })
+
+  it('rejects empty or inverted ranges', () => {
+    expect(fitsWithinIntervals(split, { start: timeToMinutes('09:00'), end: -1 })).toBe(false)
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { heldRanges, heldSessionBookings, isHoldActive } from '@/lib/services/booking-hold.util'
+
+const hold = {
+  service_id: 'svc-1',
+  start_time: '2026-03-03T13:00:00.000Z',
+  end_time: '2026-03-03T14:00:00.000Z',
+  blocked_start_time: '2026-03-03T12:45:00.000Z',
+  blocked_end_time: '2026-03-03T14:15:00.000Z',
+  session_key: null,
+  expires_at: '2026-03-03T10:10:00.000Z'
+}
+
+describe('isHoldActive', () => {
+  it('stops holding the window once expires_at is reached', () => {
+    expect(isHoldActive(hold, '2026-03-03T10:09:59.000Z')).toBe(true)
+    expect(isHoldActive(hold, '2026-03-03T10:10:00.000Z')).toBe(false)
+  })
+})
+
+describe('heldRanges', () => {
+  it('blocks the held range with its buffers and ignores expired holds', () => {
+    const expired = { ...hold, expires_at: '2026-03-03T09:00:00.000Z' }
+    expect(heldRanges([hold, expired], '2026-03-03T10:00:00.000Z')).toEqual([
+      { start_time: '2026-03-03T12:45:00.000Z', end_time: '2026-03-03T14:15:00.000Z' }
+    ])
+  })
+})
+
+describe('heldSessionBookings', () => {
+  it('counts active holds of the service sessions as taken spots', () => {
+    const sessionHold = { ...hold, session_key: 'svc-1:2026-03-03T13:00:00.000Z' }
+    const otherService = { ...sessionHold, service_id: 'svc-2' }
+
+    expect(heldSessionBookings([sessionHold, otherService, hold], 'svc-1', '2026-03-03T10:00:00.000Z')).toEqual([
+      {
+        session_key: 'svc-1:2026-03-03T13:00:00.000Z',
+        start_time: '2026-03-03T13:00:00.000Z',
+        end_time: '2026-03-03T14:00:00.000Z',
+        slot_id: null
+      }
+    ])
+    expect(heldSessionBookings([sessionHold], 'svc-1', '2026-03-03T10:10:00.000Z')).toEqual([])
+  })
+})
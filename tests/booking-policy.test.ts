@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  bookingTimeViolation,
+  cancellationCutoffViolation,
+  latestBookableStart,
+  resolveBookingPolicy
+} from '@/lib/services/booking-policy.util'
+
+const now = '2026-03-02T12:00:00.000Z'
+
+describe('resolveBookingPolicy', () => {
+  it('uses service overrides over company values and defaults', () => {
+    const policy = resolveBookingPolicy(
+      { min_notice_minutes: 60, max_advance_days: 30, cancellation_cutoff_minutes: 120 },
+      { min_notice_minutes: 0, max_advance_days: null, cancellation_cutoff_minutes: null }
+    )
+
+    expect(policy).toEqual({ minNoticeMinutes: 0, maxAdvanceDays: 30, cancellationCutoffMinutes: 120 })
+    expect(resolveBookingPolicy(null)).toEqual({ minNoticeMinutes: 0, maxAdvanceDays: null, cancellationCutoffMinutes: 0 })
+  })
+})
+
+describe('bookingTimeViolation', () => {
+  const policy = { minNoticeMinutes: 120, maxAdvanceDays: 7, cancellationCutoffMinutes: 0 }
+
+  it('rejects starts inside the minimum notice', () => {
+    expect(bookingTimeViolation(policy, '2026-03-02T13:59:00.000Z', now)).toBe('Bookings require at least 120 minutes notice')
+    expect(bookingTimeViolation(policy, '2026-03-02T14:00:00.000Z', now)).toBeNull()
+  })
+
+  it('rejects starts beyond the advance window', () => {
+    expect(bookingTimeViolation(policy, '2026-03-09T12:00:00.000Z', now)).toBeNull()
+    expect(bookingTimeViolation(policy, '2026-03-09T12:15:00.000Z', now)).toBe('Bookings can be made at most 7 days in advance')
+    expect(latestBookableStart(policy, now)).toBe('2026-03-09T12:00:00.000Z')
+    expect(latestBookableStart({ ...policy, maxAdvanceDays: null }, now)).toBeNull()
+  })
+})
+
+describe('cancellationCutoffViolation', () => {
+  it('blocks changes closer to the start than the cutoff', () => {
+    const policy = { minNoticeMinutes: 0, maxAdvanceDays: null, cancellationCutoffMinutes: 1440 }
+
+    expect(cancellationCutoffViolation(policy, '2026-03-03T11:00:00.000Z', now, 'cancelled')).toBe(
+      'Bookings can no longer be cancelled less than 1440 minutes before the start'
+    )
+    expect(cancellationCutoffViolation(policy, '2026-03-03T12:00:00.000Z', now, 'rescheduled')).toBeNull()
+    expect(cancellationCutoffViolation({ ...policy, cancellationCutoffMinutes: 0 }, now, now, 'cancelled')).toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { assertTransition, canTransition } from '@/lib/services/booking-status.util'
+
+describe('booking status transitions', () => {
+  it('follows the lifecycle pending → confirmed → checked_in → completed', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(true)
+    expect(canTransition('confirmed', 'checked_in')).toBe(true)
+    expect(canTransition('checked_in', 'completed')).toBe(true)
+  })
+
+  it('allows cancelling before check-in and no_show only after confirmation', () => {
+    expect(canTransition('pending', 'cancelled')).toBe(true)
+    expect(canTransition('confirmed', 'cancelled')).toBe(true)
+    expect(canTransition('checked_in', 'cancelled')).toBe(false)
+    expect(canTransition('confirmed', 'no_show')).toBe(true)
+    expect(canTransition('pending', 'no_show')).toBe(false)
+  })
+
+  it('rejects transitions out of final states and unknown statuses', () => {
+    expect(canTransition('completed', 'confirmed')).toBe(false)
+    expect(canTransition('cancelled', 'confirmed')).toBe(false)
+    expect(canTransition('no_show', 'checked_in')).toBe(false)
+    expect(canTransition('confirmed', 'archived')).toBe(false)
+  })
+
+  it('throws a 409 error for invalid transitions', () => {
+    expect(() => assertTransition('confirmed', 'checked_in')).not.toThrow()
+
+    try {
+      assertTransition('cancelled', 'confirmed')
+      expect.unreachable()
+    } catch (err: any) {
+      expect(err.status).toBe(409)
+      expect(err.message).toContain("'cancelled' to 'confirmed'")
+    }
+  })
+})
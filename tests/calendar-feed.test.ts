@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateCalendarFeedToken,
+  hashCalendarFeedToken,
+  parseCalendarFeedToken
+} from '@/lib/services/calendar-feed.util'
+
+describe('calendar feed tokens', () => {
+  it('generates unique tokens and hashes them deterministically', () => {
+    const token = generateCalendarFeedToken()
+
+    expect(token).toMatch(/^cal_[0-9a-f]{48}$/)
+    expect(generateCalendarFeedToken()).not.toBe(token)
+    expect(hashCalendarFeedToken(token)).toBe(hashCalendarFeedToken(token))
+    expect(hashCalendarFeedToken(token)).toHaveLength(64)
+  })
+
+  it('accepts the token with or without the .ics extension', () => {
+    const token = generateCalendarFeedToken()
+
+    expect(parseCalendarFeedToken(`${token}.ics`)).toBe(token)
+    expect(parseCalendarFeedToken(token)).toBe(token)
+    expect(parseCalendarFeedToken('agenda.ics')).toBeNull()
+  })
+})
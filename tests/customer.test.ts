@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeEmail, normalizePhone } from '@/lib/services/customer.util'
+
+describe('normalizeEmail', () => {
+  it('trims and lowercases', () => {
+    expect(normalizeEmail('  Maria.Silva@Example.COM ')).toBe('maria.silva@example.com')
+  })
+
+  it('returns null for empty values', () => {
+    expect(normalizeEmail('   ')).toBeNull()
+    expect(normalizeEmail(null)).toBeNull()
+    expect(normalizeEmail(undefined)).toBeNull()
+  })
+})
+
+describe('normalizePhone', () => {
+  it('keeps only digits so formatting does not create duplicates', () => {
+    expect(normalizePhone('+55 (11) 98765-4321')).toBe('5511987654321')
+    expect(normalizePhone('5511987654321')).toBe('5511987654321')
+  })
+
+  it('returns null without digits', () => {
+    expect(normalizePhone('n/a')).toBeNull()
+    expect(normalizePhone(null)).toBeNull()
+  })
+})
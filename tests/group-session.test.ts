@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { groupSessionKey, groupSessions, withRemainingSpots } from '@/lib/services/group-session.util'
+
+describe('groupSessionKey', () => {
+  it('uses the service id and the start in epoch seconds', () => {
+    expect(groupSessionKey('svc-1', '2026-03-03T13:00:00.000Z')).toBe('svc-1@1772542800')
+    expect(groupSessionKey('svc-1', '2026-03-03T10:00:00-03:00')).toBe('svc-1@1772542800')
+  })
+})
+
+describe('groupSessions', () => {
+  it('counts active bookings per session and ignores bookings without a session', () => {
+    const sessions = groupSessions([
+      { session_key: 'a', start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_id: 's1' },
+      { session_key: 'a', start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_id: 's1' },
+      { session_key: null, start_time: '2026-03-03T15:00:00.000Z', end_time: '2026-03-03T16:00:00.000Z', slot_id: 's2' }
+    ])
+    expect([...sessions.entries()]).toEqual([
+      ['a', { start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_id: 's1', booked: 2 }]
+    ])
+  })
+})
+
+describe('withRemainingSpots', () => {
+  const window = (start: string, end: string) => ({ start_time: start, end_time: end, slot_ids: ['s1'] })
+
+  it('gives free windows the full capacity and open sessions the spots left', () => {
+    const result = withRemainingSpots(
+      [window('2026-03-03T14:00:00.000Z', '2026-03-03T15:00:00.000Z')],
+      [{ start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_id: 's1', booked: 3 }],
+      5
+    )
+    expect(result).toEqual([
+      { start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_ids: ['s1'], remaining_spots: 2 },
+      { start_time: '2026-03-03T14:00:00.000Z', end_time: '2026-03-03T15:00:00.000Z', slot_ids: ['s1'], remaining_spots: 5 }
+    ])
+  })
+
+  it('drops full sessions', () => {
+    const result = withRemainingSpots(
+      [],
+      [{ start_time: '2026-03-03T13:00:00.000Z', end_time: '2026-03-03T14:00:00.000Z', slot_id: null, booked: 4 }],
+      4
+    )
+    expect(result).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  bookingEventSequence,
+  bookingEventStatus,
+  bookingEventUid,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsLocal,
+  vtimezoneLines
+} from '@/lib/services/ics.util'
+
+const event = {
+  uid: bookingEventUid('b-1'),
+  start: '2026-03-02T12:00:00.000Z',
+  end: '2026-03-02T13:00:00.000Z',
+  timezone: 'America/Sao_Paulo',
+  summary: 'Corte; barba, sobrancelha',
+  description: 'Cliente: João\nTelefone: +5511999999999',
+  status: 'CONFIRMED' as const,
+  sequence: 0,
+  created: '2026-02-27T14:00:00.000Z',
+  lastModified: '2026-02-27T14:00:00.000Z'
+}
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+  })
+})
+
+describe('foldIcsLine', () => {
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'ã'.repeat(80)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    lines.forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75))
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true)
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'ã'.repeat(80)}`)
+  })
+
+  it('keeps short lines untouched', () => {
+    expect(foldIcsLine('VERSION:2.0')).toBe('VERSION:2.0')
+  })
+})
+
+describe('booking events', () => {
+  it('uses a stable uid and a sequence that grows with each update', () => {
+    expect(bookingEventUid('b-1')).toBe(bookingEventUid('b-1'))
+    expect(bookingEventSequence(event.created, null)).toBe(0)
+    expect(bookingEventSequence(event.created, '2026-02-27T14:10:00.000Z')).toBe(600)
+  })
+
+  it('maps booking statuses to event statuses', () => {
+    expect(bookingEventStatus('pending')).toBe('TENTATIVE')
+    expect(bookingEventStatus('confirmed')).toBe('CONFIRMED')
+    expect(bookingEventStatus('cancelled')).toBe('CANCELLED')
+  })
+})
+
+describe('vtimezoneLines', () => {
+  it('describes the offset in effect and each daylight saving transition in the range', () => {
+    const lines = vtimezoneLines('America/New_York', '2026-03-01T15:00:00.000Z', '2026-03-20T15:00:00.000Z')
+
+    expect(lines).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0500',
+      'TZNAME:EST',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260308T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'TZNAME:EDT',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE'
+    ])
+  })
+})
+
+describe('buildIcsCalendar', () => {
+  it('builds a CRLF calendar with local times referencing its VTIMEZONE', () => {
+    const ics = buildIcsCalendar({
+      name: 'Agenda',
+      timezone: 'America/Sao_Paulo',
+      generatedAt: '2026-02-28T10:00:00.000Z',
+      events: [event]
+    })
+    const lines = ics.split('\r\n')
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('VERSION:2.0')
+    expect(lines).toContain('TZID:America/Sao_Paulo')
+    expect(lines).toContain('UID:booking-b-1@api-agendamento')
+    expect(lines).toContain('DTSTAMP:20260228T100000Z')
+    expect(lines).toContain('DTSTART;TZID=America/Sao_Paulo:20260302T090000')
+    expect(lines).toContain('DTEND;TZID=America/Sao_Paulo:20260302T100000')
+    expect(lines).toContain('SUMMARY:Corte\\; barba\\, sobrancelha')
+    expect(lines).toContain('DESCRIPTION:Cliente: João\\nTelefone: +5511999999999')
+    expect(lines.indexOf('END:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'))
+  })
+
+  it('keeps an empty feed valid with the calendar timezone', () => {
+    const ics = buildIcsCalendar({ timezone: 'America/Sao_Paulo', generatedAt: '2026-02-28T10:00:00.000Z', events: [] })
+
+    expect(ics).toContain('BEGIN:VTIMEZONE')
+    expect(ics).not.toContain('BEGIN:VEVENT')
+  })
+})
+
+describe('formatIcsLocal', () => {
+  it('formats the instant in the event timezone', () => {
+    expect(formatIcsLocal('2026-03-02T12:00:00.000Z', 'Europe/Lisbon')).toBe('20260302T120000')
+    expect(formatIcsLocal('2026-03-02T12:00:00.000Z', 'America/Manaus')).toBe('20260302T080000')
+  })
+})
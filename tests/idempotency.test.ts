@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canonicalJson,
+  hashIdempotentRequest,
+  isStorableIdempotentStatus,
+  isValidIdempotencyKey
+} from '@/lib/services/idempotency.util'
+
+describe('hashIdempotentRequest', () => {
+  const body = JSON.stringify({ professionalId: 'p1', serviceId: 's1', customerName: 'Ana' })
+
+  it('ignores JSON key order and whitespace', () => {
+    const reordered = '{ "customerName": "Ana", "serviceId": "s1", "professionalId": "p1" }'
+
+    expect(hashIdempotentRequest('POST', '/api/v1/bookings', reordered)).toBe(
+      hashIdempotentRequest('post', '/api/v1/bookings', body)
+    )
+  })
+
+  it('changes when the payload, path or method changes', () => {
+    const base = hashIdempotentRequest('POST', '/api/v1/bookings', body)
+
+    expect(hashIdempotentRequest('POST', '/api/v1/bookings', body.replace('Ana', 'Bia'))).not.toBe(base)
+    expect(hashIdempotentRequest('POST', '/api/v1/services', body)).not.toBe(base)
+    expect(hashIdempotentRequest('PUT', '/api/v1/bookings', body)).not.toBe(base)
+  })
+
+  it('treats an empty body consistently and hashes non-JSON bodies as text', () => {
+    expect(hashIdempotentRequest('POST', '/api/v1/slots/materialize', '')).toBe(
+      hashIdempotentRequest('POST', '/api/v1/slots/materialize', '  ')
+    )
+    expect(hashIdempotentRequest('POST', '/x', 'not json')).not.toBe(hashIdempotentRequest('POST', '/x', 'not json!'))
+  })
+})
+
+describe('canonicalJson', () => {
+  it('sorts nested keys and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}')
+  })
+})
+
+describe('idempotency helpers', () => {
+  it('validates keys', () => {
+    expect(isValidIdempotencyKey('7f1c2b9e-1d2a-4c1b-9f0e-2a3b4c5d6e7f')).toBe(true)
+    expect(isValidIdempotencyKey('')).toBe(false)
+    expect(isValidIdempotencyKey('has space')).toBe(false)
+    expect(isValidIdempotencyKey('x'.repeat(256))).toBe(false)
+  })
+
+  it('only stores non-5xx responses', () => {
+    expect(isStorableIdempotentStatus(201)).toBe(true)
+    expect(isStorableIdempotentStatus(409)).toBe(true)
+    expect(isStorableIdempotentStatus(500)).toBe(false)
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeCursor,
+  DEFAULT_PAGE_LIMIT,
+  encodeCursor,
+  keysetFilter,
+  MAX_PAGE_LIMIT,
+  pageLimit,
+  resolveSort,
+  sortParamValues,
+  toPage,
+  type SortOptions
+} from '@/lib/services/pagination.util'
+
+const options: SortOptions = {
+  createdAt: [{ column: 'created_at', ascending: true }],
+  date: [
+    { column: 'date', ascending: true },
+    { column: 'start_time', ascending: true, nullable: true }
+  ]
+}
+
+describe('resolveSort', () => {
+  it('appends id as tiebreaker in the same direction', () => {
+    expect(resolveSort(options, undefined, '-createdAt')).toEqual({
+      key: '-createdAt',
+      columns: [
+        { column: 'created_at', ascending: false },
+        { column: 'id', ascending: false }
+      ]
+    })
+  })
+
+  it('rejects unknown sort keys with a 400 error', () => {
+    expect(() => resolveSort(options, 'price', 'createdAt')).toThrow("Invalid sort 'price'")
+  })
+
+  it('lists ascending and descending values for validation', () => {
+    expect(sortParamValues(options)).toEqual(['createdAt', '-createdAt', 'date', '-date'])
+  })
+})
+
+describe('pageLimit', () => {
+  it('defaults and clamps the limit', () => {
+    expect(pageLimit(undefined)).toBe(DEFAULT_PAGE_LIMIT)
+    expect(pageLimit(10_000)).toBe(MAX_PAGE_LIMIT)
+    expect(pageLimit(20)).toBe(20)
+  })
+})
+
+describe('cursor', () => {
+  const sort = resolveSort(options, 'createdAt', 'createdAt')
+  const row = { id: 'b', created_at: '2026-03-02T12:00:00+00:00' }
+
+  it('round-trips the sort values of the last row', () => {
+    expect(decodeCursor(sort, encodeCursor(sort, row))).toEqual(['2026-03-02T12:00:00+00:00', 'b'])
+  })
+
+  it('rejects cursors from another sort or garbage', () => {
+    const other = resolveSort(options, '-createdAt', 'createdAt')
+    expect(() => decodeCursor(other, encodeCursor(sort, row))).toThrow('Invalid cursor')
+    expect(() => decodeCursor(sort, 'not-a-cursor')).toThrow('Invalid cursor')
+  })
+})
+
+describe('keysetFilter', () => {
+  it('builds the "after" condition for a descending sort', () => {
+    const sort = resolveSort(options, '-createdAt', 'createdAt')
+    expect(keysetFilter(sort, ['2026-03-02T12:00:00+00:00', 'b'])).toBe(
+      'created_at.lt."2026-03-02T12:00:00+00:00",and(created_at.eq."2026-03-02T12:00:00+00:00",id.lt."b")'
+    )
+  })
+
+  it('keeps NULLs after non-null values when ascending', () => {
+    const sort = resolveSort(options, 'date', 'date')
+    expect(keysetFilter(sort, ['2026-03-02', '09:00:00', 'x'])).toBe(
+      'date.gt."2026-03-02",and(date.eq."2026-03-02",or(start_time.gt."09:00:00",start_time.is.null)),' +
+        'and(date.eq."2026-03-02",start_time.eq."09:00:00",id.gt."x")'
+    )
+    expect(keysetFilter(sort, ['2026-03-02', null, 'x'])).toBe(
+      'date.gt."2026-03-02",and(date.eq."2026-03-02",start_time.is.null,id.gt."x")'
+    )
+  })
+
+  it('quotes values so commas do not split the filter', () => {
+    const sort = resolveSort({ name: [{ column: 'name', ascending: true }] }, 'name', 'name')
+    expect(keysetFilter(sort, ['Silva, "Ana"', 'x'])).toBe(
+      'name.gt."Silva, \\"Ana\\"",and(name.eq."Silva, \\"Ana\\"",id.gt."x")'
+    )
+  })
+})
+
+describe('toPage', () => {
+  const sort = resolveSort(options, 'createdAt', 'createdAt')
+  const rows = [
+    { id: 'a', created_at: '2026-01-01' },
+    { id: 'b', created_at: '2026-01-02' },
+    { id: 'c', created_at: '2026-01-03' }
+  ]
+
+  it('uses the extra row only to signal the next page', () => {
+    const page = toPage(rows, sort, 2)
+    expect(page.data.map(row => row.id)).toEqual(['a', 'b'])
+    expect(page.pagination.hasMore).toBe(true)
+    expect(decodeCursor(sort, page.pagination.nextCursor!)).toEqual(['2026-01-02', 'b'])
+  })
+
+  it('returns no cursor on the last page', () => {
+    expect(toPage(rows, sort, 3).pagination).toEqual({ limit: 3, hasMore: false, nextCursor: null })
+  })
+})
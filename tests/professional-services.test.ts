@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { effectiveServiceTerms } from '@/lib/services/professional-services.util'
+
+describe('effectiveServiceTerms', () => {
+  const service = { duration_minutes: 60, price: 100 }
+
+  it('uses the professional overrides when set', () => {
+    expect(effectiveServiceTerms(service, { duration_minutes: 45, price: 80 })).toEqual({ duration_minutes: 45, price: 80 })
+  })
+
+  it('falls back to the service defaults for null overrides', () => {
+    expect(effectiveServiceTerms(service, { duration_minutes: null, price: 0 })).toEqual({ duration_minutes: 60, price: 0 })
+    expect(effectiveServiceTerms(service, null)).toEqual(service)
+  })
+})
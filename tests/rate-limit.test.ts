@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MemoryRateLimitStore,
+  buildAuthFailureRules,
+  buildRateLimitRules,
+  consumeRateLimit,
+  peekRateLimit,
+  rateLimitHeaders
+} from '@/lib/api-key/rate-limit'
+
+const config = { clientPerMinute: 2, clientPerDay: 100, companyPerMinute: 10, companyPerDay: 1000 }
+const now = Date.UTC(2026, 2, 2, 12, 0, 30)
+
+describe('consumeRateLimit', () => {
+  it('reports the most restrictive rule while under the limit', async () => {
+    const store = new MemoryRateLimitStore()
+    const rules = buildRateLimitRules('client-1', 'company-1', config)
+
+    const result = await consumeRateLimit(rules, now, store)
+
+    expect(result).toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+      resetSeconds: 30,
+      retryAfterSeconds: null,
+      rule: 'client:minute'
+    })
+  })
+
+  it('blocks once the per-client limit is exceeded and resets on the next window', async () => {
+    const store = new MemoryRateLimitStore()
+    const rules = buildRateLimitRules('client-1', 'company-1', config)
+
+    await consumeRateLimit(rules, now, store)
+    await consumeRateLimit(rules, now, store)
+    const blocked = await consumeRateLimit(rules, now, store)
+
+    expect(blocked?.allowed).toBe(false)
+    expect(blocked?.retryAfterSeconds).toBe(30)
+
+    const nextMinute = await consumeRateLimit(rules, now + 30_000, store)
+    expect(nextMinute?.allowed).toBe(true)
+  })
+
+  it('shares the company limit across API clients', async () => {
+    const store = new MemoryRateLimitStore()
+    const companyConfig = { ...config, clientPerMinute: 0, companyPerMinute: 2 }
+
+    await consumeRateLimit(buildRateLimitRules('client-1', 'company-1', companyConfig), now, store)
+    await consumeRateLimit(buildRateLimitRules('client-2', 'company-1', companyConfig), now, store)
+    const blocked = await consumeRateLimit(buildRateLimitRules('client-3', 'company-1', companyConfig), now, store)
+
+    expect(blocked).toMatchObject({ allowed: false, rule: 'company:minute' })
+  })
+
+  it('uses the daily window for quota errors', async () => {
+    const store = new MemoryRateLimitStore()
+    const rules = buildRateLimitRules('client-1', 'company-1', { ...config, clientPerMinute: 0, clientPerDay: 1 })
+
+    await consumeRateLimit(rules, now, store)
+    const blocked = await consumeRateLimit(rules, now, store)
+
+    expect(blocked).toMatchObject({ allowed: false, rule: 'client:day', retryAfterSeconds: 12 * 3600 - 30 })
+  })
+
+  it('skips disabled rules', async () => {
+    const rules = buildRateLimitRules('c', 'co', { clientPerMinute: 0, clientPerDay: 0, companyPerMinute: 0, companyPerDay: 0 })
+
+    expect(rules).toEqual([])
+    expect(await consumeRateLimit(rules, now, new MemoryRateLimitStore())).toBeNull()
+  })
+})
+
+describe('peekRateLimit', () => {
+  it('tells whether the next request would pass without counting it', async () => {
+    const store = new MemoryRateLimitStore()
+    const rules = buildAuthFailureRules('203.0.113.7', 2)
+
+    expect(await peekRateLimit(rules, now, store)).toMatchObject({ allowed: true, remaining: 1 })
+    await consumeRateLimit(rules, now, store)
+    await consumeRateLimit(rules, now, store)
+
+    expect(await peekRateLimit(rules, now, store)).toMatchObject({ allowed: false, rule: 'ip:minute', retryAfterSeconds: 30 })
+    expect(await peekRateLimit(rules, now + 30_000, store)).toMatchObject({ allowed: true })
+  })
+})
+
+describe('buildAuthFailureRules', () => {
+  it('counts failures per IP apart from the client and company quotas', async () => {
+    const store = new MemoryRateLimitStore()
+
+    await consumeRateLimit(buildAuthFailureRules('203.0.113.7', 1), now, store)
+    const other = await consumeRateLimit(buildRateLimitRules('client-1', 'company-1', config), now, store)
+
+    expect(other).toMatchObject({ allowed: true, remaining: 1 })
+    expect(buildAuthFailureRules('203.0.113.7', 0)).toEqual([])
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('adds Retry-After only when blocked', () => {
+    const base = { allowed: true, limit: 10, remaining: 3, resetSeconds: 20, retryAfterSeconds: null, rule: 'client:minute' }
+
+    expect(rateLimitHeaders(base)).toEqual({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '3',
+      'RateLimit-Reset': '20'
+    })
+    expect(rateLimitHeaders({ ...base, allowed: false, remaining: 0, retryAfterSeconds: 20 })['Retry-After']).toBe('20')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expandRecurrence,
+  formatRRule,
+  overlappingRanges,
+  parseRRule,
+  shiftOccurrences
+} from '@/lib/services/recurrence.util'
+
+describe('parseRRule', () => {
+  it('parses weekly, biweekly and monthly rules', () => {
+    expect(parseRRule('FREQ=WEEKLY;COUNT=4')).toEqual({ frequency: 'weekly', count: 4 })
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3')).toEqual({ frequency: 'biweekly', count: 3 })
+    expect(parseRRule('freq=monthly;until=20261231')).toEqual({
+      frequency: 'monthly',
+      until: '2026-12-31T23:59:59.999Z'
+    })
+  })
+
+  it('rejects unsupported patterns and missing or duplicated limits', () => {
+    expect(() => parseRRule('FREQ=DAILY;COUNT=3')).toThrow(/supported/)
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=3')).toThrow(/Unsupported RRULE parts: BYDAY/)
+    expect(() => parseRRule('FREQ=WEEKLY')).toThrow(/exactly one of count or until/)
+    expect(() => parseRRule('FREQ=WEEKLY;COUNT=2;UNTIL=20261231')).toThrow(/exactly one of count or until/)
+    expect(() => parseRRule('FREQ=WEEKLY;COUNT=53')).toThrow(/at most 52/)
+  })
+
+  it('round-trips through formatRRule', () => {
+    expect(formatRRule({ frequency: 'biweekly', count: 6 })).toBe('FREQ=WEEKLY;INTERVAL=2;COUNT=6')
+    expect(formatRRule({ frequency: 'monthly', until: '2026-12-31T12:00:00.000Z' })).toBe(
+      'FREQ=MONTHLY;UNTIL=20261231T120000Z'
+    )
+  })
+})
+
+describe('expandRecurrence', () => {
+  it('keeps the local time across a DST change', () => {
+    // Lisboa muda de WET (UTC+0) para WEST (UTC+1) em 29/03/2026
+    const starts = expandRecurrence('2026-03-24T10:00:00.000Z', { frequency: 'weekly', count: 2 }, 'Europe/Lisbon')
+    expect(starts).toEqual(['2026-03-24T10:00:00.000Z', '2026-03-31T09:00:00.000Z'])
+  })
+
+  it('steps two weeks for biweekly rules and stops at until (inclusive)', () => {
+    const starts = expandRecurrence(
+      '2026-03-03T13:00:00.000Z',
+      { frequency: 'biweekly', until: '2026-03-31T13:00:00.000Z' },
+      'America/Sao_Paulo'
+    )
+    expect(starts).toEqual(['2026-03-03T13:00:00.000Z', '2026-03-17T13:00:00.000Z', '2026-03-31T13:00:00.000Z'])
+  })
+
+  it('skips months without the day of the first occurrence', () => {
+    const starts = expandRecurrence('2026-01-31T13:00:00.000Z', { frequency: 'monthly', count: 3 }, 'America/Sao_Paulo')
+    expect(starts).toEqual(['2026-01-31T13:00:00.000Z', '2026-03-31T13:00:00.000Z', '2026-05-31T13:00:00.000Z'])
+  })
+
+  it('rejects an until that produces too many occurrences', () => {
+    expect(() =>
+      expandRecurrence('2026-01-05T13:00:00.000Z', { frequency: 'weekly', until: '2028-01-01T00:00:00.000Z' }, 'UTC')
+    ).toThrow(/more than 52 occurrences/)
+  })
+})
+
+describe('shiftOccurrences', () => {
+  it('moves every occurrence by the same number of days to the new local time', () => {
+    const shifted = shiftOccurrences(
+      ['2026-03-03T13:00:00.000Z', '2026-03-10T13:00:00.000Z'],
+      '2026-03-04T14:30:00.000Z',
+      'America/Sao_Paulo'
+    )
+    expect(shifted).toEqual(['2026-03-04T14:30:00.000Z', '2026-03-11T14:30:00.000Z'])
+  })
+})
+
+describe('overlappingRanges', () => {
+  it('returns the indexes of ranges that cross a busy range', () => {
+    const conflicts = overlappingRanges(
+      [
+        { start: '2026-03-03T13:00:00.000Z', end: '2026-03-03T14:00:00.000Z' },
+        { start: '2026-03-10T13:00:00.000Z', end: '2026-03-10T14:00:00.000Z' }
+      ],
+      [
+        { start: '2026-03-03T14:00:00.000Z', end: '2026-03-03T15:00:00.000Z' },
+        { start: '2026-03-10T13:30:00.000Z', end: '2026-03-10T13:45:00.000Z' }
+      ]
+    )
+    expect([...conflicts]).toEqual([1])
+  })
+})
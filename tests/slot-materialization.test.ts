@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { diffSlotGrid } from '@/lib/services/slot-materialization.util'
+
+const grid = [
+  { start_time: '2026-03-02T12:00:00.000Z', end_time: '2026-03-02T12:15:00.000Z' },
+  { start_time: '2026-03-02T12:15:00.000Z', end_time: '2026-03-02T12:30:00.000Z' }
+]
+
+describe('diffSlotGrid', () => {
+  it('inserts the whole grid when nothing is materialized', () => {
+    expect(diffSlotGrid(grid, [])).toEqual({ toInsert: grid, staleIds: [] })
+  })
+
+  it('is idempotent regardless of timestamp format', () => {
+    const existing = [
+      { id: 'a', start_time: '2026-03-02T12:00:00+00:00', is_available: true },
+      { id: 'b', start_time: '2026-03-02T12:15:00+00:00', is_available: false }
+    ]
+
+    expect(diffSlotGrid(grid, existing)).toEqual({ toInsert: [], staleIds: [] })
+  })
+
+  it('flags free slots outside the grid and keeps booked ones', () => {
+    const existing = [
+      { id: 'a', start_time: '2026-03-02T12:00:00+00:00', is_available: true },
+      { id: 'old-free', start_time: '2026-03-02T18:00:00+00:00', is_available: true },
+      { id: 'old-booked', start_time: '2026-03-02T18:15:00+00:00', is_available: false }
+    ]
+
+    expect(diffSlotGrid(grid, existing)).toEqual({ toInsert: [grid[1]], staleIds: ['old-free'] })
+  })
+})
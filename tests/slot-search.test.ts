@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { forwardSearchRanges, mergeProfessionalWindows, type ProfessionalWindows } from '@/lib/services/slot-search.util'
+
+function windowAt(start: string, end: string) {
+  return { start_time: start, end_time: end, slot_ids: [`slot-${start}`] }
+}
+
+const ana: ProfessionalWindows = {
+  professional: { id: 'p-ana', name: 'Ana' },
+  timezone: 'America/Sao_Paulo',
+  windows: [
+    windowAt('2026-03-02T13:00:00.000Z', '2026-03-02T14:00:00.000Z'),
+    windowAt('2026-03-02T15:00:00.000Z', '2026-03-02T16:00:00.000Z')
+  ]
+}
+
+const bruno: ProfessionalWindows = {
+  professional: { id: 'p-bruno', name: 'Bruno' },
+  timezone: 'America/Sao_Paulo',
+  windows: [
+    windowAt('2026-03-02T12:00:00.000Z', '2026-03-02T12:45:00.000Z'),
+    // mesmo início da Ana, com offset diferente
+    windowAt('2026-03-02T10:00:00-03:00', '2026-03-02T10:45:00-03:00')
+  ]
+}
+
+describe('mergeProfessionalWindows', () => {
+  it('returns one window per start time in any mode, with every free professional', () => {
+    const result = mergeProfessionalWindows([bruno, ana], 'any', 10)
+
+    expect(result.map(w => [w.start_time, w.professional.id, w.professional_ids])).toEqual([
+      ['2026-03-02T12:00:00.000Z', 'p-bruno', ['p-bruno']],
+      ['2026-03-02T13:00:00.000Z', 'p-ana', ['p-ana', 'p-bruno']],
+      ['2026-03-02T15:00:00.000Z', 'p-ana', ['p-ana']]
+    ])
+  })
+
+  it('keeps each professional window in each mode', () => {
+    const result = mergeProfessionalWindows([ana, bruno], 'each', 10)
+
+    expect(result.map(w => w.professional.id)).toEqual(['p-bruno', 'p-ana', 'p-bruno', 'p-ana'])
+    expect(result[2].end_time).toBe('2026-03-02T10:45:00-03:00')
+  })
+
+  it('returns only the earliest windows up to the limit', () => {
+    expect(mergeProfessionalWindows([ana, bruno], 'any', 2).map(w => w.start_time)).toEqual([
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-02T13:00:00.000Z'
+    ])
+    expect(mergeProfessionalWindows([ana, bruno], 'each', 1)).toHaveLength(1)
+    expect(mergeProfessionalWindows([], 'any', 5)).toEqual([])
+  })
+})
+
+describe('forwardSearchRanges', () => {
+  it('splits the horizon into consecutive chunks', () => {
+    expect(forwardSearchRanges('2026-03-02T12:00:00.000Z', 10, 7)).toEqual([
+      { from: '2026-03-02T12:00:00.000Z', to: '2026-03-09T12:00:00.000Z' },
+      { from: '2026-03-09T12:00:00.000Z', to: '2026-03-12T12:00:00.000Z' }
+    ])
+  })
+
+  it('returns a single range when the horizon fits in one chunk', () => {
+    expect(forwardSearchRanges('2026-03-02T12:00:00.000Z', 1)).toEqual([
+      { from: '2026-03-02T12:00:00.000Z', to: '2026-03-03T12:00:00.000Z' }
+    ])
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { buildServiceWindowsFromIntervals, eachLocalDay } from '@/lib/services/slot-windows.util'
+import { DEFAULT_TIMEZONE, isValidTimezone, resolveTimezone } from '@/lib/services/timezone.util'
+
+const nineToEleven = () => ({ intervals: [{ start: 9 * 60, end: 11 * 60 }], closingMinutes: 18 * 60 })
+
+function windows(from: string, to: string, timezone: string) {
+  return buildServiceWindowsFromIntervals({
+    from,
+    to,
+    timezone,
+    durationMinutes: 60,
+    now: '2026-01-01T00:00:00Z',
+    resolveDay: nineToEleven
+  })
+}
+
+describe('buildServiceWindowsFromIntervals across DST', () => {
+  it('keeps local opening hours when Lisbon springs forward', () => {
+    const result = windows('2026-03-28T00:00:00Z', '2026-03-30T23:59:59Z', 'Europe/Lisbon')
+
+    expect(result.map(w => w.start_time)).toEqual([
+      '2026-03-28T09:00:00.000Z',
+      '2026-03-28T10:00:00.000Z',
+      '2026-03-29T08:00:00.000Z',
+      '2026-03-29T09:00:00.000Z',
+      '2026-03-30T08:00:00.000Z',
+      '2026-03-30T09:00:00.000Z'
+    ])
+  })
+
+  it('keeps local opening hours when Lisbon falls back', () => {
+    const result = windows('2026-10-24T00:00:00Z', '2026-10-26T23:59:59Z', 'Europe/Lisbon')
+
+    expect(result.map(w => w.start_time)).toEqual([
+      '2026-10-24T08:00:00.000Z',
+      '2026-10-24T09:00:00.000Z',
+      '2026-10-25T09:00:00.000Z',
+      '2026-10-25T10:00:00.000Z',
+      '2026-10-26T09:00:00.000Z',
+      '2026-10-26T10:00:00.000Z'
+    ])
+  })
+
+  it('uses the Manaus offset instead of São Paulo', () => {
+    const result = windows('2026-06-01T00:00:00Z', '2026-06-01T23:59:59Z', 'America/Manaus')
+
+    expect(result[0].start_time).toBe('2026-06-01T13:00:00.000Z')
+  })
+})
+
+describe('eachLocalDay', () => {
+  it('lists each local day once across the 25-hour fall-back day', () => {
+    const days = eachLocalDay('2026-10-24T12:00:00Z', '2026-10-26T12:00:00Z', 'Europe/Lisbon')
+
+    expect(days.map(d => d.toFormat('yyyy-MM-dd'))).toEqual(['2026-10-24', '2026-10-25', '2026-10-26'])
+  })
+})
+
+describe('resolveTimezone', () => {
+  it('returns the first valid candidate', () => {
+    expect(resolveTimezone(undefined, 'Not/AZone', 'America/Manaus', 'Europe/Lisbon')).toBe('America/Manaus')
+  })
+
+  it('falls back to the default timezone', () => {
+    expect(resolveTimezone(null, undefined)).toBe(DEFAULT_TIMEZONE)
+    expect(isValidTimezone('Not/AZone')).toBe(false)
+  })
+})
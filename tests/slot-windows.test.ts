@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { buildServiceWindowsFromBaseSlots } from '@/lib/services/slot-windows.util'
+import { buildServiceWindowsFromBaseSlots, buildServiceWindowsFromIntervals } from '@/lib/services/slot-windows.util'
 
 function makeSlot(id: string, startISO: string, isAvailable = true) {
   const start = new Date(startISO)
@@ -77,4 +77,66 @@ describe('buildServiceWindowsFromBaseSlots', () => {
 
     expect(windows.length).toBe(0)
   })
+  it('reserves buffer slots around the window without showing them', () => {
+    const base = [
+      makeSlot('c1', '2026-01-27T11:00:00.000Z'),
+      makeSlot('c2', '2026-01-27T11:15:00.000Z'),
+      makeSlot('c3', '2026-01-27T11:30:00.000Z'),
+      makeSlot('c4', '2026-01-27T11:45:00.000Z')
+    ]
+
+    const windows = buildServiceWindowsFromBaseSlots({
+      baseSlots: base,
+      durationMinutes: 30,
+      slotStepMinutes: 15,
+      now: '2026-01-27T09:00:00.000Z',
+      closingTime: '18:00',
+      timezone: 'UTC',
+      bufferBeforeMinutes: 15,
+      bufferAfterMinutes: 15
+    })
+
+    expect(windows).toEqual([
+      {
+        start_time: '2026-01-27T11:15:00.000Z',
+        end_time: '2026-01-27T11:45:00.000Z',
+        slot_ids: ['c1', 'c2', 'c3', 'c4']
+      }
+    ])
+  })
+})
+
+describe('buildServiceWindowsFromIntervals with buffers', () => {
+  const nineToNoon = () => ({ intervals: [{ start: 9 * 60, end: 12 * 60 }], closingMinutes: 18 * 60 })
+
+  function build(extra: { bufferBeforeMinutes?: number; bufferAfterMinutes?: number; occupiedRanges?: { start_time: string; end_time: string }[] }) {
+    return buildServiceWindowsFromIntervals({
+      from: '2026-01-27T00:00:00Z',
+      to: '2026-01-27T23:59:59Z',
+      timezone: 'UTC',
+      durationMinutes: 60,
+      now: '2026-01-01T00:00:00Z',
+      resolveDay: nineToNoon,
+      ...extra
+    })
+  }
+
+  it('leaves the buffers as a gap between back-to-back windows', () => {
+    const result = build({ bufferBeforeMinutes: 10, bufferAfterMinutes: 20 })
+
+    expect(result.map(w => [w.start_time, w.end_time])).toEqual([
+      ['2026-01-27T09:10:00.000Z', '2026-01-27T10:10:00.000Z'],
+      ['2026-01-27T10:40:00.000Z', '2026-01-27T11:40:00.000Z']
+    ])
+  })
+
+  it('drops windows whose buffers would cross an occupied range', () => {
+    const result = build({
+      bufferAfterMinutes: 15,
+      occupiedRanges: [{ start_time: '2026-01-27T10:05:00.000Z', end_time: '2026-01-27T10:15:00.000Z' }]
+    })
+
+    // 09:00–10:00 + 15 min de buffer cruza a faixa ocupada; a janela seguinte começa depois do bloco
+    expect(result.map(w => w.start_time)).toEqual(['2026-01-27T10:15:00.000Z'])
+  })
 })
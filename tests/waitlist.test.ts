@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { isOfferExpired, matchesWaitlistWindow, offerExpiresAt, offerHoldMinutes } from '@/lib/services/waitlist.util'
+
+const window = {
+  professional_id: 'pro-1',
+  service_id: 'svc-1',
+  start_time: '2026-03-03T13:00:00.000Z',
+  end_time: '2026-03-03T14:00:00.000Z'
+}
+
+describe('matchesWaitlistWindow', () => {
+  const entry = {
+    professional_id: null,
+    service_id: 'svc-1',
+    from_time: '2026-03-03T12:00:00.000Z',
+    to_time: '2026-03-03T14:00:00.000Z'
+  }
+
+  it('accepts any professional when the entry has none and the whole appointment fits the range', () => {
+    expect(matchesWaitlistWindow(entry, window)).toBe(true)
+    expect(matchesWaitlistWindow({ ...entry, professional_id: 'pro-1' }, window)).toBe(true)
+  })
+
+  it('rejects another service, another professional or a window outside the range', () => {
+    expect(matchesWaitlistWindow({ ...entry, service_id: 'svc-2' }, window)).toBe(false)
+    expect(matchesWaitlistWindow({ ...entry, professional_id: 'pro-2' }, window)).toBe(false)
+    expect(matchesWaitlistWindow({ ...entry, to_time: '2026-03-03T13:30:00.000Z' }, window)).toBe(false)
+  })
+})
+
+describe('offerExpiresAt', () => {
+  it('holds the offer for the hold period but never past the offered start', () => {
+    expect(offerExpiresAt('2026-03-03T10:00:00.000Z', window.start_time)).toBe('2026-03-03T10:30:00.000Z')
+    expect(offerExpiresAt('2026-03-03T12:45:00.000Z', window.start_time)).toBe('2026-03-03T13:00:00.000Z')
+    expect(offerExpiresAt('2026-03-03T10:00:00.000Z', window.start_time, 120)).toBe('2026-03-03T12:00:00.000Z')
+  })
+})
+
+describe('offerHoldMinutes', () => {
+  it('holds the window in whole minutes until the offer expires', () => {
+    expect(offerHoldMinutes('2026-03-03T10:00:00.000Z', window.start_time)).toBe(30)
+    expect(offerHoldMinutes('2026-03-03T12:50:30.000Z', window.start_time)).toBe(9)
+    expect(offerHoldMinutes('2026-03-03T12:59:30.000Z', window.start_time)).toBe(0)
+    expect(offerHoldMinutes('2026-03-03T13:10:00.000Z', window.start_time)).toBe(0)
+  })
+})
+
+describe('isOfferExpired', () => {
+  it('only expires pending offers past their deadline', () => {
+    const offer = { status: 'offered', offer_expires_at: '2026-03-03T10:30:00.000Z' }
+    expect(isOfferExpired(offer, '2026-03-03T10:29:59.000Z')).toBe(false)
+    expect(isOfferExpired(offer, '2026-03-03T10:30:00.000Z')).toBe(true)
+    expect(isOfferExpired({ ...offer, status: 'booked' }, '2026-03-03T11:00:00.000Z')).toBe(false)
+  })
+})
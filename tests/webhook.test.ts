@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  generateWebhookSecret,
+  isPublicIpAddress,
+  isWebhookEvent,
+  nextWebhookAttemptAt,
+  publicWebhookLookup,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookUrlError
+} from '@/lib/services/webhook.util'
+
+const secret = 'whsec_test'
+const body = JSON.stringify({ event: 'booking.created', data: { id: 'b1' } })
+
+describe('signWebhookPayload', () => {
+  it('produces a deterministic timestamped signature', () => {
+    const header = signWebhookPayload(secret, 1767225600, body)
+
+    expect(header).toMatch(/^t=1767225600,v1=[0-9a-f]{64}$/)
+    expect(signWebhookPayload(secret, 1767225600, body)).toBe(header)
+    expect(signWebhookPayload('whsec_other', 1767225600, body)).not.toBe(header)
+  })
+
+  it('round-trips through verifyWebhookSignature', () => {
+    const header = signWebhookPayload(secret, 1767225600, body)
+
+    expect(verifyWebhookSignature(secret, header, body, 300, 1767225600)).toBe(true)
+    expect(verifyWebhookSignature(secret, header, body + ' ', 300, 1767225600)).toBe(false)
+    expect(verifyWebhookSignature(secret, header, body, 300, 1767225600 + 301)).toBe(false)
+    expect(verifyWebhookSignature(secret, 'garbage', body, 300, 1767225600)).toBe(false)
+  })
+})
+
+describe('nextWebhookAttemptAt', () => {
+  const from = new Date('2026-03-02T12:00:00.000Z')
+
+  it('backs off after each failed attempt', () => {
+    expect(nextWebhookAttemptAt(1, from)?.toISOString()).toBe('2026-03-02T12:01:00.000Z')
+    expect(nextWebhookAttemptAt(2, from)?.toISOString()).toBe('2026-03-02T12:05:00.000Z')
+  })
+
+  it('gives up after the last attempt', () => {
+    expect(nextWebhookAttemptAt(WEBHOOK_MAX_ATTEMPTS, from)).toBeNull()
+  })
+})
+
+describe('webhook helpers', () => {
+  it('recognizes supported events', () => {
+    expect(isWebhookEvent('booking.cancelled')).toBe(true)
+    expect(isWebhookEvent('booking.exploded')).toBe(false)
+  })
+
+  it('generates prefixed secrets', () => {
+    expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/)
+  })
+})
+
+describe('webhook targets', () => {
+  it('rejects private, loopback, link-local and reserved addresses', () => {
+    const blocked = ['10.0.0.5', '127.0.0.1', '169.254.169.254', '172.20.1.1', '192.168.0.10', '100.64.0.1', '0.0.0.0']
+
+    ;[...blocked, '::1', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1'].forEach((address) =>
+      expect(isPublicIpAddress(address)).toBe(false)
+    )
+    expect(isPublicIpAddress('93.184.216.34')).toBe(true)
+    expect(isPublicIpAddress('2606:4700::6810:84e5')).toBe(true)
+    expect(isPublicIpAddress('exemplo.com')).toBe(false)
+  })
+
+  it('validates the scheme and literal hosts of webhook URLs', () => {
+    expect(webhookUrlError('https://exemplo.com/webhooks')).toBeNull()
+    expect(webhookUrlError('ftp://exemplo.com')).toBe('URL must use http or https')
+    expect(webhookUrlError('http://localhost:3000/hook')).toBe('URL must point to a public host')
+    expect(webhookUrlError('http://169.254.169.254/latest/meta-data')).toBe('URL must point to a public host')
+    expect(webhookUrlError('http://2130706433/')).toBe('URL must point to a public host')
+    expect(webhookUrlError('http://[::1]/')).toBe('URL must point to a public host')
+    expect(webhookUrlError('not a url')).toBe('Invalid URL')
+  })
+
+  it('refuses hosts that resolve to non-public addresses', async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+      publicWebhookLookup('localhost', { all: true }, (lookupError) => resolve(lookupError))
+    )
+
+    expect(error?.code).toBe('EWEBHOOKTARGET')
+  })
+})
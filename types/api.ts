@@ -1,13 +1,29 @@
+export interface ApiPagination {
+  limit: number
+  hasMore: boolean
+  nextCursor: string | null // envie como `cursor` para buscar a próxima página
+}
+
+/**
+ * Ocorrência de uma série recorrente que não pode ser reservada (respostas 409 de /bookings/recurring e séries)
+ */
+export interface ApiConflict {
+  index: number
+  startTime: string
+  endTime: string
+  reason: string
+}
+
 export interface ApiResponse<T = unknown> {
   success: boolean
   data?: T
   error?: string
   errors?: Record<string, string[] | undefined>
+  conflicts?: ApiConflict[]
+  pagination?: ApiPagination
 }
 
 export interface PaginatedResponse<T> {
   data: T[]
-  total: number
-  page: number
-  limit: number
+  pagination: ApiPagination
 }
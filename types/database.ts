@@ -8,6 +8,12 @@ export interface Database {
           id: string
           name: string
           slug: string
+          timezone: string
+          rate_limit_per_minute: number | null
+          daily_quota: number | null
+          min_notice_minutes: number
+          max_advance_days: number | null
+          cancellation_cutoff_minutes: number
           created_at: string
           updated_at: string
         }
@@ -15,6 +21,12 @@ export interface Database {
           id?: string
           name: string
           slug: string
+          timezone?: string
+          rate_limit_per_minute?: number | null
+          daily_quota?: number | null
+          min_notice_minutes?: number
+          max_advance_days?: number | null
+          cancellation_cutoff_minutes?: number
           created_at?: string
           updated_at?: string
         }
@@ -22,6 +34,12 @@ export interface Database {
           id?: string
           name?: string
           slug?: string
+          timezone?: string
+          rate_limit_per_minute?: number | null
+          daily_quota?: number | null
+          min_notice_minutes?: number
+          max_advance_days?: number | null
+          cancellation_cutoff_minutes?: number
           updated_at?: string
         }
       }
@@ -58,17 +76,23 @@ export interface Database {
           id: string
           company_id: string
           label: string
+          rate_limit_per_minute: number | null
+          daily_quota: number | null
           created_at: string
         }
         Insert: {
           id?: string
           company_id: string
           label: string
+          rate_limit_per_minute?: number | null
+          daily_quota?: number | null
           created_at?: string
         }
         Update: {
           id?: string
           label?: string
+          rate_limit_per_minute?: number | null
+          daily_quota?: number | null
         }
       }
       api_keys: {
@@ -77,7 +101,13 @@ export interface Database {
           api_client_id: string
           key_hash: string
           key_prefix: string
+          key_identifier: string | null
           revoked: boolean
+          scopes: string[]
+          expires_at: string | null
+          last_used_at: string | null
+          last_used_ip: string | null
+          replaced_by: string | null
           created_at: string
           revoked_at: string | null
         }
@@ -86,7 +116,13 @@ export interface Database {
           api_client_id: string
           key_hash: string
           key_prefix: string
+          key_identifier?: string | null
           revoked?: boolean
+          scopes?: string[]
+          expires_at?: string | null
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          replaced_by?: string | null
           created_at?: string
           revoked_at?: string | null
         }
@@ -95,7 +131,13 @@ export interface Database {
           api_client_id?: string
           key_hash?: string
           key_prefix?: string
+          key_identifier?: string | null
           revoked?: boolean
+          scopes?: string[]
+          expires_at?: string | null
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          replaced_by?: string | null
           revoked_at?: string | null
         }
       }
@@ -106,6 +148,7 @@ export interface Database {
           name: string
           email: string | null
           phone: string | null
+          timezone: string | null
           created_at: string
         }
         Insert: {
@@ -114,6 +157,7 @@ export interface Database {
           name: string
           email?: string | null
           phone?: string | null
+          timezone?: string | null
           created_at?: string
         }
         Update: {
@@ -122,6 +166,7 @@ export interface Database {
           name?: string
           email?: string | null
           phone?: string | null
+          timezone?: string | null
         }
       }
       services: {
@@ -131,6 +176,12 @@ export interface Database {
           name: string
           duration_minutes: number
           price: number | null
+          buffer_before_minutes: number
+          buffer_after_minutes: number
+          capacity: number
+          min_notice_minutes: number | null
+          max_advance_days: number | null
+          cancellation_cutoff_minutes: number | null
           created_at: string
         }
         Insert: {
@@ -139,6 +190,12 @@ export interface Database {
           name: string
           duration_minutes: number
           price?: number | null
+          buffer_before_minutes?: number
+          buffer_after_minutes?: number
+          capacity?: number
+          min_notice_minutes?: number | null
+          max_advance_days?: number | null
+          cancellation_cutoff_minutes?: number | null
           created_at?: string
         }
         Update: {
@@ -147,6 +204,12 @@ export interface Database {
           name?: string
           duration_minutes?: number
           price?: number | null
+          buffer_before_minutes?: number
+          buffer_after_minutes?: number
+          capacity?: number
+          min_notice_minutes?: number | null
+          max_advance_days?: number | null
+          cancellation_cutoff_minutes?: number | null
         }
       }
       availabilities: {
@@ -174,6 +237,37 @@ export interface Database {
           end_time?: string
         }
       }
+      availability_exceptions: {
+        Row: {
+          id: string
+          professional_id: string
+          date: string
+          type: "available" | "unavailable"
+          start_time: string | null
+          end_time: string | null
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          professional_id: string
+          date: string
+          type: "available" | "unavailable"
+          start_time?: string | null
+          end_time?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          professional_id?: string
+          date?: string
+          type?: "available" | "unavailable"
+          start_time?: string | null
+          end_time?: string | null
+          reason?: string | null
+        }
+      }
       slots: {
         Row: {
           id: string
@@ -209,11 +303,21 @@ export interface Database {
           professional_id: string
           service_id: string
           slot_id: string
+          start_time: string
+          end_time: string
+          blocked_start_time: string
+          blocked_end_time: string
+          customer_id: string | null
+          series_id: string | null
+          session_key: string | null
           customer_name: string
           customer_email: string | null
           customer_phone: string | null
           status: string
           created_at: string
+          updated_at: string | null
+          cancelled_at: string | null
+          cancellation_reason: string | null
         }
         Insert: {
           id?: string
@@ -221,11 +325,21 @@ export interface Database {
           professional_id: string
           service_id: string
           slot_id: string
+          start_time: string
+          end_time: string
+          blocked_start_time: string
+          blocked_end_time: string
+          customer_id?: string | null
+          series_id?: string | null
+          session_key?: string | null
           customer_name: string
           customer_email?: string | null
           customer_phone?: string | null
           status?: string
           created_at?: string
+          updated_at?: string | null
+          cancelled_at?: string | null
+          cancellation_reason?: string | null
         }
         Update: {
           id?: string
@@ -233,10 +347,85 @@ export interface Database {
           professional_id?: string
           service_id?: string
           slot_id?: string
+          start_time?: string
+          end_time?: string
+          blocked_start_time?: string
+          blocked_end_time?: string
+          customer_id?: string | null
+          series_id?: string | null
+          session_key?: string | null
           customer_name?: string
           customer_email?: string | null
           customer_phone?: string | null
           status?: string
+          updated_at?: string | null
+          cancelled_at?: string | null
+          cancellation_reason?: string | null
+        }
+      }
+      booking_series: {
+        Row: {
+          id: string
+          company_id: string
+          professional_id: string
+          service_id: string
+          customer_id: string | null
+          rrule: string
+          timezone: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          professional_id: string
+          service_id: string
+          customer_id?: string | null
+          rrule: string
+          timezone: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          professional_id?: string
+          service_id?: string
+          customer_id?: string | null
+          rrule?: string
+          timezone?: string
+          updated_at?: string
+        }
+      }
+      booking_status_history: {
+        Row: {
+          id: string
+          booking_id: string
+          company_id: string
+          from_status: string | null
+          to_status: string
+          from_slot_id: string | null
+          to_slot_id: string | null
+          reason: string | null
+          actor_type: "api_key" | "user" | "system"
+          actor_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          company_id: string
+          from_status?: string | null
+          to_status: string
+          from_slot_id?: string | null
+          to_slot_id?: string | null
+          reason?: string | null
+          actor_type: "api_key" | "user" | "system"
+          actor_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          reason?: string | null
         }
       }
       activity_logs: {
@@ -270,6 +459,311 @@ export interface Database {
           metadata?: Record<string, unknown> | null
         }
       }
+      customers: {
+        Row: {
+          id: string
+          company_id: string
+          name: string
+          email: string | null
+          phone: string | null
+          normalized_email: string | null
+          normalized_phone: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          name: string
+          email?: string | null
+          phone?: string | null
+          normalized_email?: string | null
+          normalized_phone?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          name?: string
+          email?: string | null
+          phone?: string | null
+          normalized_email?: string | null
+          normalized_phone?: string | null
+          notes?: string | null
+          updated_at?: string
+        }
+      }
+      professional_services: {
+        Row: {
+          id: string
+          professional_id: string
+          service_id: string
+          duration_minutes: number | null
+          price: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          professional_id: string
+          service_id: string
+          duration_minutes?: number | null
+          price?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          professional_id?: string
+          service_id?: string
+          duration_minutes?: number | null
+          price?: number | null
+          updated_at?: string
+        }
+      }
+      webhook_subscriptions: {
+        Row: {
+          id: string
+          company_id: string
+          url: string
+          description: string | null
+          events: string[]
+          secret: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          url: string
+          description?: string | null
+          events: string[]
+          secret: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          url?: string
+          description?: string | null
+          events?: string[]
+          secret?: string
+          is_active?: boolean
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          subscription_id: string
+          company_id: string
+          event: string
+          payload: Record<string, unknown>
+          status: "pending" | "delivering" | "succeeded" | "failed"
+          attempts: number
+          next_attempt_at: string | null
+          last_attempt_at: string | null
+          response_status: number | null
+          last_error: string | null
+          delivered_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          subscription_id: string
+          company_id: string
+          event: string
+          payload: Record<string, unknown>
+          status?: "pending" | "delivering" | "succeeded" | "failed"
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          delivered_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: "pending" | "delivering" | "succeeded" | "failed"
+          attempts?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          delivered_at?: string | null
+        }
+      }
+      idempotency_keys: {
+        Row: {
+          id: string
+          api_client_id: string
+          company_id: string
+          idempotency_key: string
+          method: string
+          path: string
+          request_hash: string
+          status: "processing" | "completed"
+          response_status: number | null
+          response_body: unknown | null
+          created_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          api_client_id: string
+          company_id: string
+          idempotency_key: string
+          method: string
+          path: string
+          request_hash: string
+          status?: "processing" | "completed"
+          response_status?: number | null
+          response_body?: unknown | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          status?: "processing" | "completed"
+          response_status?: number | null
+          response_body?: unknown | null
+          completed_at?: string | null
+        }
+      }
+      waitlist_entries: {
+        Row: {
+          id: string
+          company_id: string
+          service_id: string
+          professional_id: string | null
+          customer_id: string | null
+          customer_name: string
+          customer_email: string | null
+          customer_phone: string | null
+          from_time: string
+          to_time: string
+          status: "waiting" | "offered" | "booked" | "expired" | "cancelled"
+          offer_professional_id: string | null
+          offer_start_time: string | null
+          offer_end_time: string | null
+          offer_expires_at: string | null
+          offer_hold_id: string | null
+          booking_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          service_id: string
+          professional_id?: string | null
+          customer_id?: string | null
+          customer_name: string
+          customer_email?: string | null
+          customer_phone?: string | null
+          from_time: string
+          to_time: string
+          status?: "waiting" | "offered" | "booked" | "expired" | "cancelled"
+          offer_professional_id?: string | null
+          offer_start_time?: string | null
+          offer_end_time?: string | null
+          offer_expires_at?: string | null
+          offer_hold_id?: string | null
+          booking_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          service_id?: string
+          professional_id?: string | null
+          customer_id?: string | null
+          customer_name?: string
+          customer_email?: string | null
+          customer_phone?: string | null
+          from_time?: string
+          to_time?: string
+          status?: "waiting" | "offered" | "booked" | "expired" | "cancelled"
+          offer_professional_id?: string | null
+          offer_start_time?: string | null
+          offer_end_time?: string | null
+          offer_expires_at?: string | null
+          offer_hold_id?: string | null
+          booking_id?: string | null
+          updated_at?: string
+        }
+      }
+      booking_holds: {
+        Row: {
+          id: string
+          company_id: string
+          professional_id: string
+          service_id: string
+          start_time: string
+          end_time: string
+          blocked_start_time: string
+          blocked_end_time: string
+          session_key: string | null
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          professional_id: string
+          service_id: string
+          start_time: string
+          end_time: string
+          blocked_start_time: string
+          blocked_end_time: string
+          session_key?: string | null
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          professional_id?: string
+          service_id?: string
+          start_time?: string
+          end_time?: string
+          blocked_start_time?: string
+          blocked_end_time?: string
+          session_key?: string | null
+          expires_at?: string
+        }
+      }
+      calendar_feeds: {
+        Row: {
+          id: string
+          company_id: string
+          professional_id: string | null
+          name: string | null
+          token_hash: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          company_id: string
+          professional_id?: string | null
+          name?: string | null
+          token_hash: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          company_id?: string
+          professional_id?: string | null
+          name?: string | null
+          token_hash?: string
+        }
+      }
     }
   }
 }
@@ -0,0 +1,13 @@
+import path from "path"
+import {defineConfig} from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname)
+    }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"]
+  }
+})